@@ -9,6 +9,7 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home";
 import OrderFormPage from "@/pages/order-form";
+import MyOrderPage from "@/pages/my-order";
 import AdminLoginPage from "@/pages/admin/login";
 import ProductsPage from "@/pages/admin/products";
 import CampaignsPage from "@/pages/admin/campaigns";
@@ -17,6 +18,15 @@ import SettingsPage from "@/pages/admin/settings";
 import CalendarPage from "@/pages/admin/calendar";
 import FieldsPage from "@/pages/admin/fields";
 import BfvImportPage from "@/pages/admin/bfv-import";
+import UsersPage from "@/pages/admin/users";
+import AuditLogPage from "@/pages/admin/audit-log";
+import EmailTemplatesPage from "@/pages/admin/email-templates";
+import PurchaseOrdersPage from "@/pages/admin/purchase-orders";
+import DistributionPage from "@/pages/admin/distribution";
+import StockPage from "@/pages/admin/stock";
+import SizeSetsPage from "@/pages/admin/size-sets";
+import ReportsPage from "@/pages/admin/reports";
+import BankReconciliationPage from "@/pages/admin/bank-reconciliation";
 import { Loader2 } from "lucide-react";
 
 function AdminLayout({ children }: { children: React.ReactNode }) {
@@ -77,11 +87,20 @@ function Router() {
       <ProtectedAdminRoute>
         <Switch>
           <Route path="/admin/products" component={ProductsPage} />
+          <Route path="/admin/size-sets" component={SizeSetsPage} />
+          <Route path="/admin/stock" component={StockPage} />
           <Route path="/admin/campaigns" component={CampaignsPage} />
           <Route path="/admin/orders" component={OrdersPage} />
+          <Route path="/admin/reports" component={ReportsPage} />
+          <Route path="/admin/bank-reconciliation" component={BankReconciliationPage} />
+          <Route path="/admin/purchase-orders" component={PurchaseOrdersPage} />
+          <Route path="/admin/distribution" component={DistributionPage} />
+          <Route path="/admin/email-templates" component={EmailTemplatesPage} />
           <Route path="/admin/calendar" component={CalendarPage} />
           <Route path="/admin/fields" component={FieldsPage} />
           <Route path="/admin/bfv-import" component={BfvImportPage} />
+          <Route path="/admin/users" component={UsersPage} />
+          <Route path="/admin/audit-log" component={AuditLogPage} />
           <Route path="/admin/settings" component={SettingsPage} />
           <Route component={NotFound} />
         </Switch>
@@ -93,6 +112,7 @@ function Router() {
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/order/:campaignId" component={OrderFormPage} />
+      <Route path="/my-order/:token" component={MyOrderPage} />
       <Route component={NotFound} />
     </Switch>
   );
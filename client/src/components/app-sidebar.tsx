@@ -13,15 +13,34 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
-import { Package, Calendar, ClipboardList, ExternalLink, Settings, LogOut, CalendarDays, LayoutGrid, Download } from "lucide-react";
+import { Package, Calendar, ClipboardList, ExternalLink, Settings, LogOut, CalendarDays, LayoutGrid, Download, Users, History, Mail, Truck, PackageCheck, Boxes, Ruler, BarChart3, Landmark } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLE_LABELS, type UserRole } from "@shared/schema";
 
-const shopItems = [
+interface NavItem {
+  title: string;
+  url: string;
+  icon: typeof Package;
+  roles?: UserRole[]; // Only shown to these roles (admins see everything)
+}
+
+const shopItems: NavItem[] = [
   {
     title: "Produkte",
     url: "/admin/products",
     icon: Package,
   },
+  {
+    title: "Größensysteme",
+    url: "/admin/size-sets",
+    icon: Ruler,
+  },
+  {
+    title: "Lagerbestand",
+    url: "/admin/stock",
+    icon: Boxes,
+  },
   {
     title: "Kampagnen",
     url: "/admin/campaigns",
@@ -32,9 +51,36 @@ const shopItems = [
     url: "/admin/orders",
     icon: ClipboardList,
   },
+  {
+    title: "Auswertung",
+    url: "/admin/reports",
+    icon: BarChart3,
+  },
+  {
+    title: "Zahlungsabgleich",
+    url: "/admin/bank-reconciliation",
+    icon: Landmark,
+    roles: ["shop-admin"],
+  },
+  {
+    title: "Lieferantenbestellung",
+    url: "/admin/purchase-orders",
+    icon: Truck,
+  },
+  {
+    title: "Ausgabe",
+    url: "/admin/distribution",
+    icon: PackageCheck,
+  },
+  {
+    title: "E-Mail-Vorlagen",
+    url: "/admin/email-templates",
+    icon: Mail,
+    roles: ["shop-admin"],
+  },
 ];
 
-const planningItems = [
+const planningItems: NavItem[] = [
   {
     title: "Jahreskalender",
     url: "/admin/calendar",
@@ -52,7 +98,19 @@ const planningItems = [
   },
 ];
 
-const settingsItems = [
+const settingsItems: NavItem[] = [
+  {
+    title: "Benutzer",
+    url: "/admin/users",
+    icon: Users,
+    roles: ["admin"],
+  },
+  {
+    title: "Protokoll",
+    url: "/admin/audit-log",
+    icon: History,
+    roles: ["admin"],
+  },
   {
     title: "Einstellungen",
     url: "/admin/settings",
@@ -63,6 +121,9 @@ const settingsItems = [
 export function AppSidebar() {
   const [location, setLocation] = useLocation();
   const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+
+  const isVisible = (item: NavItem) => !item.roles || can(...item.roles);
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
@@ -92,7 +153,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Bestellportal</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {shopItems.map((item) => (
+              {shopItems.filter(isVisible).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -112,7 +173,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Fußball-Planung</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {planningItems.map((item) => (
+              {planningItems.filter(isVisible).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -132,7 +193,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>System</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {settingsItems.map((item) => (
+              {settingsItems.filter(isVisible).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -175,6 +236,11 @@ export function AppSidebar() {
           <LogOut className="h-4 w-4 mr-2" />
           Abmelden
         </Button>
+        {user && (
+          <div className="text-xs text-muted-foreground" data-testid="text-current-user">
+            Angemeldet als {user.displayName || user.username} ({USER_ROLE_LABELS[user.role]})
+          </div>
+        )}
         <div className="text-xs text-muted-foreground">
           TSV Bestellportal v1.0
         </div>
@@ -0,0 +1,41 @@
+import { useMutation } from "@tanstack/react-query";
+import { downloadFile, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getOrderNumber, type Order } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2 } from "lucide-react";
+
+// Downloads the order's invoice PDF; the first download assigns the invoice number
+export function InvoiceDownloadButton({ order }: { order: Pick<Order, "id"> }) {
+  const { toast } = useToast();
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      await downloadFile(`/api/orders/${order.id}/invoice`, `rechnung-${getOrderNumber(order)}.pdf`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Rechnung konnte nicht erstellt werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => downloadMutation.mutate()}
+      disabled={downloadMutation.isPending}
+      data-testid={`button-invoice-${order.id}`}
+    >
+      {downloadMutation.isPending ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <FileText className="h-4 w-4 mr-2" />
+      )}
+      Rechnung
+    </Button>
+  );
+}
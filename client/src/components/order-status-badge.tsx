@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+  getPaymentStatus,
+  getOpenAmount,
+  type Order,
+  type OrderStatus,
+} from "@shared/schema";
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <Badge className={`${ORDER_STATUS_COLORS[status]} text-white`} data-testid={`badge-status-${status}`}>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export function PaymentStatusBadge({ order }: { order: Pick<Order, "totalAmount" | "paidAmount"> }) {
+  const paymentStatus = getPaymentStatus(order);
+  const variant = paymentStatus === "paid" ? "default" : paymentStatus === "partial" ? "secondary" : "outline";
+
+  return (
+    <Badge variant={variant} data-testid={`badge-payment-${paymentStatus}`}>
+      {PAYMENT_STATUS_LABELS[paymentStatus]}
+      {paymentStatus === "partial" && ` (offen: ${getOpenAmount(order).toFixed(2)} €)`}
+    </Badge>
+  );
+}
@@ -0,0 +1,239 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, downloadFile, getApiErrorMessage, uploadFile } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PRODUCT_IMPORT_ACTIONS,
+  PRODUCT_IMPORT_ACTION_LABELS,
+  type ProductImportAction,
+  type ProductImportResult,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+
+const ACTION_BADGE_VARIANTS: Record<ProductImportAction, "default" | "secondary" | "destructive" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  unchanged: "outline",
+  error: "destructive",
+};
+
+// Downloads the product catalog in the format the import reads
+export function ProductExportButtons() {
+  const { toast } = useToast();
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: "csv" | "xlsx") => {
+      await downloadFile(`/api/products/export?format=${format}`, `produkte.${format}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Der Export ist fehlgeschlagen."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => exportMutation.mutate("csv")}
+        disabled={exportMutation.isPending}
+        data-testid="button-export-products-csv"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        CSV
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() => exportMutation.mutate("xlsx")}
+        disabled={exportMutation.isPending}
+        data-testid="button-export-products-xlsx"
+      >
+        <FileSpreadsheet className="h-4 w-4 mr-2" />
+        Excel
+      </Button>
+    </>
+  );
+}
+
+function ImportPreview({ result }: { result: ProductImportResult }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {PRODUCT_IMPORT_ACTIONS.map((action) => (
+          <Badge key={action} variant={ACTION_BADGE_VARIANTS[action]} data-testid={`badge-import-${action}`}>
+            {PRODUCT_IMPORT_ACTION_LABELS[action]}: {result.counts[action]}
+          </Badge>
+        ))}
+      </div>
+      <div className="max-h-80 overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Zeile</TableHead>
+              <TableHead>Produkt</TableHead>
+              <TableHead>Aktion</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.rows.map((row) => (
+              <TableRow key={row.row} data-testid={`row-import-${row.row}`}>
+                <TableCell>{row.row}</TableCell>
+                <TableCell>{row.name || "-"}</TableCell>
+                <TableCell>
+                  <Badge variant={ACTION_BADGE_VARIANTS[row.action]}>{PRODUCT_IMPORT_ACTION_LABELS[row.action]}</Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {row.errors.length > 0 ? (
+                    <ul className="text-destructive">
+                      {row.errors.map((error, index) => (
+                        <li key={index}>{error}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="text-muted-foreground">{row.changes.join(", ")}</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// Upload of a CSV/XLSX product list: preview first, then import
+export function ProductImportDialog() {
+  const { toast } = useToast();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ upload, dryRun }: { upload: File; dryRun: boolean }) => {
+      const response = await uploadFile(`/api/products/import?dryRun=${dryRun}`, "file", upload);
+      return (await response.json()) as ProductImportResult;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Produkte importiert",
+        description: `${result.counts.create} angelegt, ${result.counts.update} geändert.`,
+      });
+      reset();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Datei konnte nicht importiert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canApply =
+    preview !== null && preview.counts.error === 0 && preview.counts.create + preview.counts.update > 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-products">
+          <Upload className="h-4 w-4 mr-2" />
+          Importieren
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Produkte importieren</DialogTitle>
+          <DialogDescription>
+            CSV- oder Excel-Datei im Format des Exports. Zeilen mit ID oder bekanntem Namen ändern das
+            Produkt, alle anderen legen ein neues an. Leere Zellen lassen bestehende Werte unverändert.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+            <Input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.txt,.xlsx,.xls"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setPreview(null);
+              }}
+              data-testid="input-product-import"
+            />
+            <Button
+              variant="secondary"
+              onClick={() => file && importMutation.mutate({ upload: file, dryRun: true })}
+              disabled={!file || importMutation.isPending}
+              data-testid="button-preview-import"
+            >
+              {importMutation.isPending && importMutation.variables?.dryRun ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Vorschau
+            </Button>
+          </div>
+
+          {preview && <ImportPreview result={preview} />}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => file && importMutation.mutate({ upload: file, dryRun: false })}
+            disabled={!file || !canApply || importMutation.isPending}
+            data-testid="button-apply-import"
+          >
+            {importMutation.isPending && !importMutation.variables?.dryRun ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : null}
+            Importieren
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
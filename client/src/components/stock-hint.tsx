@@ -0,0 +1,54 @@
+import { cn } from "@/lib/utils";
+import { getSizeStock, type Product, type Size } from "@shared/schema";
+
+interface StockHintProps {
+  product: Pick<Product, "stock" | "allowBackorder">;
+  size: Size;
+  variantId?: string;
+  quantity: number;
+  reserved?: number; // Pieces already booked for this order (self-service changes)
+  className?: string;
+}
+
+const LOW_STOCK_THRESHOLD = 5;
+
+// Pieces of a size (and variant) that can still be ordered; undefined when not tracked
+export function getAvailableQuantity(
+  product: Pick<Product, "stock">,
+  size: Size,
+  reserved = 0,
+  variantId?: string,
+): number | undefined {
+  const stock = getSizeStock(product, size, variantId);
+  return stock === undefined ? undefined : Math.max(0, stock + reserved);
+}
+
+export function StockHint({ product, size, variantId, quantity, reserved = 0, className }: StockHintProps) {
+  const available = getAvailableQuantity(product, size, reserved, variantId);
+  if (available === undefined) return null;
+
+  if (quantity > available) {
+    if (product.allowBackorder) {
+      return (
+        <p className={cn("text-sm text-amber-600", className)} data-testid="text-stock-backorder">
+          {available > 0 ? `Nur noch ${available} auf Lager` : "Derzeit nicht auf Lager"} – der Rest wird nachbestellt
+          und kommt später.
+        </p>
+      );
+    }
+    return (
+      <p className={cn("text-sm text-destructive", className)} data-testid="text-stock-exhausted">
+        {available > 0 ? `Nur noch ${available} Stück verfügbar.` : "In dieser Größe ausverkauft."}
+      </p>
+    );
+  }
+
+  if (available <= LOW_STOCK_THRESHOLD) {
+    return (
+      <p className={cn("text-sm text-muted-foreground", className)} data-testid="text-stock-low">
+        Noch {available} auf Lager
+      </p>
+    );
+  }
+  return null;
+}
@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { hasRole, canManageCalendarEvent, type PublicUser, type UserRole, type EventType, type Team } from "@shared/schema";
+
+export interface AuthStatus {
+  isAdmin: boolean;
+  user: PublicUser | null;
+}
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthStatus>({
+    queryKey: ["/api/auth/check"],
+  });
+
+  const user = data?.user ?? null;
+
+  return {
+    user,
+    isAdmin: !!data?.isAdmin,
+    isLoading,
+    can: (...roles: UserRole[]) => !!user && hasRole(user.role, roles),
+    // For CalendarPage/FieldsPage editing controls
+    canManageEvent: (event: { type: EventType; team?: Team }) =>
+      !!user && canManageCalendarEvent(user, event),
+  };
+}
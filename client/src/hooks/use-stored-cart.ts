@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState, type SetStateAction } from "react";
+import { z } from "zod";
+import { orderItemSchema, type OrderItem } from "@shared/schema";
+
+// Carts older than this are dropped, prices and stock may have changed since
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const storedCartSchema = z.object({
+  savedAt: z.number(),
+  items: z.array(orderItemSchema),
+});
+
+function storageKey(campaignId: string): string {
+  return `cart:${campaignId}`;
+}
+
+function readCart(campaignId: string): OrderItem[] {
+  try {
+    const raw = localStorage.getItem(storageKey(campaignId));
+    if (!raw) return [];
+    const parsed = storedCartSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success || Date.now() - parsed.data.savedAt > MAX_AGE_MS) {
+      localStorage.removeItem(storageKey(campaignId));
+      return [];
+    }
+    return parsed.data.items as OrderItem[];
+  } catch {
+    return []; // Storage disabled or corrupt entry
+  }
+}
+
+/**
+ * Cart of the order form, kept in local storage per campaign so that it
+ * survives reloads while a family adds items for several wearers. Prices are
+ * recalculated by the server on submit; call clear() after a successful order.
+ */
+export function useStoredCart(campaignId: string | undefined) {
+  // Remembers which campaign the items belong to, so switching campaigns never
+  // writes one cart under the other's key
+  const [cart, setCart] = useState(() => ({
+    campaignId,
+    items: campaignId ? readCart(campaignId) : [],
+  }));
+
+  useEffect(() => {
+    if (cart.campaignId !== campaignId) {
+      setCart({ campaignId, items: campaignId ? readCart(campaignId) : [] });
+    }
+  }, [campaignId, cart.campaignId]);
+
+  useEffect(() => {
+    if (!cart.campaignId || cart.campaignId !== campaignId) return;
+    try {
+      if (cart.items.length === 0) {
+        localStorage.removeItem(storageKey(cart.campaignId));
+      } else {
+        localStorage.setItem(storageKey(cart.campaignId), JSON.stringify({ savedAt: Date.now(), items: cart.items }));
+      }
+    } catch {
+      // Quota exceeded or private mode: the cart just isn't persisted
+    }
+  }, [campaignId, cart]);
+
+  const setItems = useCallback((action: SetStateAction<OrderItem[]>) => {
+    setCart((current) => ({
+      ...current,
+      items: typeof action === "function" ? action(current.items) : action,
+    }));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), [setItems]);
+  const items = cart.campaignId === campaignId ? cart.items : [];
+
+  return { items, setItems, clear };
+}
@@ -7,6 +7,20 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Extracts the server's German error message from an apiRequest error
+// ("<status>: <json body>"), falling back to the given text
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed.error === "string") return parsed.error;
+    if (Array.isArray(parsed.error) && parsed.error[0]?.message) return parsed.error[0].message;
+  } catch {
+    // body was not JSON
+  }
+  return fallback;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -23,6 +37,33 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as multipart form data under the field name the route expects
+export async function uploadFile(url: string, field: string, file: File): Promise<Response> {
+  const body = new FormData();
+  body.append(field, file);
+  const res = await fetch(url, { method: "POST", body, credentials: "include" });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Downloads a generated file (PDF, CSV, XLSX) under the name sent by the server
+export async function downloadFile(url: string, fallbackName: string): Promise<void> {
+  const res = await fetch(url, { credentials: "include" });
+  await throwIfResNotOk(res);
+
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const blobUrl = window.URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = blobUrl;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(blobUrl);
+  document.body.removeChild(a);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
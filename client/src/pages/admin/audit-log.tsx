@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AuditLogEntry, AuditAction, AuditEntityType, PublicUser } from "@shared/schema";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_TYPES,
+  AUDIT_ENTITY_LABELS,
+} from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { de } from "date-fns/locale";
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Top-level fields that differ between the before and after snapshot
+function getChanges(entry: AuditLogEntry): FieldChange[] {
+  const before = (entry.before && typeof entry.before === "object" ? entry.before : {}) as Record<string, unknown>;
+  const after = (entry.after && typeof entry.after === "object" ? entry.after : {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "-";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export default function AuditLogPage() {
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [actorId, setActorId] = useState<string>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (action !== "all") params.set("action", action);
+  if (actorId !== "all") params.set("actorId", actorId);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/audit-log?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Änderungsprotokoll</h1>
+        <p className="text-muted-foreground">
+          Wer hat wann was im Admin-Bereich geändert
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label>Bereich</Label>
+              <Select value={entityType} onValueChange={(v) => setEntityType(v as AuditEntityType | "all")}>
+                <SelectTrigger data-testid="select-entity-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Bereiche</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {AUDIT_ENTITY_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Aktion</Label>
+              <Select value={action} onValueChange={(v) => setAction(v as AuditAction | "all")}>
+                <SelectTrigger data-testid="select-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Aktionen</SelectItem>
+                  {AUDIT_ACTIONS.map((a) => (
+                    <SelectItem key={a} value={a}>
+                      {AUDIT_ACTION_LABELS[a]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Benutzer</Label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger data-testid="select-actor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Benutzer</SelectItem>
+                  {users?.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.displayName || user.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">Von</Label>
+              <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-from" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">Bis</Label>
+              <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-to" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : entries && entries.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Einträge</CardTitle>
+            <CardDescription>
+              Klicke auf einen Eintrag, um die Änderungen im Detail zu sehen (max. 200 neueste)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Accordion type="single" collapsible className="w-full">
+              {entries.map((entry) => {
+                const changes = getChanges(entry);
+                return (
+                  <AccordionItem key={entry.id} value={entry.id}>
+                    <AccordionTrigger className="hover:no-underline" data-testid={`audit-${entry.id}`}>
+                      <div className="flex items-center gap-4 text-left w-full pr-4">
+                        <div className="text-sm text-muted-foreground w-36 shrink-0">
+                          {format(parseISO(entry.createdAt), "dd.MM.yyyy HH:mm:ss", { locale: de })}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium">{entry.actorName}</div>
+                          <div className="text-sm text-muted-foreground truncate">
+                            {AUDIT_ENTITY_LABELS[entry.entityType]}
+                            {entry.entityId ? ` · ${entry.entityId}` : ""}
+                          </div>
+                        </div>
+                        <Badge variant={entry.action === "delete" ? "destructive" : "outline"}>
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </Badge>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      {changes.length > 0 ? (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Feld</TableHead>
+                              <TableHead>Vorher</TableHead>
+                              <TableHead>Nachher</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {changes.map((change) => (
+                              <TableRow key={change.field}>
+                                <TableCell className="font-medium">{change.field}</TableCell>
+                                <TableCell className="font-mono text-xs break-all">{formatValue(change.before)}</TableCell>
+                                <TableCell className="font-mono text-xs break-all">{formatValue(change.after)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      ) : (
+                        <p className="text-sm text-muted-foreground pt-2">Keine Detaildaten gespeichert</p>
+                      )}
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <History className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-1">Keine Einträge</h3>
+            <p className="text-muted-foreground text-center">
+              Für die gewählten Filter wurden keine Änderungen protokolliert.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
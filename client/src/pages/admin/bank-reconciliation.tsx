@@ -0,0 +1,306 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage, uploadFile } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BankAccount, ReconciliationResult } from "@shared/schema";
+import { formatIban, formatPrice } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InvoiceDownloadButton } from "@/components/invoice-button";
+import { Landmark, Save, Upload, Loader2, AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { de } from "date-fns/locale";
+
+function formatDate(date: string | undefined): string {
+  return date ? format(parseISO(date), "dd.MM.yyyy", { locale: de }) : "-";
+}
+
+function BankAccountForm({ account }: { account: BankAccount | null }) {
+  const { toast } = useToast();
+  const [accountHolder, setAccountHolder] = useState(account?.accountHolder ?? "");
+  const [iban, setIban] = useState(account ? formatIban(account.iban) : "");
+  const [bic, setBic] = useState(account?.bic ?? "");
+
+  useEffect(() => {
+    setAccountHolder(account?.accountHolder ?? "");
+    setIban(account ? formatIban(account.iban) : "");
+    setBic(account?.bic ?? "");
+  }, [account]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", "/api/settings/bank-account", { accountHolder, iban, bic: bic || undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/bank-account"] });
+      toast({
+        title: "Bankverbindung gespeichert",
+        description: "Bestätigungen enthalten ab sofort die Überweisungsdaten und den GiroCode.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Bankverbindung konnte nicht gespeichert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vereinskonto</CardTitle>
+        <CardDescription>
+          Empfänger für Überweisungen. Ohne Bankverbindung wird keine Überweisung angeboten.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid gap-4 md:grid-cols-[2fr_2fr_1fr_auto] md:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="account-holder">Kontoinhaber</Label>
+            <Input
+              id="account-holder"
+              value={accountHolder}
+              onChange={(e) => setAccountHolder(e.target.value)}
+              placeholder="TSV e.V."
+              data-testid="input-account-holder"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="iban">IBAN</Label>
+            <Input
+              id="iban"
+              value={iban}
+              onChange={(e) => setIban(e.target.value)}
+              placeholder="DE00 0000 0000 0000 0000 00"
+              data-testid="input-iban"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bic">BIC (optional)</Label>
+            <Input id="bic" value={bic} onChange={(e) => setBic(e.target.value)} data-testid="input-bic" />
+          </div>
+          <Button
+            type="submit"
+            disabled={!accountHolder || !iban || saveMutation.isPending}
+            data-testid="button-save-bank-account"
+          >
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Speichern
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReconciliationView({ result }: { result: ReconciliationResult }) {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Als bezahlt markiert
+            <Badge variant="secondary">{result.matched.length}</Badge>
+          </CardTitle>
+          <CardDescription>
+            Gutschriften mit passendem Verwendungszweck und genau dem offenen Betrag
+            {result.ignoredCount > 0 && ` · ${result.ignoredCount} Lastschriften und vorgemerkte Umsätze übersprungen`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.matched.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Keine Zahlung konnte zugeordnet werden.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Datum</TableHead>
+                  <TableHead>Bestellung</TableHead>
+                  <TableHead>Besteller</TableHead>
+                  <TableHead>Kampagne</TableHead>
+                  <TableHead className="text-right">Betrag</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.matched.map((match) => (
+                  <TableRow key={match.orderId} data-testid={`row-matched-${match.orderId}`}>
+                    <TableCell>{formatDate(match.date)}</TableCell>
+                    <TableCell className="font-mono">#{match.orderNumber}</TableCell>
+                    <TableCell>{match.customerName}</TableCell>
+                    <TableCell>{match.campaignName}</TableCell>
+                    <TableCell className="text-right">{formatPrice(match.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <InvoiceDownloadButton order={{ id: match.orderId }} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Nicht zugeordnet
+            <Badge variant={result.unmatched.length > 0 ? "destructive" : "secondary"}>{result.unmatched.length}</Badge>
+          </CardTitle>
+          <CardDescription>Diese Gutschriften bitte von Hand prüfen und bei der Bestellung erfassen</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.unmatched.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Alle Gutschriften wurden zugeordnet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Datum</TableHead>
+                  <TableHead>Auftraggeber</TableHead>
+                  <TableHead>Verwendungszweck</TableHead>
+                  <TableHead className="text-right">Betrag</TableHead>
+                  <TableHead>Grund</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.unmatched.map((mismatch, index) => (
+                  <TableRow key={index} data-testid={`row-unmatched-${index}`}>
+                    <TableCell>{formatDate(mismatch.date)}</TableCell>
+                    <TableCell>{mismatch.name ?? "-"}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={mismatch.remittance}>
+                      {mismatch.remittance || "-"}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(mismatch.amount)}</TableCell>
+                    <TableCell>
+                      {mismatch.reason}
+                      {mismatch.orderNumber && (
+                        <span className="text-muted-foreground font-mono"> (#{mismatch.orderNumber})</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function BankReconciliationPage() {
+  const { toast } = useToast();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+
+  const { data: account, isLoading } = useQuery<BankAccount | null>({
+    queryKey: ["/api/settings/bank-account"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (statement: File) => {
+      const response = await uploadFile("/api/payments/bank-statement", "statement", statement);
+      return (await response.json()) as ReconciliationResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      setFile(null);
+      if (fileRef.current) fileRef.current.value = "";
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Kontoauszug abgeglichen",
+        description: `${data.matched.length} Bestellungen als bezahlt markiert, ${data.unmatched.length} Gutschriften nicht zugeordnet.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Der Kontoauszug konnte nicht verarbeitet werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Landmark className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-2xl font-semibold">Zahlungsabgleich</h1>
+          <p className="text-muted-foreground">
+            Überweisungen aus dem Kontoauszug den offenen Bestellungen zuordnen
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? <Skeleton className="h-40 w-full" /> : <BankAccountForm account={account ?? null} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kontoauszug hochladen</CardTitle>
+          <CardDescription>
+            CAMT.053 (XML) oder CSV-Export aus dem Online-Banking. Bestellungen werden über den
+            Verwendungszweck (RF-Referenz oder Bestellnummer) und den offenen Betrag erkannt.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isLoading && !account && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Noch keine Bankverbindung hinterlegt: Besteller sehen bisher keine Überweisungsdaten.
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+            <Input
+              ref={fileRef}
+              type="file"
+              accept=".xml,.csv,.txt"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="sm:max-w-sm"
+              data-testid="input-bank-statement"
+            />
+            <Button
+              onClick={() => file && uploadMutation.mutate(file)}
+              disabled={!file || uploadMutation.isPending}
+              data-testid="button-upload-bank-statement"
+            >
+              {uploadMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Abgleichen
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && <ReconciliationView result={result} />}
+    </div>
+  );
+}
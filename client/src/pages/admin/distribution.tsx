@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { downloadFile, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Campaign, Order, PickListSort } from "@shared/schema";
+import { PICK_LIST_SORTS, PICK_LIST_SORT_LABELS, formatPrice, getOpenAmount } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PackageCheck, ClipboardList, FileSignature, Download, Loader2 } from "lucide-react";
+
+type PickupDocument = "packing-list" | "pickup-sheets";
+
+const DOCUMENTS: { key: PickupDocument; title: string; description: string; icon: typeof ClipboardList }[] = [
+  {
+    key: "packing-list",
+    title: "Packliste",
+    description: "Alle Bestellungen mit Artikeln, Größen, Initialien und offenem Betrag zum Abhaken",
+    icon: ClipboardList,
+  },
+  {
+    key: "pickup-sheets",
+    title: "Abholscheine",
+    description: "Eine Seite pro Besteller mit Artikeln, zu zahlendem Betrag und Unterschriftszeile",
+    icon: FileSignature,
+  },
+];
+
+export default function DistributionPage() {
+  const { toast } = useToast();
+  const [selectedCampaign, setSelectedCampaign] = useState<string>("");
+  const [sort, setSort] = useState<PickListSort>("name");
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: orders } = useQuery<Order[]>({
+    queryKey: ["/api/orders"],
+  });
+
+  const campaignOrders = orders?.filter(
+    (order) => order.campaignId === selectedCampaign && order.status !== "cancelled"
+  ) || [];
+  const openAmount = campaignOrders.reduce((sum, order) => sum + getOpenAmount(order), 0);
+
+  const downloadMutation = useMutation({
+    mutationFn: async (document: PickupDocument) => {
+      await downloadFile(
+        `/api/campaigns/${selectedCampaign}/pickup-documents/${document}?sort=${sort}`,
+        `${document}.pdf`,
+      );
+    },
+    onSuccess: () => {
+      toast({
+        title: "Export erfolgreich",
+        description: "Die PDF-Datei wurde heruntergeladen.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die PDF-Datei konnte nicht erstellt werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <PackageCheck className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold">Ausgabe</h1>
+            <p className="text-muted-foreground">
+              Packliste und Abholscheine für den Ausgabetag drucken
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Select value={sort} onValueChange={(value) => setSort(value as PickListSort)}>
+            <SelectTrigger className="w-44" data-testid="select-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PICK_LIST_SORTS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {PICK_LIST_SORT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={selectedCampaign} onValueChange={setSelectedCampaign}>
+            <SelectTrigger className="w-64" data-testid="select-campaign">
+              <SelectValue placeholder="Kampagne auswählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {campaigns?.map((campaign) => (
+                <SelectItem key={campaign.id} value={campaign.id}>
+                  {campaign.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!selectedCampaign ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Wähle eine Kampagne, um die Unterlagen für die Ausgabe zu erstellen.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground" data-testid="text-summary">
+            {campaignOrders.length} Bestellungen, offen insgesamt {formatPrice(openAmount)}
+          </p>
+          <div className="grid gap-4 md:grid-cols-2">
+            {DOCUMENTS.map(({ key, title, description, icon: Icon }) => (
+              <Card key={key}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icon className="h-5 w-5" />
+                    {title}
+                  </CardTitle>
+                  <CardDescription>{description}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button
+                    onClick={() => downloadMutation.mutate(key)}
+                    disabled={downloadMutation.isPending}
+                    data-testid={`button-download-${key}`}
+                  >
+                    {downloadMutation.isPending && downloadMutation.variables === key ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    PDF herunterladen
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
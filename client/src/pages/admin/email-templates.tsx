@@ -0,0 +1,363 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { EmailTemplate, EmailTemplateKey } from "@shared/schema";
+import {
+  EMAIL_TEMPLATE_KEYS,
+  EMAIL_TEMPLATE_LABELS,
+  EMAIL_TEMPLATE_PLACEHOLDERS,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Mail, Save, RotateCcw, Send, Loader2, AlertTriangle } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface EmailTemplatesResponse {
+  templates: EmailTemplate[];
+  emailEnabled: boolean;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+}
+
+function TemplateEditor({ template, emailEnabled }: { template: EmailTemplate; emailEnabled: boolean }) {
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [subject, setSubject] = useState(template.subject);
+  const [body, setBody] = useState(template.body);
+  const [testTo, setTestTo] = useState("");
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [isResetOpen, setIsResetOpen] = useState(false);
+
+  const isDirty = subject !== template.subject || body !== template.body;
+
+  // Live preview, debounced while typing
+  useEffect(() => {
+    if (!subject || !body) return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiRequest("POST", "/api/email-templates/preview", {
+          key: template.key,
+          subject,
+          body,
+        });
+        setPreview(await response.json());
+      } catch {
+        setPreview(null);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [template.key, subject, body]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/email-templates/${template.key}`, { subject, body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+      toast({
+        title: "Vorlage gespeichert",
+        description: `Die Vorlage "${EMAIL_TEMPLATE_LABELS[template.key]}" wird ab sofort verwendet.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Vorlage konnte nicht gespeichert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/email-templates/${template.key}`);
+      return (await response.json()) as EmailTemplate;
+    },
+    onSuccess: (defaultTemplate) => {
+      setSubject(defaultTemplate.subject);
+      setBody(defaultTemplate.body);
+      setIsResetOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates"] });
+      toast({
+        title: "Vorlage zurückgesetzt",
+        description: "Die Standardvorlage wird wieder verwendet.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Vorlage konnte nicht zurückgesetzt werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/email-templates/test", {
+        key: template.key,
+        subject,
+        body,
+        to: testTo,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Test-E-Mail gesendet",
+        description: `Die Test-E-Mail wurde an ${testTo} gesendet.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Test-E-Mail konnte nicht gesendet werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Inserts the placeholder at the cursor position of the body field
+  const insertPlaceholder = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody((current) => current + placeholder);
+      return;
+    }
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    setBody((current) => current.slice(0, start) + placeholder + current.slice(end));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>{EMAIL_TEMPLATE_LABELS[template.key]}</CardTitle>
+            {template.isDefault ? (
+              <Badge variant="secondary">Standard</Badge>
+            ) : (
+              <Badge variant="outline">Angepasst</Badge>
+            )}
+          </div>
+          <CardDescription>
+            Betreff und Text der E-Mail. Platzhalter werden beim Versand ersetzt.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`subject-${template.key}`}>Betreff</Label>
+            <Input
+              id={`subject-${template.key}`}
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              data-testid={`input-subject-${template.key}`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`body-${template.key}`}>Text (HTML)</Label>
+            <Textarea
+              id={`body-${template.key}`}
+              ref={bodyRef}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="min-h-[320px] font-mono text-xs"
+              data-testid={`input-body-${template.key}`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Platzhalter</Label>
+            <div className="flex flex-wrap gap-2">
+              {EMAIL_TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                <Badge
+                  key={placeholder.key}
+                  variant="outline"
+                  className="cursor-pointer font-mono"
+                  title={placeholder.description}
+                  onClick={() => insertPlaceholder(placeholder.key)}
+                  data-testid={`placeholder-${placeholder.key}`}
+                >
+                  {`{{${placeholder.key}}}`}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Klicken fügt den Platzhalter ein. Mit {"{{#if openAmount}}...{{/if}}"} wird ein Abschnitt nur angezeigt,
+              wenn der Wert nicht leer ist.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isDirty || !subject || !body || saveMutation.isPending}
+              data-testid={`button-save-${template.key}`}
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Speichern
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsResetOpen(true)}
+              disabled={template.isDefault || resetMutation.isPending}
+              data-testid={`button-reset-${template.key}`}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Auf Standard zurücksetzen
+            </Button>
+          </div>
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor={`test-to-${template.key}`}>Test-E-Mail senden an</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`test-to-${template.key}`}
+                type="email"
+                value={testTo}
+                onChange={(e) => setTestTo(e.target.value)}
+                placeholder="name@example.com"
+                data-testid={`input-test-to-${template.key}`}
+              />
+              <Button
+                variant="secondary"
+                onClick={() => testMutation.mutate()}
+                disabled={!emailEnabled || !testTo || testMutation.isPending}
+                data-testid={`button-test-${template.key}`}
+              >
+                {testMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                Senden
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Verwendet den aktuellen (auch ungespeicherten) Text mit einer Beispielbestellung.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vorschau</CardTitle>
+          <CardDescription>
+            {preview ? `Betreff: ${preview.subject}` : "Vorschau wird erstellt..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {preview ? (
+            <iframe
+              title={`Vorschau ${EMAIL_TEMPLATE_LABELS[template.key]}`}
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[640px] rounded-md border bg-white"
+              data-testid={`preview-${template.key}`}
+            />
+          ) : (
+            <Skeleton className="w-full h-[640px]" />
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isResetOpen} onOpenChange={setIsResetOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Vorlage zurücksetzen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Die angepasste Vorlage "{EMAIL_TEMPLATE_LABELS[template.key]}" wird gelöscht und die Standardvorlage
+              wieder verwendet.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={() => resetMutation.mutate()}>Zurücksetzen</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function EmailTemplatesPage() {
+  const [activeKey, setActiveKey] = useState<EmailTemplateKey>("order-confirmation");
+
+  const { data, isLoading } = useQuery<EmailTemplatesResponse>({
+    queryKey: ["/api/email-templates"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Mail className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-2xl font-semibold">E-Mail-Vorlagen</h1>
+          <p className="text-muted-foreground">
+            Texte der automatischen E-Mails an Besteller anpassen
+          </p>
+        </div>
+      </div>
+
+      {data && !data.emailEnabled && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Der E-Mail-Versand ist nicht konfiguriert. Vorlagen können bearbeitet, aber keine Test-E-Mails
+            gesendet werden.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading || !data ? (
+        <Skeleton className="h-[480px] w-full" />
+      ) : (
+        <Tabs value={activeKey} onValueChange={(v) => setActiveKey(v as EmailTemplateKey)}>
+          <TabsList>
+            {EMAIL_TEMPLATE_KEYS.map((key) => (
+              <TabsTrigger key={key} value={key} data-testid={`tab-${key}`}>
+                {EMAIL_TEMPLATE_LABELS[key]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {data.templates.map((template) => (
+            <TabsContent key={template.key} value={template.key} className="mt-4">
+              <TemplateEditor
+                key={`${template.key}-${template.isDefault}`}
+                template={template}
+                emailEnabled={data.emailEnabled}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </div>
+  );
+}
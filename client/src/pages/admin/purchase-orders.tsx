@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { downloadFile, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Campaign, SupplierPurchaseOrder } from "@shared/schema";
+import { formatOrderItemName } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Truck, FileText, FileSpreadsheet, Loader2 } from "lucide-react";
+
+type ExportFormat = "pdf" | "csv";
+
+function SupplierCard({ campaignId, purchaseOrder }: { campaignId: string; purchaseOrder: SupplierPurchaseOrder }) {
+  const { toast } = useToast();
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const params = new URLSearchParams({ supplier: purchaseOrder.supplier, format });
+      await downloadFile(
+        `/api/campaigns/${campaignId}/purchase-orders/export?${params}`,
+        `bestellung.${format}`,
+      );
+    },
+    onSuccess: (_, format) => {
+      toast({
+        title: "Export erfolgreich",
+        description: `Die ${format.toUpperCase()}-Datei für ${purchaseOrder.supplier} wurde heruntergeladen.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Bestellung konnte nicht erstellt werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingFormat = exportMutation.isPending ? exportMutation.variables : undefined;
+
+  return (
+    <Card data-testid={`card-supplier-${purchaseOrder.supplier}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>{purchaseOrder.supplier}</CardTitle>
+          <CardDescription>
+            {purchaseOrder.totalQuantity} Artikel
+            {purchaseOrder.initialsQuantity > 0 && `, davon ${purchaseOrder.initialsQuantity} mit Initialien`}
+            {purchaseOrder.personalizationQuantity > 0 &&
+              `, ${purchaseOrder.personalizationQuantity} mit Personalisierung`}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportMutation.mutate("pdf")}
+            disabled={exportMutation.isPending}
+            data-testid={`button-export-pdf-${purchaseOrder.supplier}`}
+          >
+            {pendingFormat === "pdf" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileText className="h-4 w-4 mr-2" />
+            )}
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportMutation.mutate("csv")}
+            disabled={exportMutation.isPending}
+            data-testid={`button-export-csv-${purchaseOrder.supplier}`}
+          >
+            {pendingFormat === "csv" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Produkt</TableHead>
+              <TableHead>Kategorie</TableHead>
+              <TableHead>Größe</TableHead>
+              <TableHead>Initialien</TableHead>
+              <TableHead>Personalisierung</TableHead>
+              <TableHead className="text-right">Anzahl</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchaseOrder.lines.map((line, index) => (
+              <TableRow key={`${line.productId}-${line.variantName ?? ""}-${line.size}-${index}`}>
+                <TableCell className="font-medium">{formatOrderItemName(line)}</TableCell>
+                <TableCell>{line.category}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{line.size}</Badge>
+                </TableCell>
+                <TableCell>
+                  {line.initialsText ?? <span className="text-muted-foreground">-</span>}
+                </TableCell>
+                <TableCell>
+                  {line.personalization ?? <span className="text-muted-foreground">-</span>}
+                </TableCell>
+                <TableCell className="text-right">{line.quantity}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PurchaseOrdersPage() {
+  const [selectedCampaign, setSelectedCampaign] = useState<string>("");
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: purchaseOrders, isLoading } = useQuery<SupplierPurchaseOrder[]>({
+    queryKey: ["/api/campaigns", selectedCampaign, "purchase-orders"],
+    enabled: !!selectedCampaign,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Truck className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold">Lieferantenbestellung</h1>
+            <p className="text-muted-foreground">
+              Bestellmengen einer Kampagne je Lieferant, Produkt und Größe
+            </p>
+          </div>
+        </div>
+        <Select value={selectedCampaign} onValueChange={setSelectedCampaign}>
+          <SelectTrigger className="w-64" data-testid="select-campaign">
+            <SelectValue placeholder="Kampagne auswählen" />
+          </SelectTrigger>
+          <SelectContent>
+            {campaigns?.map((campaign) => (
+              <SelectItem key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!selectedCampaign ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Wähle eine Kampagne, um die Bestellmengen zu sehen.
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      ) : !purchaseOrders?.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Für diese Kampagne liegen keine Bestellungen vor.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {purchaseOrders.map((purchaseOrder) => (
+            <SupplierCard
+              key={purchaseOrder.supplier}
+              campaignId={selectedCampaign}
+              purchaseOrder={purchaseOrder}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
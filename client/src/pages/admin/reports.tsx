@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Campaign, CampaignReport, CampaignReportTotals } from "@shared/schema";
+import { formatPrice } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, ShoppingCart, Euro, Type, Wallet } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { de } from "date-fns/locale";
+
+const ordersPerDayConfig = {
+  orders: { label: "Bestellungen", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const sizesConfig = {
+  quantity: { label: "Stück", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const comparisonConfig = {
+  revenue: { label: "Umsatz", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function formatDay(date: string): string {
+  return format(parseISO(date), "dd.MM.", { locale: de });
+}
+
+// Relative change to the previous campaign, e.g. "+12 %"
+function formatChange(current: number, previous: number | undefined): string | undefined {
+  if (!previous) return undefined;
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? "+" : ""}${change} % zur Vorkampagne`;
+}
+
+function KeyFigure({
+  title,
+  value,
+  detail,
+  icon: Icon,
+}: {
+  title: string;
+  value: string;
+  detail?: string;
+  icon: typeof Euro;
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReportView({ report }: { report: CampaignReport }) {
+  const previous = report.previousCampaigns[0];
+  // Oldest first, so the comparison chart reads left to right
+  const comparison: CampaignReportTotals[] = [...report.previousCampaigns].reverse().concat(report);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <KeyFigure
+          title="Bestellungen"
+          value={String(report.orderCount)}
+          detail={
+            formatChange(report.orderCount, previous?.orderCount) ??
+            `${report.itemCount} Artikel, ${report.cancelledCount} storniert`
+          }
+          icon={ShoppingCart}
+        />
+        <KeyFigure
+          title="Umsatz"
+          value={formatPrice(report.revenue)}
+          detail={formatChange(report.revenue, previous?.revenue) ?? `Ø ${formatPrice(report.averageOrderValue)} je Bestellung`}
+          icon={Euro}
+        />
+        <KeyFigure
+          title="Umsatz aus Initialen"
+          value={formatPrice(report.initialsRevenue)}
+          detail={`Weitere Personalisierung: ${formatPrice(report.personalizationRevenue)}`}
+          icon={Type}
+        />
+        <KeyFigure
+          title="Offene Zahlungen"
+          value={formatPrice(report.openAmount)}
+          detail={`Bezahlt: ${formatPrice(report.paidAmount)}`}
+          icon={Wallet}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bestellungen pro Tag</CardTitle>
+          <CardDescription>Eingegangene Bestellungen seit Kampagnenstart</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={ordersPerDayConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={report.ordersPerDay}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(date) => formatDay(String(date))} />} />
+              <Bar dataKey="orders" fill="var(--color-orders)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Top-Produkte</CardTitle>
+          <CardDescription>Nach bestellter Stückzahl</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.topProducts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Noch keine Bestellungen.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produkt</TableHead>
+                  <TableHead className="text-right">Stück</TableHead>
+                  <TableHead className="text-right">Umsatz</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.topProducts.map((product) => (
+                  <TableRow key={product.productId} data-testid={`row-top-product-${product.productId}`}>
+                    <TableCell className="font-medium">{product.productName}</TableCell>
+                    <TableCell className="text-right">{product.quantity}</TableCell>
+                    <TableCell className="text-right">{formatPrice(product.revenue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {report.sizeDistribution.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">Größenverteilung</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {report.sizeDistribution.map((product) => (
+              <Card key={product.productId}>
+                <CardHeader>
+                  <CardTitle className="text-base">{product.productName}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={sizesConfig} className="h-48 w-full aspect-auto">
+                    <BarChart data={product.sizes}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="size" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="quantity" fill="var(--color-quantity)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vergleich mit früheren Kampagnen</CardTitle>
+          <CardDescription>Die letzten Kampagnen vor dieser, ohne stornierte Bestellungen</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {report.previousCampaigns.length > 0 && (
+            <ChartContainer config={comparisonConfig} className="h-56 w-full aspect-auto">
+              <BarChart data={comparison}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="campaignName" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={<ChartTooltipContent formatter={(value) => formatPrice(Number(value))} />}
+                />
+                <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kampagne</TableHead>
+                <TableHead>Start</TableHead>
+                <TableHead className="text-right">Bestellungen</TableHead>
+                <TableHead className="text-right">Artikel</TableHead>
+                <TableHead className="text-right">Umsatz</TableHead>
+                <TableHead className="text-right">Initialen</TableHead>
+                <TableHead className="text-right">Ø Bestellwert</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...comparison].reverse().map((totals) => (
+                <TableRow
+                  key={totals.campaignId}
+                  className={totals.campaignId === report.campaignId ? "font-medium" : undefined}
+                  data-testid={`row-comparison-${totals.campaignId}`}
+                >
+                  <TableCell>{totals.campaignName}</TableCell>
+                  <TableCell>{format(parseISO(totals.startDate), "dd.MM.yyyy", { locale: de })}</TableCell>
+                  <TableCell className="text-right">{totals.orderCount}</TableCell>
+                  <TableCell className="text-right">{totals.itemCount}</TableCell>
+                  <TableCell className="text-right">{formatPrice(totals.revenue)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(totals.initialsRevenue)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(totals.averageOrderValue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function ReportsPage() {
+  const [selectedCampaign, setSelectedCampaign] = useState<string>("");
+
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: report, isLoading } = useQuery<CampaignReport>({
+    queryKey: ["/api/campaigns", selectedCampaign, "report"],
+    enabled: !!selectedCampaign,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold">Auswertung</h1>
+            <p className="text-muted-foreground">
+              Bestellungen, Umsatz und Größen einer Kampagne im Überblick
+            </p>
+          </div>
+        </div>
+        <Select value={selectedCampaign} onValueChange={setSelectedCampaign}>
+          <SelectTrigger className="w-64" data-testid="select-campaign">
+            <SelectValue placeholder="Kampagne auswählen" />
+          </SelectTrigger>
+          <SelectContent>
+            {campaigns?.map((campaign) => (
+              <SelectItem key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!selectedCampaign ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Wähle eine Kampagne, um die Auswertung zu sehen.
+          </CardContent>
+        </Card>
+      ) : isLoading || !report ? (
+        <div className="space-y-4">
+          <Skeleton className="h-28 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : (
+        <ReportView report={report} />
+      )}
+    </div>
+  );
+}
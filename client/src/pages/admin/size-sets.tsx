@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Product, SizeSet } from "@shared/schema";
+import { DEFAULT_SIZE_SET_ID } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, Ruler, Loader2 } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface SizeSetFormState {
+  name: string;
+  sizes: string; // Comma separated, in display order
+}
+
+const emptyForm: SizeSetFormState = { name: "", sizes: "" };
+
+function parseSizes(value: string): string[] {
+  return value
+    .split(",")
+    .map((size) => size.trim())
+    .filter(Boolean);
+}
+
+export default function SizeSetsPage() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSizeSet, setEditingSizeSet] = useState<SizeSet | null>(null);
+  const [deleteSizeSet, setDeleteSizeSet] = useState<SizeSet | null>(null);
+  const [form, setForm] = useState<SizeSetFormState>(emptyForm);
+
+  const { data: sizeSets, isLoading } = useQuery<SizeSet[]>({
+    queryKey: ["/api/size-sets"],
+  });
+
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const productsBySizeSet = (sizeSetId: string) =>
+    products?.filter((product) => product.sizeSetId === sizeSetId) ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SizeSetFormState) => {
+      const body = { name: data.name, sizes: parseSizes(data.sizes) };
+      return editingSizeSet
+        ? apiRequest("PATCH", `/api/size-sets/${editingSizeSet.id}`, body)
+        : apiRequest("POST", "/api/size-sets", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/size-sets"] });
+      setIsDialogOpen(false);
+      toast({
+        title: editingSizeSet ? "Größensystem aktualisiert" : "Größensystem erstellt",
+        description: "Die Änderungen wurden gespeichert.",
+      });
+      setEditingSizeSet(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Das Größensystem konnte nicht gespeichert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/size-sets/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/size-sets"] });
+      setDeleteSizeSet(null);
+      toast({
+        title: "Größensystem gelöscht",
+        description: "Das Größensystem wurde gelöscht.",
+      });
+    },
+    onError: (error: Error) => {
+      setDeleteSizeSet(null);
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Das Größensystem konnte nicht gelöscht werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingSizeSet(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (sizeSet: SizeSet) => {
+    setEditingSizeSet(sizeSet);
+    setForm({ name: sizeSet.name, sizes: sizeSet.sizes.join(", ") });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(form);
+  };
+
+  const previewSizes = parseSizes(form.sizes);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Ruler className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold">Größensysteme</h1>
+            <p className="text-muted-foreground">
+              Größen für Bekleidung, Stutzen, Schuhe oder Einheitsgrößen festlegen
+            </p>
+          </div>
+        </div>
+        <Button onClick={openCreateDialog} data-testid="button-add-size-set">
+          <Plus className="h-4 w-4 mr-2" />
+          Neues Größensystem
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Größensysteme</CardTitle>
+            <CardDescription>
+              Jedes Produkt verwendet ein Größensystem und bietet daraus eine Auswahl an Größen an
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Größen</TableHead>
+                  <TableHead>Verwendet von</TableHead>
+                  <TableHead className="text-right">Aktionen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sizeSets?.map((sizeSet) => {
+                  const usedBy = productsBySizeSet(sizeSet.id);
+                  return (
+                    <TableRow key={sizeSet.id} data-testid={`row-size-set-${sizeSet.id}`}>
+                      <TableCell className="font-medium">
+                        {sizeSet.name}
+                        {sizeSet.id === DEFAULT_SIZE_SET_ID && (
+                          <Badge variant="secondary" className="ml-2">Standard</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {sizeSet.sizes.map((size) => (
+                            <Badge key={size} variant="outline">{size}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {usedBy.length > 0 ? usedBy.map((product) => product.name).join(", ") : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => openEditDialog(sizeSet)}
+                            data-testid={`button-edit-size-set-${sizeSet.id}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setDeleteSizeSet(sizeSet)}
+                            disabled={sizeSet.id === DEFAULT_SIZE_SET_ID || usedBy.length > 0}
+                            data-testid={`button-delete-size-set-${sizeSet.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSizeSet ? "Größensystem bearbeiten" : "Neues Größensystem"}</DialogTitle>
+            <DialogDescription>
+              Größen werden in der angegebenen Reihenfolge im Bestellformular und in Exporten angezeigt.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="z.B. Stutzen"
+                data-testid="input-size-set-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sizes">Größen (durch Komma getrennt)</Label>
+              <Input
+                id="sizes"
+                value={form.sizes}
+                onChange={(e) => setForm({ ...form, sizes: e.target.value })}
+                placeholder="z.B. 31-34, 35-38, 39-42, 43-46"
+                data-testid="input-size-set-sizes"
+              />
+              {previewSizes.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {previewSizes.map((size, index) => (
+                    <Badge key={`${size}-${index}`} variant="outline">{size}</Badge>
+                  ))}
+                </div>
+              )}
+              {editingSizeSet && (
+                <p className="text-xs text-muted-foreground">
+                  Größen, die ein Produkt noch anbietet, können nicht entfernt werden.
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Abbrechen
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending || !form.name.trim() || previewSizes.length === 0}
+                data-testid="button-save-size-set"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingSizeSet ? "Speichern" : "Anlegen"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteSizeSet} onOpenChange={() => setDeleteSizeSet(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Größensystem löschen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Das Größensystem "{deleteSizeSet?.name}" wird unwiderruflich gelöscht.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Abbrechen</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteSizeSet && deleteMutation.mutate(deleteSizeSet.id)}
+              data-testid="button-confirm-delete"
+            >
+              Löschen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
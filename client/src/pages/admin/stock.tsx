@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Product, Size, StockAdjustment, StockMovement } from "@shared/schema";
+import { STOCK_MOVEMENT_REASON_LABELS, getSizeStock, getOrderNumber, getProductVariant } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Boxes, PackagePlus, History, Loader2 } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ProductExportButtons, ProductImportDialog } from "@/components/product-import";
+import { format, parseISO } from "date-fns";
+import { de } from "date-fns/locale";
+
+type AdjustmentMode = StockAdjustment["mode"];
+
+const ADJUSTMENT_MODE_LABELS: Record<AdjustmentMode, string> = {
+  add: "Zu- oder Abgang buchen",
+  set: "Bestand zählen (setzen)",
+  untrack: "Bestand nicht mehr führen",
+};
+
+interface AdjustmentFormState {
+  size: Size;
+  variantId?: string;
+  mode: AdjustmentMode;
+  quantity: string;
+  note: string;
+}
+
+function StockCell({ product, size, variantId }: { product: Product; size: Size; variantId?: string }) {
+  const stock = getSizeStock(product, size, variantId);
+  if (stock === undefined) {
+    return <span className="text-muted-foreground">{size}: –</span>;
+  }
+  const variant = stock <= 0 ? "destructive" : stock <= 5 ? "secondary" : "outline";
+  return (
+    <Badge variant={variant} data-testid={`badge-stock-${product.id}-${variantId ? `${variantId}-` : ""}${size}`}>
+      {size}: {stock}
+    </Badge>
+  );
+}
+
+function MovementHistoryDialog({ product, onClose }: { product: Product | null; onClose: () => void }) {
+  const { data: movements, isLoading } = useQuery<StockMovement[]>({
+    queryKey: ["/api/products", product?.id, "stock-movements"],
+    enabled: !!product,
+  });
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Lagerbewegungen</DialogTitle>
+          <DialogDescription>{product?.name}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : !movements?.length ? (
+          <p className="py-8 text-center text-muted-foreground">Noch keine Lagerbewegungen</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Datum</TableHead>
+                  <TableHead>Größe</TableHead>
+                  {!!product?.variants.length && <TableHead>Variante</TableHead>}
+                  <TableHead className="text-right">Änderung</TableHead>
+                  <TableHead className="text-right">Bestand</TableHead>
+                  <TableHead>Grund</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(movement.createdAt), "dd.MM.yyyy HH:mm", { locale: de })}
+                    </TableCell>
+                    <TableCell>{movement.size}</TableCell>
+                    {!!product?.variants.length && (
+                      <TableCell>{getProductVariant(product, movement.variantId)?.name ?? "–"}</TableCell>
+                    )}
+                    <TableCell className={`text-right ${movement.change < 0 ? "text-destructive" : ""}`}>
+                      {movement.change > 0 ? `+${movement.change}` : movement.change}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                    <TableCell>{STOCK_MOVEMENT_REASON_LABELS[movement.reason]}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {movement.orderId && `Bestellung ${getOrderNumber({ id: movement.orderId })}`}
+                      {movement.note}
+                      {movement.createdBy && ` (${movement.createdBy})`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function StockPage() {
+  const { toast } = useToast();
+  const [adjustProduct, setAdjustProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [form, setForm] = useState<AdjustmentFormState>({ size: "M", mode: "add", quantity: "", note: "" });
+
+  const { data: products, isLoading } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: AdjustmentFormState }) => {
+      return apiRequest("POST", `/api/products/${id}/stock`, {
+        size: data.size,
+        variantId: data.variantId,
+        mode: data.mode,
+        quantity: data.mode === "untrack" ? 0 : Number(data.quantity),
+        note: data.note || undefined,
+      });
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products", id, "stock-movements"] });
+      setAdjustProduct(null);
+      toast({
+        title: "Bestand gebucht",
+        description: "Der Lagerbestand wurde aktualisiert.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Der Bestand konnte nicht gebucht werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const backorderMutation = useMutation({
+    mutationFn: async ({ id, allowBackorder }: { id: string; allowBackorder: boolean }) => {
+      return apiRequest("PATCH", `/api/products/${id}`, { allowBackorder });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Einstellung konnte nicht gespeichert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdjustDialog = (product: Product) => {
+    setAdjustProduct(product);
+    setForm({ size: product.availableSizes[0], variantId: product.variants[0]?.id, mode: "add", quantity: "", note: "" });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (adjustProduct) {
+      adjustMutation.mutate({ id: adjustProduct.id, data: form });
+    }
+  };
+
+  const quantityValid =
+    form.mode === "untrack" ||
+    (form.quantity !== "" && Number.isInteger(Number(form.quantity)) &&
+      (form.mode === "set" ? Number(form.quantity) >= 0 : Number(form.quantity) !== 0));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Boxes className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold">Lagerbestand</h1>
+            <p className="text-muted-foreground">
+              Restbestände je Größe und Variante führen; Bestellungen buchen den Bestand automatisch ab
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <ProductExportButtons />
+          <ProductImportDialog />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produkt</TableHead>
+                  <TableHead>Bestand je Größe</TableHead>
+                  <TableHead>Nachbestellung</TableHead>
+                  <TableHead className="text-right">Aktionen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products?.map((product) => (
+                  <TableRow key={product.id} data-testid={`row-stock-${product.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{product.name}</div>
+                      <div className="text-sm text-muted-foreground">{product.category}</div>
+                    </TableCell>
+                    <TableCell>
+                      {product.variants.length > 0 ? (
+                        <div className="space-y-2">
+                          {product.variants.map((variant) => (
+                            <div key={variant.id} className="flex flex-wrap items-center gap-2">
+                              <span className="w-20 text-sm text-muted-foreground">{variant.name}</span>
+                              {product.availableSizes.map((size) => (
+                                <StockCell key={size} product={product} size={size} variantId={variant.id} />
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {product.availableSizes.map((size) => (
+                            <StockCell key={size} product={product} size={size} />
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={product.allowBackorder}
+                        onCheckedChange={(checked) =>
+                          backorderMutation.mutate({ id: product.id, allowBackorder: checked })
+                        }
+                        disabled={backorderMutation.isPending}
+                        data-testid={`switch-backorder-${product.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openAdjustDialog(product)}
+                          data-testid={`button-adjust-${product.id}`}
+                        >
+                          <PackagePlus className="h-4 w-4 mr-2" />
+                          Buchen
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryProduct(product)}
+                          data-testid={`button-history-${product.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="px-4 py-3 text-xs text-muted-foreground">
+              Größen ohne Bestand (–) werden nicht geführt und sind unbegrenzt bestellbar. Mit
+              Nachbestellung werden Bestellungen über den Bestand hinaus angenommen, sonst abgelehnt.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!adjustProduct} onOpenChange={(open) => !open && setAdjustProduct(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bestand buchen</DialogTitle>
+            <DialogDescription>{adjustProduct?.name}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {!!adjustProduct?.variants.length && (
+                <div className="col-span-2 space-y-2">
+                  <Label>Variante</Label>
+                  <Select value={form.variantId} onValueChange={(value) => setForm({ ...form, variantId: value })}>
+                    <SelectTrigger data-testid="select-stock-variant">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {adjustProduct.variants.map((variant) => (
+                        <SelectItem key={variant.id} value={variant.id}>
+                          {variant.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Größe</Label>
+                <Select value={form.size} onValueChange={(value) => setForm({ ...form, size: value as Size })}>
+                  <SelectTrigger data-testid="select-stock-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {adjustProduct?.availableSizes.map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size} (aktuell {getSizeStock(adjustProduct, size, form.variantId) ?? "–"})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Art</Label>
+                <Select
+                  value={form.mode}
+                  onValueChange={(value) => setForm({ ...form, mode: value as AdjustmentMode })}
+                >
+                  <SelectTrigger data-testid="select-stock-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ADJUSTMENT_MODE_LABELS) as AdjustmentMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {ADJUSTMENT_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {form.mode !== "untrack" && (
+              <div className="space-y-2">
+                <Label htmlFor="quantity">{form.mode === "set" ? "Gezählter Bestand" : "Menge"}</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  step={1}
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  placeholder={form.mode === "set" ? "z.B. 12" : "z.B. 10 oder -2"}
+                  data-testid="input-stock-quantity"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="note">Notiz</Label>
+              <Input
+                id="note"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="z.B. Restposten Sammelbestellung Frühjahr"
+                data-testid="input-stock-note"
+              />
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setAdjustProduct(null)}>
+                Abbrechen
+              </Button>
+              <Button
+                type="submit"
+                disabled={adjustMutation.isPending || !quantityValid}
+                data-testid="button-save-stock"
+              >
+                {adjustMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Buchen
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <MovementHistoryDialog product={historyProduct} onClose={() => setHistoryProduct(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { PublicUser, UserRole, Team } from "@shared/schema";
+import { USER_ROLES, USER_ROLE_LABELS, TEAMS, TEAM_LABELS } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Pencil, Trash2, Users, Loader2 } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { de } from "date-fns/locale";
+
+interface UserFormState {
+  username: string;
+  displayName: string;
+  password: string;
+  role: UserRole;
+  teams: Team[];
+  active: boolean;
+}
+
+const emptyForm: UserFormState = {
+  username: "",
+  displayName: "",
+  password: "",
+  role: "viewer",
+  teams: [],
+  active: true,
+};
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [deleteUser, setDeleteUser] = useState<PublicUser | null>(null);
+  const [form, setForm] = useState<UserFormState>(emptyForm);
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: UserFormState) => {
+      return apiRequest("POST", "/api/users", {
+        ...data,
+        displayName: data.displayName || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Benutzer erstellt",
+        description: "Der Benutzer wurde erfolgreich angelegt.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Der Benutzer konnte nicht erstellt werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UserFormState }) => {
+      return apiRequest("PATCH", `/api/users/${id}`, {
+        displayName: data.displayName,
+        role: data.role,
+        teams: data.teams,
+        active: data.active,
+        password: data.password || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/check"] });
+      setIsDialogOpen(false);
+      setEditingUser(null);
+      toast({
+        title: "Benutzer aktualisiert",
+        description: "Die Änderungen wurden gespeichert.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Der Benutzer konnte nicht aktualisiert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setDeleteUser(null);
+      toast({
+        title: "Benutzer gelöscht",
+        description: "Der Benutzer wurde gelöscht.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Der Benutzer konnte nicht gelöscht werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingUser(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (user: PublicUser) => {
+    setEditingUser(user);
+    setForm({
+      username: user.username,
+      displayName: user.displayName || "",
+      password: "",
+      role: user.role,
+      teams: user.teams,
+      active: user.active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingUser) {
+      updateMutation.mutate({ id: editingUser.id, data: form });
+    } else {
+      createMutation.mutate(form);
+    }
+  };
+
+  const toggleTeam = (team: Team, checked: boolean) => {
+    setForm({
+      ...form,
+      teams: checked ? [...form.teams, team] : form.teams.filter((t) => t !== team),
+    });
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Benutzer</h1>
+          <p className="text-muted-foreground">
+            Zugänge zum Admin-Bereich und deren Rollen verwalten
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} data-testid="button-add-user">
+          <Plus className="h-4 w-4 mr-2" />
+          Neuer Benutzer
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Benutzerkonten</CardTitle>
+            <CardDescription>
+              Administratoren haben vollen Zugriff, alle anderen Rollen nur auf ihren Bereich
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Benutzername</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rolle</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Letzte Anmeldung</TableHead>
+                  <TableHead className="text-right">Aktionen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users?.map((user) => (
+                  <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                    <TableCell className="font-medium">{user.username}</TableCell>
+                    <TableCell>{user.displayName || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === "admin" ? "default" : "secondary"}>
+                        {USER_ROLE_LABELS[user.role]}
+                      </Badge>
+                      {user.role === "coach" && user.teams.length > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {user.teams.map((t) => TEAM_LABELS[t]).join(", ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {user.active ? (
+                        <Badge variant="outline">Aktiv</Badge>
+                      ) : (
+                        <Badge variant="secondary">Deaktiviert</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {user.lastLoginAt
+                        ? format(parseISO(user.lastLoginAt), "dd.MM.yyyy HH:mm", { locale: de })
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => openEditDialog(user)}
+                          data-testid={`button-edit-user-${user.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setDeleteUser(user)}
+                          disabled={user.id === currentUser?.id}
+                          data-testid={`button-delete-user-${user.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {users?.length === 0 && (
+              <div className="flex flex-col items-center py-12 text-muted-foreground">
+                <Users className="h-10 w-10 mb-2" />
+                Noch keine Benutzer angelegt
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingUser ? "Benutzer bearbeiten" : "Neuen Benutzer anlegen"}
+            </DialogTitle>
+            <DialogDescription>
+              {editingUser
+                ? "Passwort leer lassen, um es unverändert zu lassen."
+                : "Der Benutzer meldet sich mit Benutzername und Passwort an."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Benutzername</Label>
+              <Input
+                id="username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value.toLowerCase() })}
+                disabled={!!editingUser}
+                placeholder="z.B. jugendleiter"
+                data-testid="input-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="displayName">Name</Label>
+              <Input
+                id="displayName"
+                value={form.displayName}
+                onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+                placeholder="z.B. Max Mustermann"
+                data-testid="input-display-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">{editingUser ? "Neues Passwort" : "Passwort"}</Label>
+              <Input
+                id="password"
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                placeholder="Mindestens 8 Zeichen"
+                data-testid="input-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Rolle</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm({ ...form, role: value as UserRole })}
+              >
+                <SelectTrigger data-testid="select-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {USER_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.role === "coach" && (
+              <div className="space-y-2">
+                <Label>Mannschaften</Label>
+                <p className="text-xs text-muted-foreground">
+                  Trainer dürfen nur Trainingstermine dieser Mannschaften anlegen und bearbeiten
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {TEAMS.map((team) => (
+                    <label key={team} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.teams.includes(team)}
+                        onCheckedChange={(checked) => toggleTeam(team, checked === true)}
+                        data-testid={`checkbox-team-${team}`}
+                      />
+                      {TEAM_LABELS[team]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="active">Konto aktiv</Label>
+              <Switch
+                id="active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+                data-testid="switch-active"
+              />
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+                data-testid="button-cancel"
+              >
+                Abbrechen
+              </Button>
+              <Button
+                type="submit"
+                disabled={isPending || !form.username || (!editingUser && !form.password)}
+                data-testid="button-save-user"
+              >
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingUser ? "Speichern" : "Anlegen"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteUser} onOpenChange={() => setDeleteUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Benutzer löschen?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Der Benutzer "{deleteUser?.username}" wird unwiderruflich gelöscht.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Abbrechen</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteUser && deleteMutation.mutate(deleteUser.id)}
+              data-testid="button-confirm-delete"
+            >
+              Löschen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
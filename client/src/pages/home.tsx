@@ -1,20 +1,52 @@
-import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
-import type { Campaign } from "@shared/schema";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import type { PublicCampaign } from "@shared/schema";
+import { TEAM_LABELS } from "@shared/schema";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Package, Calendar, ArrowRight, Lock } from "lucide-react";
+import { Package, Calendar, ArrowRight, Lock, KeyRound, Loader2 } from "lucide-react";
 import { format, parseISO, isPast, isFuture, isWithinInterval } from "date-fns";
 import { de } from "date-fns/locale";
 
 export default function HomePage() {
-  const { data: campaigns, isLoading } = useQuery<Campaign[]>({
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [accessCode, setAccessCode] = useState("");
+
+  const { data: campaigns, isLoading } = useQuery<PublicCampaign[]>({
     queryKey: ["/api/campaigns/active"],
   });
 
-  const getCampaignStatus = (campaign: Campaign) => {
+  // Campaigns with an access code are not listed; the code leads to their order form
+  const accessMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/campaigns/access", { code });
+      return (await response.json()) as PublicCampaign;
+    },
+    onSuccess: (campaign, code) => {
+      setLocation(`/order/${campaign.id}?code=${encodeURIComponent(code.trim())}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Zugangscode ungültig",
+        description: getApiErrorMessage(error, "Der Zugangscode konnte nicht geprüft werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAccessSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    accessMutation.mutate(accessCode);
+  };
+
+  const getCampaignStatus = (campaign: PublicCampaign) => {
     const now = new Date();
     const start = parseISO(campaign.startDate);
     const end = parseISO(campaign.endDate);
@@ -95,7 +127,10 @@ export default function HomePage() {
                           bis {format(parseISO(campaign.endDate), "dd. MMMM yyyy", { locale: de })}
                         </CardDescription>
                       </div>
-                      <Badge variant={status.variant}>{status.label}</Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                        {campaign.team && <Badge variant="outline">{TEAM_LABELS[campaign.team]}</Badge>}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -125,6 +160,37 @@ export default function HomePage() {
           </Card>
         )}
 
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <KeyRound className="h-5 w-5" />
+              Zugangscode
+            </CardTitle>
+            <CardDescription>
+              Sammelbestellungen für einzelne Mannschaften erreichst du mit dem Code von deinem Trainer.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAccessSubmit} className="flex gap-2">
+              <Input
+                value={accessCode}
+                onChange={(e) => setAccessCode(e.target.value)}
+                placeholder="Zugangscode"
+                autoComplete="off"
+                data-testid="input-access-code"
+              />
+              <Button
+                type="submit"
+                disabled={accessMutation.isPending || !accessCode.trim()}
+                data-testid="button-access-code"
+              >
+                {accessMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Öffnen
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
         <div className="mt-12 pt-8 border-t">
           <div className="flex items-center justify-center gap-2 text-muted-foreground">
             <Lock className="h-4 w-4" />
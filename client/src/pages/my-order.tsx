@@ -0,0 +1,655 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import type { OrderItem, OwnOrderView, PaymentCheckout, PersonalizationField, Product, Size, Team } from "@shared/schema";
+import {
+  ONLINE_PAYMENT_STATE_LABELS,
+  PAYMENT_STATUS_LABELS,
+  TEAMS,
+  TEAM_LABELS,
+  formatOrderItemName,
+  formatPrice,
+  formatIban,
+  formatPaymentReference,
+  getOpenAmount,
+  getPaymentStatus,
+  formatPersonalization,
+  getOrderNumber,
+  isOrderPaymentStarted,
+  getPersonalizationPrice,
+  getProductVariant,
+  getUnitPrice,
+} from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { OrderStatusBadge } from "@/components/order-status-badge";
+import { StockHint } from "@/components/stock-hint";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Package, Minus, Plus, Trash2, Loader2, AlertCircle, Home, Lock, Pencil, CreditCard } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { de } from "date-fns/locale";
+
+function calculateItemTotal(item: OrderItem): number {
+  return (item.unitPrice + (item.withInitials ? item.initialsPrice : 0) + (item.personalizationPrice ?? 0)) * item.quantity;
+}
+
+export default function MyOrderPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+
+  const { data: view, isLoading, error } = useQuery<OwnOrderView>({
+    queryKey: ["/api/my-order", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (view && !isEditing) {
+      setItems(view.order.items);
+    }
+  }, [view, isEditing]);
+
+  // Back from the payment provider: the webhook may arrive shortly after the redirect
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const payment = params.get("payment");
+    if (!payment) return;
+    if (payment === "success") {
+      toast({
+        title: "Zahlung abgeschlossen",
+        description: "Vielen Dank! Der Zahlungseingang wird gleich hier angezeigt.",
+      });
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: ["/api/my-order", token] }), 3000);
+    } else {
+      toast({
+        title: "Zahlung nicht abgeschlossen",
+        description: "Du kannst die Online-Zahlung jederzeit erneut starten oder bei Abholung bezahlen.",
+        variant: "destructive",
+      });
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [token, toast]);
+
+  const productsById = new Map<string, Product>((view?.products ?? []).map((p) => [p.id, p]));
+
+  const updateMutation = useMutation({
+    mutationFn: async (updatedItems: OrderItem[]) => {
+      const response = await apiRequest("PUT", `/api/my-order/${token}`, { items: updatedItems });
+      return (await response.json()) as OwnOrderView;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/my-order", token], updated);
+      setIsEditing(false);
+      toast({
+        title: "Bestellung geändert",
+        description: "Deine Änderungen wurden gespeichert.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Bestellung konnte nicht geändert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/my-order/${token}/cancel`);
+      return (await response.json()) as OwnOrderView;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/my-order", token], updated);
+      setIsCancelOpen(false);
+      setIsEditing(false);
+      toast({
+        title: "Bestellung storniert",
+        description: "Deine Bestellung wurde storniert.",
+      });
+    },
+    onError: (error: Error) => {
+      setIsCancelOpen(false);
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Bestellung konnte nicht storniert werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/my-order/${token}/payment`);
+      return (await response.json()) as PaymentCheckout;
+    },
+    onSuccess: ({ checkoutUrl }) => {
+      window.location.href = checkoutUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: getApiErrorMessage(error, "Die Online-Zahlung konnte nicht gestartet werden."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateItem = (index: number, changes: Partial<OrderItem>) => {
+    setItems((current) =>
+      current.map((item, i) => {
+        if (i !== index) return item;
+        const updated = { ...item, ...changes };
+        return { ...updated, totalPrice: calculateItemTotal(updated) };
+      })
+    );
+  };
+
+  // Size and variant determine the unit price; the server recalculates it on save
+  const updateSelection = (index: number, product: Product, changes: Pick<Partial<OrderItem>, "size" | "variantId">) => {
+    const item = items[index];
+    const size = changes.size ?? item.size;
+    const variant = getProductVariant(product, "variantId" in changes ? changes.variantId : item.variantId);
+    updateItem(index, {
+      size,
+      variantId: variant?.id,
+      variantName: variant?.name,
+      unitPrice: getUnitPrice(product, size, variant?.id),
+    });
+  };
+
+  const updatePersonalization = (index: number, product: Product, field: PersonalizationField, value: string) => {
+    const others = (items[index].personalization ?? []).filter((v) => v.fieldId !== field.id);
+    const personalization = value ? [...others, { fieldId: field.id, label: field.label, value }] : others;
+    updateItem(index, { personalization, personalizationPrice: getPersonalizationPrice(product, personalization) });
+  };
+
+  const removeItem = (index: number) => {
+    setItems((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const missingInitials = items.some((item) => item.withInitials && !item.initialsText?.trim());
+    if (missingInitials) {
+      toast({
+        title: "Fehler",
+        description: "Bitte gib für alle Artikel mit Beflockung einen Text ein.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const missingField = items.some((item) =>
+      productsById.get(item.productId)?.personalizationFields.some(
+        (field) => field.required && !item.personalization?.some((v) => v.fieldId === field.id && v.value.trim())
+      )
+    );
+    if (missingField) {
+      toast({
+        title: "Fehler",
+        description: "Bitte fülle alle Pflichtfelder der Personalisierung aus.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateMutation.mutate(items);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background p-4 md:p-8">
+        <div className="max-w-3xl mx-auto space-y-4">
+          <Skeleton className="h-10 w-2/3" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="flex flex-col items-center py-12">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mb-4" />
+            <h2 className="text-lg font-medium mb-2">Bestellung nicht gefunden</h2>
+            <p className="text-muted-foreground text-center mb-6">
+              Bitte prüfe den Link aus deiner Bestellbestätigung.
+            </p>
+            <Link href="/">
+              <Button variant="outline">
+                <Home className="h-4 w-4 mr-2" />
+                Zur Startseite
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { order, editable, deadline } = view;
+  const displayedItems = isEditing ? items : order.items;
+  const displayedTotal = displayedItems.reduce((sum, item) => sum + calculateItemTotal(item), 0);
+
+  // Stock checks count all lines of the same product, variant and size; the pieces
+  // of the saved order are already booked and therefore available to this order
+  const sumQuantity = (list: OrderItem[], { productId, size, variantId }: OrderItem) =>
+    list
+      .filter((other) => other.productId === productId && other.size === size && other.variantId === variantId)
+      .reduce((sum, other) => sum + other.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-primary text-primary-foreground py-10 px-4">
+        <div className="max-w-3xl mx-auto">
+          <div className="flex items-center gap-3 mb-2">
+            <Package className="h-6 w-6" />
+            <span className="text-primary-foreground/80">TSV Bestellportal</span>
+          </div>
+          <h1 className="text-2xl md:text-3xl font-bold">Meine Bestellung</h1>
+          <p className="text-primary-foreground/80 mt-1">
+            {order.campaignName} · Bestellnummer {getOrderNumber(order)}
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        {editable && deadline ? (
+          <Alert>
+            <Pencil className="h-4 w-4" />
+            <AlertDescription>
+              Du kannst deine Bestellung bis {format(parseISO(deadline), "dd. MMMM yyyy, HH:mm 'Uhr'", { locale: de })}{" "}
+              ändern oder stornieren.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              {order.status === "cancelled"
+                ? "Diese Bestellung wurde storniert."
+                : isOrderPaymentStarted(order)
+                ? "Diese Bestellung ist bereits bezahlt oder die Zahlung läuft noch. Bitte wende dich für Änderungen an den Verein."
+                : "Der Bestellschluss ist erreicht oder die Bestellung ist bereits in Bearbeitung. Änderungen sind nicht mehr möglich."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle>
+                  {order.firstName} {order.lastName}
+                </CardTitle>
+                <CardDescription>
+                  {order.email} · bestellt am{" "}
+                  {format(parseISO(order.createdAt), "dd.MM.yyyy HH:mm", { locale: de })}
+                </CardDescription>
+              </div>
+              <OrderStatusBadge status={order.status} />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {displayedItems.map((item, index) => {
+              const product = productsById.get(item.productId);
+              return (
+                <div
+                  key={`${item.productId}-${index}`}
+                  className="flex flex-col gap-3 rounded-md border p-4"
+                  data-testid={`order-item-${index}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{formatOrderItemName(item)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {item.category}
+                        {!isEditing && item.wearerName && ` · für ${item.wearerName}`}
+                        {!isEditing && item.team && ` (${TEAM_LABELS[item.team]})`}
+                      </p>
+                    </div>
+                    <p className="font-semibold whitespace-nowrap">
+                      {calculateItemTotal(item).toFixed(2).replace(".", ",")} €
+                    </p>
+                  </div>
+
+                  {isEditing && product ? (
+                    <div className="grid gap-3 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label>Größe</Label>
+                        <Select
+                          value={item.size}
+                          onValueChange={(value) => updateSelection(index, product, { size: value as Size })}
+                        >
+                          <SelectTrigger data-testid={`select-size-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {product.availableSizes.map((size) => (
+                              <SelectItem key={size} value={size}>
+                                {size}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {product.variants.length > 0 && (
+                        <div className="space-y-2">
+                          <Label>Variante</Label>
+                          <Select
+                            value={item.variantId ?? ""}
+                            onValueChange={(value) => updateSelection(index, product, { variantId: value })}
+                          >
+                            <SelectTrigger data-testid={`select-variant-${index}`}>
+                              <SelectValue placeholder="Variante wählen" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {product.variants.map((variant) => (
+                                <SelectItem key={variant.id} value={variant.id}>
+                                  {variant.name}
+                                  {variant.surcharge > 0 && ` (+${variant.surcharge.toFixed(2).replace(".", ",")} €)`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label>Anzahl</Label>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => updateItem(index, { quantity: Math.max(1, item.quantity - 1) })}
+                            disabled={item.quantity <= 1}
+                            data-testid={`button-decrease-${index}`}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <span className="w-8 text-center">{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => updateItem(index, { quantity: item.quantity + 1 })}
+                            data-testid={`button-increase-${index}`}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="flex items-end justify-end">
+                        <Button
+                          variant="ghost"
+                          onClick={() => removeItem(index)}
+                          disabled={items.length <= 1}
+                          data-testid={`button-remove-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Entfernen
+                        </Button>
+                      </div>
+                      <div className="space-y-2 md:col-span-2">
+                        <Label htmlFor={`wearer-${index}`}>Für (optional)</Label>
+                        <Input
+                          id={`wearer-${index}`}
+                          value={item.wearerName ?? ""}
+                          onChange={(e) => updateItem(index, { wearerName: e.target.value || undefined })}
+                          placeholder={`${order.firstName} ${order.lastName}`}
+                          maxLength={100}
+                          data-testid={`input-wearer-${index}`}
+                        />
+                      </div>
+                      {!view.campaign?.team && (
+                        <div className="space-y-2">
+                          <Label>Mannschaft</Label>
+                          <Select
+                            value={item.team ?? "order"}
+                            onValueChange={(value) =>
+                              updateItem(index, { team: value === "order" ? undefined : (value as Team) })
+                            }
+                          >
+                            <SelectTrigger data-testid={`select-item-team-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="order">
+                                {order.team ? `Wie Bestellung (${TEAM_LABELS[order.team]})` : "Keine Angabe"}
+                              </SelectItem>
+                              {TEAMS.map((team) => (
+                                <SelectItem key={team} value={team}>
+                                  {TEAM_LABELS[team]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      <StockHint
+                        className="md:col-span-3"
+                        product={product}
+                        size={item.size}
+                        variantId={item.variantId}
+                        quantity={sumQuantity(items, item)}
+                        reserved={sumQuantity(order.items, item)}
+                      />
+                      {product.personalizationFields.map((field) => {
+                        const value = item.personalization?.find((v) => v.fieldId === field.id)?.value ?? "";
+                        const label = `${field.label}${field.required ? " *" : ""}${
+                          field.surcharge > 0 ? ` (+${field.surcharge.toFixed(2).replace(".", ",")} €)` : ""
+                        }`;
+                        return (
+                          <div key={field.id} className="space-y-2">
+                            <Label htmlFor={`personalization-${index}-${field.id}`}>{label}</Label>
+                            {field.type === "select" ? (
+                              <Select
+                                value={value}
+                                onValueChange={(selected) => updatePersonalization(index, product, field, selected)}
+                              >
+                                <SelectTrigger
+                                  id={`personalization-${index}-${field.id}`}
+                                  data-testid={`select-personalization-${index}-${field.id}`}
+                                >
+                                  <SelectValue placeholder="Bitte wählen" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {field.options?.map((option) => (
+                                    <SelectItem key={option} value={option}>
+                                      {option}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Input
+                                id={`personalization-${index}-${field.id}`}
+                                type={field.type === "number" ? "number" : "text"}
+                                min={field.min}
+                                max={field.max}
+                                maxLength={field.maxLength}
+                                value={value}
+                                onChange={(e) => updatePersonalization(index, product, field, e.target.value)}
+                                data-testid={`input-personalization-${index}-${field.id}`}
+                              />
+                            )}
+                          </div>
+                        );
+                      })}
+                      {product.initialsEnabled && (
+                        <div className="md:col-span-3 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id={`initials-${index}`}
+                              checked={item.withInitials}
+                              onCheckedChange={(checked) =>
+                                updateItem(index, {
+                                  withInitials: checked === true,
+                                  initialsText: checked === true ? item.initialsText : undefined,
+                                })
+                              }
+                              data-testid={`checkbox-initials-${index}`}
+                            />
+                            <Label htmlFor={`initials-${index}`}>
+                              Mit {product.initialsLabel} (+{product.initialsPrice.toFixed(2)}€)
+                            </Label>
+                          </div>
+                          {item.withInitials && (
+                            <Input
+                              value={item.initialsText ?? ""}
+                              onChange={(e) => updateItem(index, { initialsText: e.target.value })}
+                              placeholder={product.initialsLabel}
+                              data-testid={`input-initials-${index}`}
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                      <span>Größe: {item.size}</span>
+                      <span>Anzahl: {item.quantity}</span>
+                      {item.withInitials && <span>Beflockung: {item.initialsText}</span>}
+                      {!!item.personalization?.length && <span>{formatPersonalization(item.personalization)}</span>}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+          <CardFooter className="flex flex-col items-stretch gap-4">
+            <div className="flex items-center justify-between text-lg font-semibold">
+              <span>Gesamtbetrag</span>
+              <span data-testid="text-total">{displayedTotal.toFixed(2).replace(".", ",")} €</span>
+            </div>
+            {!isEditing && order.status !== "cancelled" && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm" data-testid="text-payment">
+                <span className="text-muted-foreground">
+                  {PAYMENT_STATUS_LABELS[getPaymentStatus(order)]}
+                  {order.paidAmount > 0 && ` · bezahlt ${formatPrice(order.paidAmount)}`}
+                  {getOpenAmount(order) > 0 && ` · offen ${formatPrice(getOpenAmount(order))}`}
+                  {order.paymentState &&
+                    order.paymentState !== "paid" &&
+                    ` · ${ONLINE_PAYMENT_STATE_LABELS[order.paymentState]}`}
+                </span>
+                {view.onlinePaymentAvailable && (
+                  <Button
+                    variant="outline"
+                    onClick={() => paymentMutation.mutate()}
+                    disabled={paymentMutation.isPending}
+                    data-testid="button-pay-online"
+                  >
+                    {paymentMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <CreditCard className="h-4 w-4 mr-2" />
+                    )}
+                    Jetzt online bezahlen
+                  </Button>
+                )}
+              </div>
+            )}
+            {!isEditing && view.transfer && (
+              <div
+                className="flex flex-col gap-4 rounded-md border p-4 text-sm sm:flex-row sm:items-center sm:justify-between"
+                data-testid="section-transfer"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium">Bezahlung per Überweisung</p>
+                  <p>Kontoinhaber: {view.transfer.accountHolder}</p>
+                  <p>IBAN: <span className="font-mono">{formatIban(view.transfer.iban)}</span></p>
+                  <p>Betrag: {formatPrice(view.transfer.amount)}</p>
+                  <p>
+                    Verwendungszweck:{" "}
+                    <span className="font-mono" data-testid="text-payment-reference">
+                      {formatPaymentReference(view.transfer.reference)}
+                    </span>
+                  </p>
+                  <p className="text-muted-foreground">
+                    Bitte den Verwendungszweck genau so angeben, damit wir die Zahlung zuordnen können.
+                  </p>
+                </div>
+                {/* The amount in the query keeps the browser from showing a cached code */}
+                <img
+                  src={`/api/my-order/${token}/girocode.png?amount=${view.transfer.amount}`}
+                  alt="GiroCode für die Überweisung"
+                  className="h-36 w-36 self-center"
+                  data-testid="img-girocode"
+                />
+              </div>
+            )}
+            {editable && (
+              <div className="flex flex-wrap justify-end gap-2">
+                {isEditing ? (
+                  <>
+                    <Button variant="outline" onClick={() => setIsEditing(false)} data-testid="button-discard">
+                      Verwerfen
+                    </Button>
+                    <Button onClick={handleSave} disabled={updateMutation.isPending} data-testid="button-save">
+                      {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Änderungen speichern
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={() => setIsCancelOpen(true)} data-testid="button-cancel-order">
+                      Bestellung stornieren
+                    </Button>
+                    <Button onClick={() => setIsEditing(true)} data-testid="button-edit">
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Bestellung ändern
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+
+      <AlertDialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Bestellung stornieren?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Die gesamte Bestellung wird storniert. Das kann nicht rückgängig gemacht werden.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cancelMutation.mutate()}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Stornieren
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Request } from "express";
+import { dbStorage } from "./dbStorage";
+import type { AuditAction, AuditEntityType } from "@shared/schema";
+
+interface AuditEvent {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Records an admin mutation. Failures are logged but never break the request
+// that triggered them - the change itself has already been saved.
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  const actor = req.currentUser;
+  try {
+    await dbStorage.createAuditEntry({
+      actorId: actor?.id ?? null,
+      actorName: actor ? actor.displayName || actor.username : "Öffentlich",
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+    });
+  } catch (error) {
+    console.error("Audit-Eintrag konnte nicht gespeichert werden:", error);
+  }
+}
@@ -0,0 +1,124 @@
+import type { Request, Response, NextFunction } from "express";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { dbStorage } from "./dbStorage";
+import { hasRole, insertUserSchema, type User, type PublicUser, type UserRole } from "@shared/schema";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: PublicUser;
+    }
+  }
+}
+
+// Stored format: <salt>.<hash> (both hex)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}.${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(".");
+  if (!salt || !hashHex) return false;
+  const storedHash = Buffer.from(hashHex, "hex");
+  const hash = await scryptAsync(password, salt, storedHash.length);
+  return hash.length === storedHash.length && timingSafeEqual(hash, storedHash);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Starts a fresh session for the user. A new session ID on every login
+// prevents session fixation.
+export function startSession(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.authenticatedAt = Date.now();
+      resolve();
+    });
+  });
+}
+
+// Sessions started before the last password change are logged out
+export function isSessionValid(req: Request, user: User): boolean {
+  if (!user.active) return false;
+  if (!user.passwordChangedAt) return true;
+  return (req.session.authenticatedAt ?? 0) >= new Date(user.passwordChangedAt).getTime();
+}
+
+// Loads the logged-in user on every request so role changes and
+// deactivations take effect immediately, not only after a new login
+async function loadCurrentUser(req: Request): Promise<PublicUser | undefined> {
+  if (!req.session.userId) return undefined;
+  const user = await dbStorage.getUser(req.session.userId);
+  if (!user || !isSessionValid(req, user)) return undefined;
+  return toPublicUser(user);
+}
+
+// Middleware: any logged-in admin area user (including viewers)
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await loadCurrentUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Nicht autorisiert" });
+    }
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Middleware: logged-in user with one of the given roles; "admin" always passes
+export function requireRole(...roles: UserRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await loadCurrentUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Nicht autorisiert" });
+      }
+      if (!hasRole(user.role, roles)) {
+        return res.status(403).json({ error: "Keine Berechtigung für diese Aktion" });
+      }
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const LEGACY_DEFAULT_PASSWORD = "12345";
+
+// Migration from the former shared admin password: create an "admin" account
+// when no user exists yet. ADMIN_INITIAL_PASSWORD takes precedence; the legacy
+// password is only taken over if it was changed from the default and is long
+// enough, otherwise no account is created.
+export async function initializeDefaultAdminUser(): Promise<void> {
+  const users = await dbStorage.getAllUsers();
+  if (users.length > 0) return;
+
+  const initialPassword = process.env.ADMIN_INITIAL_PASSWORD || (await dbStorage.getAdminPassword());
+  if (initialPassword === LEGACY_DEFAULT_PASSWORD || !insertUserSchema.shape.password.safeParse(initialPassword).success) {
+    console.error("Kein Admin-Benutzer angelegt: ADMIN_INITIAL_PASSWORD mit mindestens 8 Zeichen setzen");
+    return;
+  }
+
+  await dbStorage.createUser({
+    username: "admin",
+    password: await hashPassword(initialPassword),
+    displayName: "Administrator",
+    role: "admin",
+    teams: [],
+    active: true,
+  });
+  console.log('Admin-Benutzer "admin" angelegt');
+}
@@ -0,0 +1,307 @@
+import { XMLParser } from "fast-xml-parser";
+import {
+  getOpenAmount,
+  getOrderNumber,
+  getPaymentReference,
+  type BankTransaction,
+  type Order,
+  type ReconciliationMatch,
+  type ReconciliationMismatch,
+} from "@shared/schema";
+
+// The uploaded file is neither a readable CAMT.053 nor a CSV bank statement
+export class BankStatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BankStatementError";
+    Object.setPrototypeOf(this, BankStatementError.prototype);
+  }
+}
+
+export interface ParsedBankStatement {
+  transactions: BankTransaction[]; // Credits only
+  ignoredCount: number; // Debits and pending entries
+}
+
+// German bank exports are often Latin-1 encoded
+function decode(buffer: Buffer): string {
+  const text = buffer.toString("utf8");
+  return (text.includes("\uFFFD") ? buffer.toString("latin1") : text).replace(/^\uFEFF/, "");
+}
+
+// "1.234,56", "-12,50 €" or "1234.56"; the separator that comes last is the decimal one
+function parseAmount(value: string): number {
+  const cleaned = value.replace(/[^\d,.\-+]/g, "");
+  const decimalComma = cleaned.lastIndexOf(",") > cleaned.lastIndexOf(".");
+  const normalized = decimalComma ? cleaned.replace(/\./g, "").replace(",", ".") : cleaned.replace(/,/g, "");
+  return Number(normalized);
+}
+
+// "31.12.2025", "31.12.25" or "2025-12-31" to YYYY-MM-DD
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const german = value.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  if (!german) return undefined;
+  const year = german[3].length === 2 ? `20${german[3]}` : german[3];
+  return `${year}-${german[2].padStart(2, "0")}-${german[1].padStart(2, "0")}`;
+}
+
+// --- CAMT.053 ---
+
+// The parts of a CAMT.053 document read below, as the XML parser returns them:
+// elements with attributes (e.g. Amt with Ccy) become objects with "#text"
+type CamtText = string | { "#text"?: string };
+
+interface CamtParty {
+  Nm?: CamtText;
+  Pty?: { Nm?: CamtText };
+}
+
+interface CamtTransactionDetails {
+  Amt?: CamtText;
+  AmtDtls?: { TxAmt?: { Amt?: CamtText } };
+  RltdPties?: { Dbtr?: CamtParty };
+  RmtInf?: { Ustrd?: CamtText[]; Strd?: { CdtrRefInf?: { Ref?: CamtText } } };
+}
+
+interface CamtEntry {
+  Amt?: CamtText;
+  CdtDbtInd?: CamtText;
+  Sts?: string | { Cd?: CamtText; "#text"?: string }; // Code element since camt.053.001.08
+  BookgDt?: { Dt?: CamtText; DtTm?: CamtText };
+  ValDt?: { Dt?: CamtText };
+  AddtlNtryInf?: CamtText;
+  NtryDtls?: { TxDtls?: CamtTransactionDetails[] }[];
+}
+
+interface CamtDocument {
+  Document?: { BkToCstmrStmt?: { Stmt?: { Ntry?: CamtEntry[] }[] } };
+}
+
+function text(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return text((value as Record<string, unknown>)["#text"]);
+  return String(value);
+}
+
+function parseCamt(xml: string): ParsedBankStatement {
+  const parser = new XMLParser({
+    removeNSPrefix: true,
+    ignoreAttributes: false,
+    parseTagValue: false, // References must stay strings
+    isArray: (name) => ["Stmt", "Ntry", "NtryDtls", "TxDtls", "Ustrd"].includes(name),
+  });
+  const parsed: CamtDocument | undefined = parser.parse(xml);
+  const statements = parsed?.Document?.BkToCstmrStmt?.Stmt;
+  if (!statements) {
+    throw new BankStatementError("Die Datei ist kein CAMT.053-Kontoauszug");
+  }
+
+  const transactions: BankTransaction[] = [];
+  let ignoredCount = 0;
+  for (const entry of statements.flatMap((statement) => statement.Ntry ?? [])) {
+    const status = text(typeof entry.Sts === "object" ? entry.Sts.Cd ?? entry.Sts : entry.Sts);
+    if (text(entry.CdtDbtInd) !== "CRDT" || (status && status !== "BOOK")) {
+      ignoredCount++;
+      continue;
+    }
+    const date = parseDate(text(entry.BookgDt?.Dt ?? entry.BookgDt?.DtTm ?? entry.ValDt?.Dt));
+    const details = (entry.NtryDtls ?? []).flatMap((d) => d.TxDtls ?? []);
+    // Batch bookings carry one amount per transaction; single ones use the entry amount
+    const parts: CamtTransactionDetails[] = details.length > 0 ? details : [{}];
+    for (const detail of parts) {
+      const amount = parts.length > 1 ? text(detail.AmtDtls?.TxAmt?.Amt ?? detail.Amt) : text(entry.Amt);
+      const debtor = detail.RltdPties?.Dbtr;
+      transactions.push({
+        date,
+        amount: Number(amount),
+        name: text(debtor?.Nm ?? debtor?.Pty?.Nm) || undefined,
+        remittance: [
+          ...(detail.RmtInf?.Ustrd ?? []).map(text),
+          text(detail.RmtInf?.Strd?.CdtrRefInf?.Ref),
+          text(entry.AddtlNtryInf),
+        ]
+          .filter(Boolean)
+          .join(" "),
+      });
+    }
+  }
+  return { transactions, ignoredCount };
+}
+
+// --- CSV ---
+
+function parseCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Column names of common German bank exports (Sparkasse, Volksbank, DKB, ING, ...)
+const CSV_COLUMNS = {
+  amount: ["betrag", "betrag (eur)", "betrag (€)", "umsatz", "amount"],
+  remittance: ["verwendungszweck", "purpose", "remittance information", "reference"],
+  name: [
+    "beguenstigter/zahlungspflichtiger",
+    "begünstigter/zahlungspflichtiger",
+    "zahlungspflichtige*r",
+    "auftraggeber/empfänger",
+    "auftraggeber / begünstigter",
+    "name zahlungsbeteiligter",
+    "auftraggeber",
+    "name",
+    "payer",
+  ],
+  date: ["buchungstag", "buchungsdatum", "buchung", "datum", "booking date", "date", "valutadatum", "wertstellung"],
+};
+
+function findColumn(header: string[], names: string[]): number {
+  const normalized = header.map((column) => column.trim().toLowerCase());
+  for (const name of names) {
+    const index = normalized.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+function parseCsv(content: string): ParsedBankStatement {
+  const firstLines = content.split(/\r?\n/, 20).join("\n");
+  const delimiter = (firstLines.match(/;/g)?.length ?? 0) >= (firstLines.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const rows = parseCsvRows(content, delimiter);
+
+  // Some banks put account details above the header row
+  const headerIndex = rows.findIndex(
+    (row) => findColumn(row, CSV_COLUMNS.amount) !== -1 && findColumn(row, CSV_COLUMNS.remittance) !== -1
+  );
+  if (headerIndex === -1) {
+    throw new BankStatementError("Spalten für Betrag und Verwendungszweck wurden nicht gefunden");
+  }
+  const header = rows[headerIndex];
+  const columns = {
+    amount: findColumn(header, CSV_COLUMNS.amount),
+    remittance: findColumn(header, CSV_COLUMNS.remittance),
+    name: findColumn(header, CSV_COLUMNS.name),
+    date: findColumn(header, CSV_COLUMNS.date),
+  };
+
+  const transactions: BankTransaction[] = [];
+  let ignoredCount = 0;
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (row.every((cell) => !cell.trim())) continue;
+    const amount = parseAmount(row[columns.amount] ?? "");
+    if (!(amount > 0)) {
+      ignoredCount++;
+      continue;
+    }
+    transactions.push({
+      date: parseDate(row[columns.date]),
+      amount,
+      name: columns.name === -1 ? undefined : row[columns.name]?.trim() || undefined,
+      remittance: (row[columns.remittance] ?? "").trim(),
+    });
+  }
+  return { transactions, ignoredCount };
+}
+
+export function parseBankStatement(buffer: Buffer): ParsedBankStatement {
+  const content = decode(buffer);
+  return content.trimStart().startsWith("<") ? parseCamt(content) : parseCsv(content);
+}
+
+// --- Matching ---
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+function compact(value: string): string {
+  return value.replace(/\s/g, "").toUpperCase();
+}
+
+// The RF reference may be split by line breaks; the bare order number must stand alone
+function findOrder(transaction: BankTransaction, orders: Order[]): Order | undefined {
+  const remittance = compact(transaction.remittance);
+  const words = transaction.remittance.toUpperCase().split(/[^A-Z0-9]+/);
+  return (
+    orders.find((order) => remittance.includes(getPaymentReference(order))) ??
+    orders.find((order) => words.includes(getOrderNumber(order)))
+  );
+}
+
+export interface ReconciliationPlan {
+  matched: (ReconciliationMatch & { order: Order })[];
+  unmatched: ReconciliationMismatch[];
+}
+
+/**
+ * Assigns credits to orders by payment reference (or order number) and amount.
+ * Only a credit over exactly the open amount of a non-cancelled order counts as
+ * payment; everything else is listed for the treasurer to check by hand.
+ */
+export function matchBankTransactions(transactions: BankTransaction[], orders: Order[]): ReconciliationPlan {
+  const plan: ReconciliationPlan = { matched: [], unmatched: [] };
+  const settled = new Set<string>(); // Orders paid by an earlier line of the same statement
+
+  for (const transaction of transactions) {
+    const order = findOrder(transaction, orders);
+    if (!order) {
+      plan.unmatched.push({ ...transaction, reason: "Keine Bestellung zum Verwendungszweck gefunden" });
+      continue;
+    }
+    const mismatch = (reason: string) =>
+      plan.unmatched.push({ ...transaction, reason, orderId: order.id, orderNumber: getOrderNumber(order) });
+    const openAmount = getOpenAmount(order);
+    if (order.status === "cancelled") {
+      mismatch("Bestellung ist storniert");
+    } else if (settled.has(order.id) || openAmount <= 0) {
+      mismatch("Bestellung ist bereits bezahlt");
+    } else if (toCents(transaction.amount) !== toCents(openAmount)) {
+      mismatch(`Betrag weicht vom offenen Betrag ${openAmount.toFixed(2).replace(".", ",")} € ab`);
+    } else {
+      settled.add(order.id);
+      plan.matched.push({
+        ...transaction,
+        order,
+        orderId: order.id,
+        orderNumber: getOrderNumber(order),
+        customerName: `${order.firstName} ${order.lastName}`,
+        campaignName: order.campaignName,
+      });
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,125 @@
+import type { Campaign, CampaignReport, CampaignReportTotals, Order, Product } from "@shared/schema";
+import { getOpenAmount } from "@shared/schema";
+import { exportableOrders, sizeRank } from "./orderExport";
+
+const TOP_PRODUCTS_LIMIT = 10;
+const PREVIOUS_CAMPAIGNS_LIMIT = 5;
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// YYYY-MM-DD in server local time, so late evening orders count for their day
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function buildTotals(campaign: Campaign, campaignOrders: Order[]): CampaignReportTotals {
+  const orders = exportableOrders(campaignOrders);
+  const items = orders.flatMap((order) => order.items);
+  const revenue = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+  return {
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    startDate: campaign.startDate,
+    orderCount: orders.length,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    revenue: roundPrice(revenue),
+    initialsRevenue: roundPrice(
+      items.reduce((sum, item) => sum + (item.withInitials ? item.initialsPrice * item.quantity : 0), 0)
+    ),
+    personalizationRevenue: roundPrice(
+      items.reduce((sum, item) => sum + (item.personalizationPrice ?? 0) * item.quantity, 0)
+    ),
+    averageOrderValue: orders.length > 0 ? roundPrice(revenue / orders.length) : 0,
+  };
+}
+
+function buildOrdersPerDay(campaign: Campaign, orders: Order[], now: Date): CampaignReport["ordersPerDay"] {
+  const days = new Map<string, { orders: number; revenue: number }>();
+  for (const order of orders) {
+    const key = toDateKey(new Date(order.createdAt));
+    const day = days.get(key) ?? { orders: 0, revenue: 0 };
+    day.orders++;
+    day.revenue += order.totalAmount;
+    days.set(key, day);
+  }
+
+  // Runs until the end date, or today while the campaign is still open
+  const orderDays = Array.from(days.keys()).sort();
+  const today = toDateKey(now);
+  const first = [campaign.startDate.slice(0, 10), ...orderDays].sort()[0];
+  const last = [campaign.endDate.slice(0, 10) < today ? campaign.endDate.slice(0, 10) : today, ...orderDays].sort().pop()!;
+
+  const result: CampaignReport["ordersPerDay"] = [];
+  for (const date = new Date(`${first}T00:00:00`); toDateKey(date) <= last; date.setDate(date.getDate() + 1)) {
+    const key = toDateKey(date);
+    const day = days.get(key);
+    result.push({ date: key, orders: day?.orders ?? 0, revenue: roundPrice(day?.revenue ?? 0) });
+  }
+  return result;
+}
+
+/**
+ * Key figures of one campaign for the admin dashboard. The comparison covers
+ * the campaigns that started before it, most recent first.
+ */
+export function buildCampaignReport(
+  campaign: Campaign,
+  allCampaigns: Campaign[],
+  allOrders: Order[],
+  products: Product[],
+  now: Date = new Date(),
+): CampaignReport {
+  const campaignOrders = allOrders.filter((order) => order.campaignId === campaign.id);
+  const orders = exportableOrders(campaignOrders);
+  const productsById = new Map(products.map((p) => [p.id, p]));
+
+  const topProducts = new Map<string, CampaignReport["topProducts"][number]>();
+  const sizes = new Map<string, Map<string, number>>();
+  for (const item of orders.flatMap((order) => order.items)) {
+    const product = topProducts.get(item.productId) ?? {
+      productId: item.productId,
+      productName: productsById.get(item.productId)?.name ?? item.productName,
+      quantity: 0,
+      revenue: 0,
+    };
+    product.quantity += item.quantity;
+    product.revenue += item.totalPrice;
+    topProducts.set(item.productId, product);
+
+    const productSizes = sizes.get(item.productId) ?? new Map<string, number>();
+    productSizes.set(item.size, (productSizes.get(item.size) ?? 0) + item.quantity);
+    sizes.set(item.productId, productSizes);
+  }
+
+  const rankedProducts = Array.from(topProducts.values())
+    .map((product) => ({ ...product, revenue: roundPrice(product.revenue) }))
+    .sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue);
+
+  const previousCampaigns = allCampaigns
+    .filter((other) => other.id !== campaign.id && other.startDate < campaign.startDate)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))
+    .slice(0, PREVIOUS_CAMPAIGNS_LIMIT)
+    .map((other) => buildTotals(other, allOrders.filter((order) => order.campaignId === other.id)));
+
+  return {
+    ...buildTotals(campaign, campaignOrders),
+    cancelledCount: campaignOrders.length - orders.length,
+    paidAmount: roundPrice(orders.reduce((sum, order) => sum + order.paidAmount, 0)),
+    openAmount: roundPrice(orders.reduce((sum, order) => sum + getOpenAmount(order), 0)),
+    topProducts: rankedProducts.slice(0, TOP_PRODUCTS_LIMIT),
+    // Same product order as the ranking, sizes in the order of the size set
+    sizeDistribution: rankedProducts.map(({ productId, productName }) => ({
+      productId,
+      productName,
+      sizes: Array.from(sizes.get(productId)!.entries())
+        .map(([size, quantity]) => ({ size, quantity }))
+        .sort((a, b) => sizeRank(productsById.get(productId), a.size) - sizeRank(productsById.get(productId), b.size)),
+    })),
+    ordersPerDay: buildOrdersPerDay(campaign, orders, now),
+    previousCampaigns,
+  };
+}
@@ -0,0 +1,246 @@
+import {
+  formatOrderItemName,
+  formatPrice,
+  getCampaignDeadline,
+  getOpenAmount,
+  type Campaign,
+  type Order,
+} from "@shared/schema";
+import { dbStorage } from "./dbStorage";
+import { isEmailEnabled, renderLayout, sendMail } from "./email";
+import { escapeHtml } from "./emailTemplates";
+import { getMailSender } from "./mailTransport";
+import { exportableOrders } from "./orderExport";
+
+/*
+ * Background jobs for campaigns, checked every 15 minutes and on startup:
+ *
+ *   - sends the deadline reminder `reminderDaysBefore` days before the end date
+ *   - closes active campaigns after their end date and mails a summary to the admin
+ *
+ *   ADMIN_NOTIFICATION_EMAIL  recipient of the closing summary (default: MAIL_REPLY_TO)
+ *   PUBLIC_BASE_URL           base of the order form link in reminders
+ */
+
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface CampaignSummary {
+  orderCount: number;
+  itemCount: number;
+  totalAmount: number;
+  paidAmount: number;
+  openAmount: number;
+  products: { name: string; quantity: number; amount: number }[]; // By quantity, descending
+}
+
+// Start of the day the reminder is due; undefined when no reminder is configured
+export function getReminderDate(campaign: Pick<Campaign, "endDate" | "reminderDaysBefore">): Date | undefined {
+  if (!campaign.reminderDaysBefore) return undefined;
+  const date = new Date(`${campaign.endDate.slice(0, 10)}T00:00:00`);
+  date.setDate(date.getDate() - campaign.reminderDaysBefore);
+  return date;
+}
+
+export function isReminderDue(campaign: Campaign, now: Date): boolean {
+  const reminderDate = getReminderDate(campaign);
+  const start = new Date(`${campaign.startDate.slice(0, 10)}T00:00:00`);
+  return (
+    !!reminderDate &&
+    campaign.active &&
+    !campaign.reminderSentAt &&
+    now >= reminderDate &&
+    now >= start &&
+    now <= getCampaignDeadline(campaign)
+  );
+}
+
+export function isCampaignExpired(campaign: Campaign, now: Date): boolean {
+  return campaign.active && now > getCampaignDeadline(campaign);
+}
+
+// Unique addresses of the audience, without customers who already ordered in the campaign;
+// past customers of a team campaign are limited to that team's orders
+export function getReminderRecipients(campaign: Campaign, allOrders: Order[]): string[] {
+  const normalize = (email: string) => email.trim().toLowerCase();
+  const orders = exportableOrders(allOrders);
+  const alreadyOrdered = new Set(
+    orders.filter((order) => order.campaignId === campaign.id).map((order) => normalize(order.email))
+  );
+  const candidates =
+    campaign.reminderAudience === "mailing-list"
+      ? campaign.reminderEmails
+      : orders
+          .filter((order) => order.campaignId !== campaign.id && (!campaign.team || order.team === campaign.team))
+          .map((order) => order.email);
+  return Array.from(new Set(candidates.map(normalize))).filter((email) => email && !alreadyOrdered.has(email));
+}
+
+export function buildCampaignSummary(orders: Order[]): CampaignSummary {
+  const counted = exportableOrders(orders);
+  const products = new Map<string, { name: string; quantity: number; amount: number }>();
+  let itemCount = 0;
+
+  for (const item of counted.flatMap((order) => order.items)) {
+    const name = formatOrderItemName(item);
+    const entry = products.get(name) ?? { name, quantity: 0, amount: 0 };
+    entry.quantity += item.quantity;
+    entry.amount += item.totalPrice;
+    products.set(name, entry);
+    itemCount += item.quantity;
+  }
+
+  const totalAmount = counted.reduce((sum, order) => sum + order.totalAmount, 0);
+  const paidAmount = counted.reduce((sum, order) => sum + order.paidAmount, 0);
+  return {
+    orderCount: counted.length,
+    itemCount,
+    totalAmount,
+    paidAmount,
+    openAmount: counted.reduce((sum, order) => sum + getOpenAmount(order), 0),
+    products: Array.from(products.values()).sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name, "de")),
+  };
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString("de-DE");
+}
+
+// The access code only goes to a hand-picked mailing list or a team's own past
+// customers; any other past customer would receive a code meant to stay private
+function includesAccessCode(campaign: Campaign): boolean {
+  return (
+    campaign.visibility === "code" &&
+    !!campaign.accessCode &&
+    (campaign.reminderAudience === "mailing-list" || !!campaign.team)
+  );
+}
+
+function renderReminder(campaign: Campaign): { subject: string; html: string } {
+  const baseUrl = process.env.PUBLIC_BASE_URL?.replace(/\/$/, "");
+  const query = includesAccessCode(campaign) ? `?code=${encodeURIComponent(campaign.accessCode!)}` : "";
+  const link = baseUrl
+    ? `<p style="margin-top: 20px;"><a href="${baseUrl}/order/${campaign.id}${query}" style="color: #16a34a;">Jetzt bestellen</a></p>`
+    : "";
+  const content = `<p>Hallo,</p>
+
+<p>die Sammelbestellung <strong>${escapeHtml(campaign.name)}</strong> läuft nur noch bis
+<strong>${formatDate(campaign.endDate)}</strong>. Wer noch etwas bestellen möchte, sollte das bis dahin erledigen.</p>
+${link}
+<p style="margin-top: 30px;">
+  Mit sportlichen Grüßen,<br>
+  <strong>Ihr TSV Team</strong>
+</p>`;
+  return {
+    subject: `Erinnerung: Bestellschluss ${formatDate(campaign.endDate)} - ${campaign.name}`,
+    html: renderLayout("Erinnerung an den Bestellschluss", content),
+  };
+}
+
+function renderSummary(campaign: Campaign, summary: CampaignSummary): { subject: string; html: string } {
+  const cell = "padding: 8px; border-bottom: 1px solid #e5e5e5;";
+  const rows = summary.products
+    .map(
+      (product) => `
+      <tr>
+        <td style="${cell}">${escapeHtml(product.name)}</td>
+        <td style="${cell} text-align: right;">${product.quantity}</td>
+        <td style="${cell} text-align: right;">${formatPrice(product.amount)}</td>
+      </tr>`
+    )
+    .join("");
+  const content = `<p>Die Sammelbestellung <strong>${escapeHtml(campaign.name)}</strong> wurde nach dem Bestellschluss
+am ${formatDate(campaign.endDate)} automatisch geschlossen.</p>
+
+<div style="background: white; border-radius: 8px; padding: 20px; margin: 20px 0; border: 1px solid #e5e5e5;">
+  <p style="margin: 5px 0;"><strong>Bestellungen:</strong> ${summary.orderCount}</p>
+  <p style="margin: 5px 0;"><strong>Artikel:</strong> ${summary.itemCount}</p>
+  <p style="margin: 5px 0;"><strong>Umsatz:</strong> ${formatPrice(summary.totalAmount)}</p>
+  <p style="margin: 5px 0;"><strong>Bezahlt:</strong> ${formatPrice(summary.paidAmount)}</p>
+  <p style="margin: 5px 0;"><strong>Offen:</strong> ${formatPrice(summary.openAmount)}</p>
+</div>
+
+${summary.products.length > 0 ? `<table style="width: 100%; border-collapse: collapse; background: white; border: 1px solid #e5e5e5;">
+  <thead>
+    <tr style="background: #f3f4f6;">
+      <th style="padding: 12px 8px; text-align: left;">Produkt</th>
+      <th style="padding: 12px 8px; text-align: right;">Anzahl</th>
+      <th style="padding: 12px 8px; text-align: right;">Betrag</th>
+    </tr>
+  </thead>
+  <tbody>${rows}</tbody>
+</table>` : ""}
+
+<p style="margin-top: 20px;">Die Lieferantenbestellung kann jetzt im Admin-Bereich erstellt werden.</p>`;
+  return {
+    subject: `Bestellschluss: ${campaign.name} (${summary.orderCount} Bestellungen, ${formatPrice(summary.totalAmount)})`,
+    html: renderLayout("Kampagne geschlossen", content),
+  };
+}
+
+// Without a mail transport the reminder stays due; getMailTransport() already
+// logs once that email is disabled
+async function sendReminder(campaign: Campaign, allOrders: Order[]): Promise<void> {
+  if (!isEmailEnabled()) return;
+  const { subject, html } = renderReminder(campaign);
+  const recipients = getReminderRecipients(campaign, allOrders);
+  let sent = 0;
+  // One mail per recipient so addresses are not disclosed to each other
+  for (const to of recipients) {
+    const result = await sendMail({ to, subject, html });
+    if (result.success) sent++;
+  }
+  await dbStorage.setCampaignReminderSent(campaign.id, new Date());
+  console.log(`Erinnerung für "${campaign.name}" an ${sent} von ${recipients.length} Empfängern gesendet`);
+}
+
+async function closeExpiredCampaign(campaign: Campaign, allOrders: Order[]): Promise<void> {
+  const closed = await dbStorage.closeCampaign(campaign.id);
+  if (!closed) return;
+  console.log(`Kampagne "${campaign.name}" nach Bestellschluss geschlossen`);
+
+  const to = process.env.ADMIN_NOTIFICATION_EMAIL || getMailSender().replyTo;
+  if (!to) {
+    console.log("Keine Zusammenfassung gesendet: ADMIN_NOTIFICATION_EMAIL ist nicht gesetzt");
+    return;
+  }
+  const summary = buildCampaignSummary(allOrders.filter((order) => order.campaignId === campaign.id));
+  const { subject, html } = renderSummary(closed, summary);
+  await sendMail({ to, subject, html });
+}
+
+export async function runCampaignScheduler(now: Date = new Date()): Promise<void> {
+  const campaigns = await dbStorage.getActiveCampaigns();
+  if (campaigns.length === 0) return;
+  const orders = await dbStorage.getAllOrders();
+
+  for (const campaign of campaigns) {
+    try {
+      if (isCampaignExpired(campaign, now)) {
+        await closeExpiredCampaign(campaign, orders);
+      } else if (isReminderDue(campaign, now)) {
+        await sendReminder(campaign, orders);
+      }
+    } catch (error) {
+      console.error(`Zeitplan für Kampagne "${campaign.name}" fehlgeschlagen:`, error);
+    }
+  }
+}
+
+let isRunning = false;
+
+export function startCampaignScheduler(): void {
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runCampaignScheduler();
+    } catch (error) {
+      console.error("Kampagnen-Zeitplan fehlgeschlagen:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  void tick();
+  setInterval(tick, SCHEDULER_INTERVAL_MS).unref();
+}
@@ -1,4 +1,4 @@
-import { eq, and, between, sql, or, isNull } from "drizzle-orm";
+import { eq, and, between, sql, or, isNull, inArray, desc, asc, gte, lt, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   calendarEventsTable,
@@ -6,6 +6,17 @@ import {
   bfvImportConfigsTable,
   bfvImportHistoryTable,
   adminSettingsTable,
+  sizeSetsTable,
+  productsTable,
+  campaignsTable,
+  ordersTable,
+  orderItemsTable,
+  orderNotificationsTable,
+  stockMovementsTable,
+  paymentAttemptsTable,
+  invoicesTable,
+  usersTable,
+  auditLogTable,
   type CalendarEventDb,
   type InsertCalendarEventDb,
   type FieldMappingDb,
@@ -14,6 +25,55 @@ import {
   type InsertBfvImportConfigDb,
   type BfvImportHistoryDb,
   type InsertBfvImportHistoryDb,
+  type SizeSetDb,
+  type ProductDb,
+  type InsertProductDb,
+  type CampaignDb,
+  type OrderDb,
+  type OrderItemDb,
+  type InsertOrderItemDb,
+  type UserDb,
+  type User,
+  type InsertUser,
+  type UpdateUser,
+  type UserRole,
+  type AuditLogDb,
+  type InsertAuditLogDb,
+  type AuditLogEntry,
+  type AuditLogFilter,
+  type AuditAction,
+  type AuditEntityType,
+  type OrderStatus,
+  type EmailTemplateKey,
+  type UpdateEmailTemplate,
+  type BankAccount,
+  type OrderNotification,
+  type OrderNotificationDb,
+  type InvoiceDb,
+  type Invoice,
+  type InvoiceSnapshot,
+  type OrderNotificationType,
+  type InsertOrderNotificationDb,
+  type StockMovement,
+  type StockMovementDb,
+  type StockMovementReason,
+  type InsertStockMovementDb,
+  type StockAdjustment,
+  type PaymentMethod,
+  type UpdateOrderPayment,
+  type SizeSet,
+  type InsertSizeSet,
+  type Product,
+  type InsertProduct,
+  type Campaign,
+  type InsertCampaign,
+  type ReminderAudience,
+  type CampaignVisibility,
+  type PaymentProviderName,
+  type OnlinePaymentState,
+  type Order,
+  type InsertOrder,
+  type OrderItem,
   type CalendarEvent,
   type InsertCalendarEvent,
   type FieldMapping,
@@ -24,7 +84,17 @@ import {
   type Field,
   type EventType,
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { getStockKey, isOrderPaymentStarted, DEFAULT_SIZE_SET_ID, DEFAULT_SIZE_SET_NAME, DEFAULT_SIZES } from "@shared/schema";
+import { randomUUID, randomBytes } from "crypto";
+import { OrderLockedError, OrderValidationError } from "./orderValidation";
+import { ProductImportError, type ProductImportPlanRow } from "./productCatalog";
+import { PaymentAmountError } from "./paymentProvider";
+
+// Products written by a product import, for the audit log
+export interface AppliedProductImport {
+  created: Product[];
+  updated: { before: Product; after: Product }[];
+}
 
 export interface IDbStorage {
   getAllCalendarEvents(): Promise<CalendarEvent[]>;
@@ -42,6 +112,7 @@ export interface IDbStorage {
   archiveCalendarEvent(id: string): Promise<boolean>;
   getBfvEventIds(): Promise<string[]>;
   getAllFieldMappings(): Promise<FieldMapping[]>;
+  getFieldMapping(id: string): Promise<FieldMapping | undefined>;
   createFieldMapping(mapping: InsertFieldMapping): Promise<FieldMapping>;
   updateFieldMapping(id: string, mapping: Partial<InsertFieldMapping>): Promise<FieldMapping | undefined>;
   deleteFieldMapping(id: string): Promise<boolean>;
@@ -56,6 +127,60 @@ export interface IDbStorage {
   getAdminPassword(): Promise<string>;
   setAdminPassword(password: string): Promise<void>;
   initializeDefaultFieldMappings(): Promise<void>;
+  getAllSizeSets(): Promise<SizeSet[]>;
+  getSizeSet(id: string): Promise<SizeSet | undefined>;
+  createSizeSet(sizeSet: InsertSizeSet): Promise<SizeSet>;
+  updateSizeSet(id: string, sizeSet: Partial<InsertSizeSet>): Promise<SizeSet | undefined>;
+  deleteSizeSet(id: string): Promise<boolean>;
+  initializeDefaultSizeSet(): Promise<void>;
+  getAllProducts(): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  applyProductImport(plan: ProductImportPlanRow[]): Promise<AppliedProductImport>;
+  deleteProduct(id: string): Promise<boolean>;
+  adjustStock(productId: string, adjustment: StockAdjustment, createdBy?: string): Promise<Product | undefined>;
+  getStockMovements(productId: string): Promise<StockMovement[]>;
+  getAllCampaigns(): Promise<Campaign[]>;
+  getActiveCampaigns(): Promise<Campaign[]>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  updateCampaign(id: string, campaign: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+  deleteCampaign(id: string): Promise<boolean>;
+  setCampaignReminderSent(id: string, sentAt: Date | null): Promise<void>;
+  closeCampaign(id: string): Promise<Campaign | undefined>;
+  getAllOrders(): Promise<Order[]>;
+  getOrdersByCampaign(campaignId: string): Promise<Order[]>;
+  getOrder(id: string): Promise<Order | undefined>;
+  getOrderByAccessToken(token: string): Promise<Order | undefined>;
+  replaceOrderItems(id: string, items: OrderItem[]): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrderStatus(id: string, status: OrderStatus): Promise<Order | undefined>;
+  updateOrderPayment(id: string, payment: UpdateOrderPayment): Promise<Order | undefined>;
+  addOrderPayment(id: string, expectedPaidAmount: number, amount: number, method: PaymentMethod, paidAt?: string): Promise<Order | undefined>;
+  getOrderByPaymentReference(reference: string): Promise<Order | undefined>;
+  startOrderPayment(id: string, provider: PaymentProviderName, reference: string, amount: number): Promise<Order | undefined>;
+  completeOrderPayment(reference: string, reportedAmount?: number): Promise<Order | undefined>;
+  abortOrderPayment(reference: string, state: "failed" | "cancelled"): Promise<Order | undefined>;
+  getOrderNotifications(orderIds: string[]): Promise<OrderNotification[]>;
+  createOrderNotification(notification: InsertOrderNotificationDb): Promise<OrderNotification>;
+  getInvoiceByOrder(orderId: string): Promise<Invoice | undefined>;
+  createInvoice(orderId: string, snapshot: InvoiceSnapshot): Promise<Invoice>;
+  initializeSampleShopData(): Promise<void>;
+  getEmailTemplate(key: EmailTemplateKey): Promise<UpdateEmailTemplate | undefined>;
+  setEmailTemplate(key: EmailTemplateKey, template: UpdateEmailTemplate): Promise<void>;
+  deleteEmailTemplate(key: EmailTemplateKey): Promise<void>;
+  getBankAccount(): Promise<BankAccount | undefined>;
+  setBankAccount(account: BankAccount): Promise<void>;
+  getAllUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: UpdateUser): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+  recordUserLogin(id: string): Promise<void>;
+  createAuditEntry(entry: InsertAuditLogDb): Promise<AuditLogEntry>;
+  getAuditLog(filter: AuditLogFilter): Promise<AuditLogEntry[]>;
 }
 
 function dbEventToCalendarEvent(dbEvent: CalendarEventDb): CalendarEvent {
@@ -101,6 +226,344 @@ function dbBfvConfigToBfvConfig(dbConfig: BfvImportConfigDb): BfvImportConfig {
   };
 }
 
+function dbUserToUser(dbUser: UserDb): User {
+  return {
+    id: dbUser.id,
+    username: dbUser.username,
+    password: dbUser.passwordHash,
+    displayName: dbUser.displayName ?? undefined,
+    role: dbUser.role as UserRole,
+    teams: dbUser.teams as Team[],
+    active: dbUser.active,
+    lastLoginAt: dbUser.lastLoginAt?.toISOString(),
+    passwordChangedAt: dbUser.passwordChangedAt?.toISOString(),
+    createdAt: dbUser.createdAt.toISOString(),
+  };
+}
+
+function dbAuditToAuditEntry(dbEntry: AuditLogDb): AuditLogEntry {
+  return {
+    id: dbEntry.id,
+    actorId: dbEntry.actorId ?? undefined,
+    actorName: dbEntry.actorName,
+    action: dbEntry.action as AuditAction,
+    entityType: dbEntry.entityType as AuditEntityType,
+    entityId: dbEntry.entityId ?? undefined,
+    before: dbEntry.before ?? undefined,
+    after: dbEntry.after ?? undefined,
+    createdAt: dbEntry.createdAt.toISOString(),
+  };
+}
+
+function dbNotificationToNotification(dbNotification: OrderNotificationDb): OrderNotification {
+  return {
+    id: dbNotification.id,
+    orderId: dbNotification.orderId,
+    type: dbNotification.type as OrderNotificationType,
+    email: dbNotification.email,
+    success: dbNotification.success,
+    error: dbNotification.error ?? undefined,
+    sentAt: dbNotification.sentAt.toISOString(),
+  };
+}
+
+function dbInvoiceToInvoice(dbInvoice: InvoiceDb): Invoice {
+  return {
+    id: dbInvoice.id,
+    number: dbInvoice.number,
+    orderId: dbInvoice.orderId,
+    issuedAt: dbInvoice.issuedAt.toISOString(),
+    snapshot: dbInvoice.snapshot ?? null,
+  };
+}
+
+function dbStockMovementToStockMovement(dbMovement: StockMovementDb): StockMovement {
+  return {
+    id: dbMovement.id,
+    productId: dbMovement.productId,
+    size: dbMovement.size,
+    variantId: dbMovement.variantId ?? undefined,
+    change: dbMovement.change,
+    stockAfter: dbMovement.stockAfter,
+    reason: dbMovement.reason as StockMovementReason,
+    orderId: dbMovement.orderId ?? undefined,
+    note: dbMovement.note ?? undefined,
+    createdBy: dbMovement.createdBy ?? undefined,
+    createdAt: dbMovement.createdAt.toISOString(),
+  };
+}
+
+function dbSizeSetToSizeSet(dbSizeSet: SizeSetDb): SizeSet {
+  return {
+    id: dbSizeSet.id,
+    name: dbSizeSet.name,
+    sizes: dbSizeSet.sizes,
+  };
+}
+
+function dbProductToProduct(dbProduct: ProductDb): Product {
+  return {
+    id: dbProduct.id,
+    name: dbProduct.name,
+    category: dbProduct.category,
+    basePrice: Number(dbProduct.basePrice),
+    imageUrl: dbProduct.imageUrl,
+    additionalImages: dbProduct.additionalImages,
+    active: dbProduct.active,
+    shortDescription: dbProduct.shortDescription ?? undefined,
+    longDescription: dbProduct.longDescription ?? undefined,
+    brand: dbProduct.brand ?? undefined,
+    season: dbProduct.season ?? undefined,
+    sizeSetId: dbProduct.sizeSetId ?? DEFAULT_SIZE_SET_ID,
+    availableSizes: dbProduct.availableSizes,
+    variants: dbProduct.variants,
+    sizePrices: dbProduct.sizePrices,
+    initialsEnabled: dbProduct.initialsEnabled,
+    initialsPrice: Number(dbProduct.initialsPrice),
+    initialsLabel: dbProduct.initialsLabel,
+    personalizationFields: dbProduct.personalizationFields,
+    stock: dbProduct.stock,
+    allowBackorder: dbProduct.allowBackorder,
+  };
+}
+
+function productToDbValues(product: Partial<InsertProduct>): Partial<InsertProductDb> {
+  const values: Partial<InsertProductDb> = {};
+
+  if (product.name !== undefined) values.name = product.name;
+  if (product.category !== undefined) values.category = product.category;
+  if (product.basePrice !== undefined) values.basePrice = product.basePrice.toFixed(2);
+  if (product.imageUrl !== undefined) values.imageUrl = product.imageUrl;
+  if (product.additionalImages !== undefined) values.additionalImages = product.additionalImages;
+  if (product.active !== undefined) values.active = product.active;
+  if (product.shortDescription !== undefined) values.shortDescription = product.shortDescription || null;
+  if (product.longDescription !== undefined) values.longDescription = product.longDescription || null;
+  if (product.brand !== undefined) values.brand = product.brand || null;
+  if (product.season !== undefined) values.season = product.season || null;
+  if (product.sizeSetId !== undefined) values.sizeSetId = product.sizeSetId;
+  if (product.availableSizes !== undefined) values.availableSizes = product.availableSizes;
+  if (product.variants !== undefined) {
+    values.variants = product.variants.map((variant) => ({
+      id: variant.id || randomUUID(),
+      name: variant.name.trim(),
+      imageUrl: variant.imageUrl || undefined,
+      surcharge: variant.surcharge,
+    }));
+  }
+  if (product.sizePrices !== undefined) values.sizePrices = product.sizePrices;
+  if (product.initialsEnabled !== undefined) values.initialsEnabled = product.initialsEnabled;
+  if (product.initialsPrice !== undefined) values.initialsPrice = product.initialsPrice.toFixed(2);
+  if (product.initialsLabel !== undefined) values.initialsLabel = product.initialsLabel;
+  if (product.personalizationFields !== undefined) {
+    values.personalizationFields = product.personalizationFields.map((field) => ({
+      ...field,
+      id: field.id || randomUUID(),
+      options: field.type === "select" ? field.options : undefined,
+    }));
+  }
+  if (product.allowBackorder !== undefined) values.allowBackorder = product.allowBackorder;
+
+  return values;
+}
+
+function dbCampaignToCampaign(dbCampaign: CampaignDb): Campaign {
+  return {
+    id: dbCampaign.id,
+    name: dbCampaign.name,
+    description: dbCampaign.description,
+    startDate: dbCampaign.startDate,
+    endDate: dbCampaign.endDate,
+    active: dbCampaign.active,
+    productIds: dbCampaign.productIds,
+    reminderDaysBefore: dbCampaign.reminderDaysBefore ?? undefined,
+    reminderAudience: dbCampaign.reminderAudience as ReminderAudience,
+    reminderEmails: dbCampaign.reminderEmails,
+    reminderSentAt: dbCampaign.reminderSentAt?.toISOString(),
+    closedAt: dbCampaign.closedAt?.toISOString(),
+    visibility: dbCampaign.visibility as CampaignVisibility,
+    onlinePayment: dbCampaign.onlinePayment,
+    accessCode: dbCampaign.accessCode ?? undefined,
+    team: (dbCampaign.team as Team | null) ?? undefined,
+  };
+}
+
+function dbOrderItemToOrderItem(dbItem: OrderItemDb): OrderItem {
+  return {
+    productId: dbItem.productId,
+    productName: dbItem.productName,
+    category: dbItem.category,
+    size: dbItem.size,
+    variantId: dbItem.variantId ?? undefined,
+    variantName: dbItem.variantName ?? undefined,
+    quantity: dbItem.quantity,
+    withInitials: dbItem.withInitials,
+    initialsText: dbItem.initialsText ?? undefined,
+    personalization: dbItem.personalization,
+    unitPrice: Number(dbItem.unitPrice),
+    initialsPrice: Number(dbItem.initialsPrice),
+    personalizationPrice: Number(dbItem.personalizationPrice),
+    totalPrice: Number(dbItem.totalPrice),
+    wearerName: dbItem.wearerName ?? undefined,
+    team: (dbItem.team as Team | null) ?? undefined,
+  };
+}
+
+function dbOrderToOrder(dbOrder: OrderDb, items: OrderItemDb[]): Order {
+  return {
+    id: dbOrder.id,
+    campaignId: dbOrder.campaignId,
+    campaignName: dbOrder.campaignName,
+    email: dbOrder.email,
+    firstName: dbOrder.firstName,
+    lastName: dbOrder.lastName,
+    items: items
+      .sort((a, b) => a.position - b.position)
+      .map(dbOrderItemToOrderItem),
+    totalAmount: Number(dbOrder.totalAmount),
+    status: dbOrder.status as OrderStatus,
+    statusChangedAt: dbOrder.statusChangedAt?.toISOString(),
+    paidAmount: Number(dbOrder.paidAmount),
+    paymentMethod: (dbOrder.paymentMethod as PaymentMethod | null) ?? undefined,
+    paidAt: dbOrder.paidAt?.toISOString(),
+    paymentProvider: (dbOrder.paymentProvider as PaymentProviderName | null) ?? undefined,
+    paymentReference: dbOrder.paymentReference ?? undefined,
+    paymentState: (dbOrder.paymentState as OnlinePaymentState | null) ?? undefined,
+    accessToken: dbOrder.accessToken,
+    team: (dbOrder.team as Team | null) ?? undefined,
+    createdAt: dbOrder.createdAt.toISOString(),
+  };
+}
+
+function orderItemsToDbValues(orderId: string, items: OrderItem[]): (InsertOrderItemDb & { id: string })[] {
+  return items.map((item, index) => ({
+    id: randomUUID(),
+    orderId,
+    position: index,
+    productId: item.productId,
+    productName: item.productName,
+    category: item.category,
+    size: item.size,
+    variantId: item.variantId ?? null,
+    variantName: item.variantName ?? null,
+    quantity: item.quantity,
+    withInitials: item.withInitials,
+    initialsText: item.initialsText || null,
+    personalization: item.personalization ?? [],
+    unitPrice: item.unitPrice.toFixed(2),
+    initialsPrice: item.initialsPrice.toFixed(2),
+    personalizationPrice: (item.personalizationPrice ?? 0).toFixed(2),
+    totalPrice: item.totalPrice.toFixed(2),
+    wearerName: item.wearerName || null,
+    team: item.team ?? null,
+  }));
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Key of the advisory lock held while seeding the sample shop data
+const SAMPLE_DATA_LOCK_ID = 4711;
+
+interface StockBooking {
+  reason: StockMovementReason;
+  orderId?: string;
+  // Reject the change when a tracked size would drop below zero (unless backorders are allowed)
+  enforce: boolean;
+}
+
+// Net stock change per product, size and variant ("<productId>\0<size>\0<variantId>"),
+// negative for ordered pieces
+function stockChanges(
+  items: { productId: string; size: string; variantId?: string | null; quantity: number }[],
+  sign: 1 | -1,
+  changes: Map<string, number> = new Map(),
+): Map<string, number> {
+  for (const item of items) {
+    const key = [item.productId, item.size, item.variantId ?? ""].join("\u0000");
+    changes.set(key, (changes.get(key) ?? 0) + sign * item.quantity);
+  }
+  return changes;
+}
+
+// Books the changes on the tracked sizes and records the movements. The
+// product rows stay locked until the transaction ends, so two orders cannot
+// both take the last piece.
+async function bookStock(tx: DbTransaction, changes: Map<string, number>, booking: StockBooking): Promise<void> {
+  const entries = Array.from(changes.entries())
+    .map(([key, change]) => {
+      const [productId, size, variantId] = key.split("\u0000");
+      return { productId, size, variantId: variantId || null, change };
+    })
+    .filter((entry) => entry.change !== 0);
+  if (entries.length === 0) return;
+
+  const productIds = Array.from(new Set(entries.map((entry) => entry.productId)));
+  const products = await tx
+    .select()
+    .from(productsTable)
+    .where(inArray(productsTable.id, productIds))
+    .for("update");
+
+  const movements: (InsertStockMovementDb & { id: string })[] = [];
+  for (const product of products) {
+    const stock = { ...product.stock };
+    let changed = false;
+
+    for (const { productId, size, variantId, change } of entries) {
+      const key = getStockKey(size, variantId);
+      if (productId !== product.id || stock[key] === undefined) continue;
+      const stockAfter = stock[key] + change;
+      if (booking.enforce && change < 0 && stockAfter < 0 && !product.allowBackorder) {
+        const variant = product.variants.find((v) => v.id === variantId);
+        const label = variant ? `${product.name} (${variant.name})` : product.name;
+        throw new OrderValidationError(
+          stock[key] > 0
+            ? `Von "${label}" in Größe ${size} sind nur noch ${stock[key]} Stück verfügbar`
+            : `"${label}" ist in Größe ${size} ausverkauft`
+        );
+      }
+      stock[key] = stockAfter;
+      changed = true;
+      movements.push({
+        id: randomUUID(),
+        productId: product.id,
+        size,
+        variantId,
+        change,
+        stockAfter,
+        reason: booking.reason,
+        orderId: booking.orderId ?? null,
+      });
+    }
+
+    if (changed) {
+      await tx.update(productsTable).set({ stock, updatedAt: new Date() }).where(eq(productsTable.id, product.id));
+    }
+  }
+
+  if (movements.length > 0) {
+    await tx.insert(stockMovementsTable).values(movements);
+  }
+}
+
+// Loads the line items for a batch of orders with a single query
+async function withOrderItems(dbOrders: OrderDb[]): Promise<Order[]> {
+  if (dbOrders.length === 0) return [];
+
+  const items = await db
+    .select()
+    .from(orderItemsTable)
+    .where(inArray(orderItemsTable.orderId, dbOrders.map((o) => o.id)));
+
+  const itemsByOrder = new Map<string, OrderItemDb[]>();
+  for (const item of items) {
+    const list = itemsByOrder.get(item.orderId) ?? [];
+    list.push(item);
+    itemsByOrder.set(item.orderId, list);
+  }
+
+  return dbOrders.map((o) => dbOrderToOrder(o, itemsByOrder.get(o.id) ?? []));
+}
+
 export class DbStorage implements IDbStorage {
   async getAllCalendarEvents(): Promise<CalendarEvent[]> {
     const events = await db
@@ -322,6 +785,14 @@ export class DbStorage implements IDbStorage {
     return mappings.map(dbFieldMappingToFieldMapping);
   }
 
+  async getFieldMapping(id: string): Promise<FieldMapping | undefined> {
+    const [mapping] = await db
+      .select()
+      .from(fieldMappingsTable)
+      .where(eq(fieldMappingsTable.id, id));
+    return mapping ? dbFieldMappingToFieldMapping(mapping) : undefined;
+  }
+
   async createFieldMapping(insertMapping: InsertFieldMapping): Promise<FieldMapping> {
     const id = randomUUID();
     const [created] = await db
@@ -440,6 +911,63 @@ export class DbStorage implements IDbStorage {
       });
   }
 
+  // Email templates are stored as JSON in admin_settings ("email_template:<key>");
+  // a missing entry means the built-in default is used
+  async getEmailTemplate(key: EmailTemplateKey): Promise<UpdateEmailTemplate | undefined> {
+    const [setting] = await db
+      .select()
+      .from(adminSettingsTable)
+      .where(eq(adminSettingsTable.key, `email_template:${key}`));
+    if (!setting) return undefined;
+    try {
+      return JSON.parse(setting.value) as UpdateEmailTemplate;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setEmailTemplate(key: EmailTemplateKey, template: UpdateEmailTemplate): Promise<void> {
+    const value = JSON.stringify({ subject: template.subject, body: template.body });
+    await db
+      .insert(adminSettingsTable)
+      .values({ key: `email_template:${key}`, value })
+      .onConflictDoUpdate({
+        target: adminSettingsTable.key,
+        set: { value },
+      });
+  }
+
+  async deleteEmailTemplate(key: EmailTemplateKey): Promise<void> {
+    await db
+      .delete(adminSettingsTable)
+      .where(eq(adminSettingsTable.key, `email_template:${key}`));
+  }
+
+  // The club's account for bank transfers, stored as JSON in admin_settings
+  async getBankAccount(): Promise<BankAccount | undefined> {
+    const [setting] = await db
+      .select()
+      .from(adminSettingsTable)
+      .where(eq(adminSettingsTable.key, "bank_account"));
+    if (!setting) return undefined;
+    try {
+      return JSON.parse(setting.value) as BankAccount;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setBankAccount(account: BankAccount): Promise<void> {
+    const value = JSON.stringify({ accountHolder: account.accountHolder, iban: account.iban, bic: account.bic || undefined });
+    await db
+      .insert(adminSettingsTable)
+      .values({ key: "bank_account", value })
+      .onConflictDoUpdate({
+        target: adminSettingsTable.key,
+        set: { value },
+      });
+  }
+
   async initializeDefaultFieldMappings(): Promise<void> {
     const existing = await this.getAllFieldMappings();
     if (existing.length > 0) return;
@@ -461,6 +989,808 @@ export class DbStorage implements IDbStorage {
       await this.createFieldMapping(mapping);
     }
   }
+
+  // Size sets
+  async getAllSizeSets(): Promise<SizeSet[]> {
+    const sizeSets = await db
+      .select()
+      .from(sizeSetsTable)
+      .orderBy(asc(sizeSetsTable.name));
+    return sizeSets.map(dbSizeSetToSizeSet);
+  }
+
+  async getSizeSet(id: string): Promise<SizeSet | undefined> {
+    const [sizeSet] = await db
+      .select()
+      .from(sizeSetsTable)
+      .where(eq(sizeSetsTable.id, id));
+    return sizeSet ? dbSizeSetToSizeSet(sizeSet) : undefined;
+  }
+
+  async createSizeSet(insertSizeSet: InsertSizeSet): Promise<SizeSet> {
+    const [created] = await db
+      .insert(sizeSetsTable)
+      .values({ id: randomUUID(), name: insertSizeSet.name, sizes: insertSizeSet.sizes })
+      .returning();
+    return dbSizeSetToSizeSet(created);
+  }
+
+  async updateSizeSet(id: string, data: Partial<InsertSizeSet>): Promise<SizeSet | undefined> {
+    const [updated] = await db
+      .update(sizeSetsTable)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(sizeSetsTable.id, id))
+      .returning();
+    return updated ? dbSizeSetToSizeSet(updated) : undefined;
+  }
+
+  async deleteSizeSet(id: string): Promise<boolean> {
+    const result = await db
+      .delete(sizeSetsTable)
+      .where(eq(sizeSetsTable.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Creates the default size set with the former fixed sizes and assigns it
+  // to all products that do not reference a size set yet
+  async initializeDefaultSizeSet(): Promise<void> {
+    await db
+      .insert(sizeSetsTable)
+      .values({ id: DEFAULT_SIZE_SET_ID, name: DEFAULT_SIZE_SET_NAME, sizes: DEFAULT_SIZES })
+      .onConflictDoNothing({ target: sizeSetsTable.id });
+    await db
+      .update(productsTable)
+      .set({ sizeSetId: DEFAULT_SIZE_SET_ID })
+      .where(isNull(productsTable.sizeSetId));
+  }
+
+  // Products
+  async getAllProducts(): Promise<Product[]> {
+    const products = await db
+      .select()
+      .from(productsTable)
+      .orderBy(asc(productsTable.createdAt));
+    return products.map(dbProductToProduct);
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(productsTable)
+      .where(eq(productsTable.id, id));
+    return product ? dbProductToProduct(product) : undefined;
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const id = randomUUID();
+    const [created] = await db
+      .insert(productsTable)
+      .values({ id, ...(productToDbValues(insertProduct) as InsertProductDb) })
+      .returning();
+    return dbProductToProduct(created);
+  }
+
+  async updateProduct(id: string, data: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [updated] = await db
+      .update(productsTable)
+      .set({ ...productToDbValues(data), updatedAt: new Date() })
+      .where(eq(productsTable.id, id))
+      .returning();
+    return updated ? dbProductToProduct(updated) : undefined;
+  }
+
+  // All rows or none: a product deleted since the preview rolls the import back.
+  // Sets the ID of created products on their plan rows.
+  async applyProductImport(plan: ProductImportPlanRow[]): Promise<AppliedProductImport> {
+    return db.transaction(async (tx) => {
+      const applied: AppliedProductImport = { created: [], updated: [] };
+      for (const row of plan) {
+        if (row.action === "create") {
+          const [created] = await tx
+            .insert(productsTable)
+            .values({ id: randomUUID(), ...(productToDbValues(row.data as InsertProduct) as InsertProductDb) })
+            .returning();
+          row.productId = created.id;
+          applied.created.push(dbProductToProduct(created));
+        } else if (row.action === "update" && row.productId) {
+          const [before] = await tx.select().from(productsTable).where(eq(productsTable.id, row.productId)).for("update");
+          if (!before) {
+            throw new ProductImportError(`Zeile ${row.row}: Produkt "${row.name}" wurde inzwischen gelöscht, es wurde nichts importiert`);
+          }
+          const [after] = await tx
+            .update(productsTable)
+            .set({ ...productToDbValues(row.data ?? {}), updatedAt: new Date() })
+            .where(eq(productsTable.id, row.productId))
+            .returning();
+          applied.updated.push({ before: dbProductToProduct(before), after: dbProductToProduct(after) });
+        }
+      }
+      return applied;
+    });
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    const result = await db
+      .delete(productsTable)
+      .where(eq(productsTable.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async adjustStock(productId: string, adjustment: StockAdjustment, createdBy?: string): Promise<Product | undefined> {
+    return db.transaction(async (tx) => {
+      const [product] = await tx.select().from(productsTable).where(eq(productsTable.id, productId)).for("update");
+      if (!product) return undefined;
+
+      const { size, variantId, mode, quantity, note } = adjustment;
+      const key = getStockKey(size, variantId);
+      const stock = { ...product.stock };
+      const before = stock[key] ?? 0;
+
+      if (mode === "untrack") {
+        delete stock[key];
+      } else {
+        const stockAfter = mode === "set" ? quantity : before + quantity;
+        stock[key] = stockAfter;
+        await tx.insert(stockMovementsTable).values({
+          id: randomUUID(),
+          productId,
+          size,
+          variantId: variantId ?? null,
+          change: stockAfter - before,
+          stockAfter,
+          reason: "adjustment",
+          note: note || null,
+          createdBy: createdBy ?? null,
+        });
+      }
+
+      const [updated] = await tx
+        .update(productsTable)
+        .set({ stock, updatedAt: new Date() })
+        .where(eq(productsTable.id, productId))
+        .returning();
+      return dbProductToProduct(updated);
+    });
+  }
+
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
+    const movements = await db
+      .select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.productId, productId))
+      .orderBy(desc(stockMovementsTable.createdAt));
+    return movements.map(dbStockMovementToStockMovement);
+  }
+
+  // Campaigns
+  async getAllCampaigns(): Promise<Campaign[]> {
+    const campaigns = await db
+      .select()
+      .from(campaignsTable)
+      .orderBy(asc(campaignsTable.createdAt));
+    return campaigns.map(dbCampaignToCampaign);
+  }
+
+  async getActiveCampaigns(): Promise<Campaign[]> {
+    const campaigns = await db
+      .select()
+      .from(campaignsTable)
+      .where(eq(campaignsTable.active, true))
+      .orderBy(asc(campaignsTable.createdAt));
+    return campaigns.map(dbCampaignToCampaign);
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .select()
+      .from(campaignsTable)
+      .where(eq(campaignsTable.id, id));
+    return campaign ? dbCampaignToCampaign(campaign) : undefined;
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    const id = randomUUID();
+    const [created] = await db
+      .insert(campaignsTable)
+      .values({ id, ...insertCampaign })
+      .returning();
+    return dbCampaignToCampaign(created);
+  }
+
+  async updateCampaign(id: string, data: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaignsTable)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(campaignsTable.id, id))
+      .returning();
+    return updated ? dbCampaignToCampaign(updated) : undefined;
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    const result = await db
+      .delete(campaignsTable)
+      .where(eq(campaignsTable.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async setCampaignReminderSent(id: string, sentAt: Date | null): Promise<void> {
+    await db
+      .update(campaignsTable)
+      .set({ reminderSentAt: sentAt })
+      .where(eq(campaignsTable.id, id));
+  }
+
+  // Deactivates the campaign once; undefined when it was already closed meanwhile
+  async closeCampaign(id: string): Promise<Campaign | undefined> {
+    const now = new Date();
+    const [closed] = await db
+      .update(campaignsTable)
+      .set({ active: false, closedAt: now, updatedAt: now })
+      .where(and(eq(campaignsTable.id, id), eq(campaignsTable.active, true)))
+      .returning();
+    return closed ? dbCampaignToCampaign(closed) : undefined;
+  }
+
+  // Orders
+  async getAllOrders(): Promise<Order[]> {
+    const orders = await db
+      .select()
+      .from(ordersTable)
+      .orderBy(desc(ordersTable.createdAt));
+    return withOrderItems(orders);
+  }
+
+  async getOrdersByCampaign(campaignId: string): Promise<Order[]> {
+    const orders = await db
+      .select()
+      .from(ordersTable)
+      .where(eq(ordersTable.campaignId, campaignId))
+      .orderBy(desc(ordersTable.createdAt));
+    return withOrderItems(orders);
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(ordersTable)
+      .where(eq(ordersTable.id, id));
+    if (!order) return undefined;
+    const [withItems] = await withOrderItems([order]);
+    return withItems;
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const id = randomUUID();
+    const campaign = await this.getCampaign(insertOrder.campaignId);
+    const totalAmount = insertOrder.items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+    return db.transaction(async (tx) => {
+      await bookStock(tx, stockChanges(insertOrder.items, -1), { reason: "order", orderId: id, enforce: true });
+
+      const [createdOrder] = await tx
+        .insert(ordersTable)
+        .values({
+          id,
+          campaignId: insertOrder.campaignId,
+          campaignName: campaign?.name || "Unbekannt",
+          email: insertOrder.email,
+          firstName: insertOrder.firstName,
+          lastName: insertOrder.lastName,
+          totalAmount: totalAmount.toFixed(2),
+          accessToken: randomBytes(24).toString("base64url"),
+          team: insertOrder.team ?? null,
+        })
+        .returning();
+
+      const createdItems = await tx
+        .insert(orderItemsTable)
+        .values(orderItemsToDbValues(id, insertOrder.items))
+        .returning();
+
+      return dbOrderToOrder(createdOrder, createdItems);
+    });
+  }
+
+  async getOrderByAccessToken(token: string): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(ordersTable)
+      .where(eq(ordersTable.accessToken, token));
+    if (!order) return undefined;
+    const [withItems] = await withOrderItems([order]);
+    return withItems;
+  }
+
+  // Customer change: checked again under the row lock, so a status change or a
+  // payment between the caller's check and this write rejects the change
+  async replaceOrderItems(id: string, items: OrderItem[]): Promise<Order | undefined> {
+    const totalAmount = items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(ordersTable).where(eq(ordersTable.id, id)).for("update");
+      if (!current) return undefined;
+      const order = dbOrderToOrder(current, []);
+      if (order.status !== "received" || isOrderPaymentStarted(order)) {
+        throw new OrderLockedError(order);
+      }
+
+      const [updated] = await tx
+        .update(ordersTable)
+        .set({ totalAmount: totalAmount.toFixed(2) })
+        .where(eq(ordersTable.id, id))
+        .returning();
+      if (!updated) return undefined;
+
+      // Only the difference to the previous items is booked
+      const previousItems = await tx.select().from(orderItemsTable).where(eq(orderItemsTable.orderId, id));
+      const changes = stockChanges(items, -1, stockChanges(previousItems, 1));
+      await bookStock(tx, changes, { reason: "order-change", orderId: id, enforce: true });
+
+      await tx.delete(orderItemsTable).where(eq(orderItemsTable.orderId, id));
+      const createdItems = await tx
+        .insert(orderItemsTable)
+        .values(orderItemsToDbValues(id, items))
+        .returning();
+
+      return dbOrderToOrder(updated, createdItems);
+    });
+  }
+
+  // Cancelling returns the items to stock, reactivating takes them again
+  // (even beyond the stock, the admin decided to deliver the order)
+  async updateOrderStatus(id: string, status: OrderStatus): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(ordersTable).where(eq(ordersTable.id, id)).for("update");
+      if (!current) return undefined;
+
+      const [updated] = await tx
+        .update(ordersTable)
+        .set({ status, statusChangedAt: new Date() })
+        .where(eq(ordersTable.id, id))
+        .returning();
+      const items = await tx.select().from(orderItemsTable).where(eq(orderItemsTable.orderId, id));
+
+      const wasCancelled = current.status === "cancelled";
+      const isCancelled = status === "cancelled";
+      if (!wasCancelled && isCancelled) {
+        await bookStock(tx, stockChanges(items, 1), { reason: "order-cancel", orderId: id, enforce: false });
+      } else if (wasCancelled && !isCancelled) {
+        await bookStock(tx, stockChanges(items, -1), { reason: "order-restore", orderId: id, enforce: false });
+      }
+
+      return dbOrderToOrder(updated, items);
+    });
+  }
+
+  async updateOrderPayment(id: string, payment: UpdateOrderPayment): Promise<Order | undefined> {
+    const isPaid = payment.paidAmount > 0;
+    const [updated] = await db
+      .update(ordersTable)
+      .set({
+        paidAmount: payment.paidAmount.toFixed(2),
+        paymentMethod: isPaid ? payment.paymentMethod ?? null : null,
+        paidAt: isPaid ? (payment.paidAt ? new Date(payment.paidAt) : new Date()) : null,
+      })
+      .where(eq(ordersTable.id, id))
+      .returning();
+    if (!updated) return undefined;
+    const [withItems] = await withOrderItems([updated]);
+    return withItems;
+  }
+
+  // Adds an incoming payment in SQL; undefined when the paid amount is no longer
+  // the one the payment was matched against, e.g. a concurrent booking
+  async addOrderPayment(
+    id: string,
+    expectedPaidAmount: number,
+    amount: number,
+    method: PaymentMethod,
+    paidAt?: string,
+  ): Promise<Order | undefined> {
+    const [updated] = await db
+      .update(ordersTable)
+      .set({
+        paidAmount: sql`${ordersTable.paidAmount} + ${amount.toFixed(2)}`,
+        paymentMethod: method,
+        paidAt: paidAt ? new Date(paidAt) : new Date(),
+      })
+      .where(and(eq(ordersTable.id, id), eq(ordersTable.paidAmount, expectedPaidAmount.toFixed(2))))
+      .returning();
+    if (!updated) return undefined;
+    const [withItems] = await withOrderItems([updated]);
+    return withItems;
+  }
+
+  // Any checkout ever opened for the order, not only the latest one
+  async getOrderByPaymentReference(reference: string): Promise<Order | undefined> {
+    const [attempt] = await db
+      .select({ orderId: paymentAttemptsTable.orderId })
+      .from(paymentAttemptsTable)
+      .where(eq(paymentAttemptsTable.reference, reference));
+    const [order] = await db
+      .select()
+      .from(ordersTable)
+      .where(attempt ? eq(ordersTable.id, attempt.orderId) : eq(ordersTable.paymentReference, reference));
+    if (!order) return undefined;
+    const [withItems] = await withOrderItems([order]);
+    return withItems;
+  }
+
+  // Records the checkout; the order shows the provider and state of its latest one
+  async startOrderPayment(id: string, provider: PaymentProviderName, reference: string, amount: number): Promise<Order | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(ordersTable)
+        .set({ paymentProvider: provider, paymentReference: reference, paymentState: "pending" })
+        .where(eq(ordersTable.id, id))
+        .returning();
+      if (!order) return undefined;
+      await tx.insert(paymentAttemptsTable).values({ orderId: id, provider, reference, amount: amount.toFixed(2) });
+      return order;
+    });
+    if (!updated) return undefined;
+    const [withItems] = await withOrderItems([updated]);
+    return withItems;
+  }
+
+  // Moves the attempt to its final state and returns its order ID; undefined when
+  // the result was already applied. A payment is booked even after the attempt
+  // was reported as failed or cancelled, the money has arrived after all.
+  // Checkouts opened before attempts were recorded are taken over from the order.
+  // A paid amount is checked against the amount the checkout was opened for.
+  private async settlePaymentAttempt(
+    tx: DbTransaction,
+    reference: string,
+    state: "paid" | "failed" | "cancelled",
+    reportedAmount?: number,
+  ): Promise<{ orderId: string; amount?: number } | undefined> {
+    let [attempt] = await tx
+      .select()
+      .from(paymentAttemptsTable)
+      .where(eq(paymentAttemptsTable.reference, reference))
+      .for("update");
+    if (!attempt) {
+      const [order] = await tx.select().from(ordersTable).where(eq(ordersTable.paymentReference, reference)).for("update");
+      if (!order) return undefined;
+      [attempt] = await tx
+        .insert(paymentAttemptsTable)
+        .values({
+          orderId: order.id,
+          provider: order.paymentProvider ?? "",
+          reference,
+          state: order.paymentState ?? "pending",
+        })
+        .returning();
+    }
+    if (state === "paid" ? attempt.state === "paid" : attempt.state !== "pending") return undefined;
+
+    const expectedAmount = attempt.amount === null ? undefined : Number(attempt.amount);
+    if (
+      state === "paid" &&
+      reportedAmount !== undefined &&
+      expectedAmount !== undefined &&
+      Math.round(reportedAmount * 100) !== Math.round(expectedAmount * 100)
+    ) {
+      throw new PaymentAmountError(reference, expectedAmount, reportedAmount);
+    }
+
+    await tx.update(paymentAttemptsTable).set({ state }).where(eq(paymentAttemptsTable.id, attempt.id));
+    return { orderId: attempt.orderId, amount: reportedAmount ?? expectedAmount };
+  }
+
+  // Books the amount once per checkout, also for an earlier checkout the customer
+  // left open when starting a new one; undefined when it was already booked.
+  // Without any known amount the order counts as fully paid.
+  async completeOrderPayment(reference: string, reportedAmount?: number): Promise<Order | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const settled = await this.settlePaymentAttempt(tx, reference, "paid", reportedAmount);
+      if (!settled) return undefined;
+      const [order] = await tx
+        .update(ordersTable)
+        .set({
+          paidAmount:
+            settled.amount === undefined
+              ? sql`greatest(${ordersTable.totalAmount}, ${ordersTable.paidAmount})`
+              : sql`${ordersTable.paidAmount} + ${settled.amount.toFixed(2)}`,
+          paymentMethod: "online",
+          paidAt: new Date(),
+          paymentState: "paid",
+        })
+        .where(eq(ordersTable.id, settled.orderId))
+        .returning();
+      return order;
+    });
+    if (!updated) return undefined;
+    const [withItems] = await withOrderItems([updated]);
+    return withItems;
+  }
+
+  // The order only changes when its latest checkout failed or was cancelled
+  async abortOrderPayment(reference: string, state: "failed" | "cancelled"): Promise<Order | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const settled = await this.settlePaymentAttempt(tx, reference, state);
+      if (!settled) return undefined;
+      const [order] = await tx
+        .update(ordersTable)
+        .set({ paymentState: state })
+        .where(
+          and(
+            eq(ordersTable.id, settled.orderId),
+            eq(ordersTable.paymentReference, reference),
+            eq(ordersTable.paymentState, "pending"),
+          )
+        )
+        .returning();
+      return order;
+    });
+    if (!updated) return undefined;
+    const [withItems] = await withOrderItems([updated]);
+    return withItems;
+  }
+
+  async getOrderNotifications(orderIds: string[]): Promise<OrderNotification[]> {
+    if (orderIds.length === 0) return [];
+    const notifications = await db
+      .select()
+      .from(orderNotificationsTable)
+      .where(inArray(orderNotificationsTable.orderId, orderIds))
+      .orderBy(desc(orderNotificationsTable.sentAt));
+    return notifications.map(dbNotificationToNotification);
+  }
+
+  async createOrderNotification(notification: InsertOrderNotificationDb): Promise<OrderNotification> {
+    const id = randomUUID();
+    const [created] = await db
+      .insert(orderNotificationsTable)
+      .values({ id, ...notification })
+      .returning();
+    return dbNotificationToNotification(created);
+  }
+
+  async getInvoiceByOrder(orderId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoicesTable).where(eq(invoicesTable.orderId, orderId));
+    return invoice ? dbInvoiceToInvoice(invoice) : undefined;
+  }
+
+  // Returns the order's existing invoice or issues one with the next number. The
+  // table lock serializes concurrent calls, so the sequence has no gaps or duplicates.
+  // The snapshot is stored with a new invoice, and with an existing one that has
+  // none yet because it was issued before snapshots were kept.
+  async createInvoice(orderId: string, snapshot: InvoiceSnapshot): Promise<Invoice> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`LOCK TABLE ${invoicesTable} IN EXCLUSIVE MODE`);
+      const [existing] = await tx.select().from(invoicesTable).where(eq(invoicesTable.orderId, orderId));
+      if (existing?.snapshot) return dbInvoiceToInvoice(existing);
+      if (existing) {
+        const [updated] = await tx
+          .update(invoicesTable)
+          .set({ snapshot })
+          .where(eq(invoicesTable.id, existing.id))
+          .returning();
+        return dbInvoiceToInvoice(updated);
+      }
+
+      const [{ lastNumber }] = await tx
+        .select({ lastNumber: sql<number>`coalesce(max(${invoicesTable.number}), 0)::int` })
+        .from(invoicesTable);
+      const [created] = await tx
+        .insert(invoicesTable)
+        .values({ number: lastNumber + 1, orderId, snapshot })
+        .returning();
+      return dbInvoiceToInvoice(created);
+    });
+  }
+
+  // One-off migration from the former in-memory store: seed the sample
+  // products and campaign only while the shop tables are still empty. The
+  // advisory lock makes instances starting together seed one after the other,
+  // so the second one sees the first one's rows and skips.
+  async initializeSampleShopData(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${SAMPLE_DATA_LOCK_ID})`);
+      const [{ productCount }] = await tx
+        .select({ productCount: sql<number>`count(*)::int` })
+        .from(productsTable);
+      const [{ campaignCount }] = await tx
+        .select({ campaignCount: sql<number>`count(*)::int` })
+        .from(campaignsTable);
+      if (productCount > 0 || campaignCount > 0) return;
+      await this.insertSampleShopData(tx);
+    });
+  }
+
+  private async insertSampleShopData(tx: DbTransaction): Promise<void> {
+
+    const sampleProducts: InsertProduct[] = [
+      {
+        name: "T-Shirt",
+        category: "T-Shirts",
+        basePrice: 24,
+        imageUrl: "https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=400&h=400&fit=crop",
+        additionalImages: [],
+        active: true,
+        shortDescription: "Trainingsshirt JAKO, atmungsaktiv",
+        brand: "JAKO",
+        season: "Sommer 2025",
+        sizeSetId: DEFAULT_SIZE_SET_ID,
+        availableSizes: ["S", "M", "L", "XL", "XXL", "128", "140", "152", "164"],
+        variants: [
+          {
+            name: "grün",
+            imageUrl: "https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=400&h=400&fit=crop",
+            surcharge: 0,
+          },
+          {
+            name: "schwarz",
+            imageUrl: "https://images.unsplash.com/photo-1503341504253-dff4815485f1?w=400&h=400&fit=crop",
+            surcharge: 0,
+          },
+        ],
+        sizePrices: { "128": 19, "140": 19, "152": 19, "164": 19 },
+        initialsEnabled: true,
+        initialsPrice: 7,
+        initialsLabel: "Initialienaufdruck",
+        personalizationFields: [],
+        allowBackorder: false,
+      },
+      {
+        name: "Pullover ZIPTOP Schwarz",
+        category: "Pullover",
+        basePrice: 45,
+        imageUrl: "https://images.unsplash.com/photo-1556821840-3a63f95609a7?w=400&h=400&fit=crop",
+        additionalImages: [],
+        active: true,
+        shortDescription: "Trainingsjacke mit Reißverschluss",
+        brand: "JAKO",
+        season: "Winter 25/26",
+        sizeSetId: DEFAULT_SIZE_SET_ID,
+        availableSizes: ["S", "M", "L", "XL", "XXL"],
+        variants: [],
+        sizePrices: {},
+        initialsEnabled: true,
+        initialsPrice: 10,
+        initialsLabel: "Name + Nummer",
+        personalizationFields: [],
+        allowBackorder: false,
+      },
+    ];
+
+    const productIds = sampleProducts.map(() => randomUUID());
+    await tx
+      .insert(productsTable)
+      .values(sampleProducts.map((product, index) => ({
+        id: productIds[index],
+        ...(productToDbValues(product) as InsertProductDb),
+      })));
+
+    const today = new Date();
+    const nextMonth = new Date(today);
+    nextMonth.setMonth(nextMonth.getMonth() + 1);
+
+    await tx.insert(campaignsTable).values({
+      id: randomUUID(),
+      name: "Sammelbestellung Sommer 2025",
+      description: "Trainings-/Präsentationsbekleidung für aktive Spieler und Trainer/Betreuer.",
+      startDate: today.toISOString().split("T")[0],
+      endDate: nextMonth.toISOString().split("T")[0],
+      active: true,
+      productIds,
+      reminderAudience: "past-customers",
+      reminderEmails: [],
+      visibility: "public",
+      onlinePayment: false,
+    });
+  }
+
+  // Users (passwords are hashed by the caller, see server/auth.ts)
+  async getAllUsers(): Promise<User[]> {
+    const users = await db
+      .select()
+      .from(usersTable)
+      .orderBy(asc(usersTable.username));
+    return users.map(dbUserToUser);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(usersTable)
+      .where(eq(usersTable.id, id));
+    return user ? dbUserToUser(user) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(usersTable)
+      .where(eq(usersTable.username, username.toLowerCase()));
+    return user ? dbUserToUser(user) : undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const [created] = await db
+      .insert(usersTable)
+      .values({
+        id,
+        username: insertUser.username.toLowerCase(),
+        passwordHash: insertUser.password,
+        displayName: insertUser.displayName || null,
+        role: insertUser.role,
+        teams: insertUser.teams,
+        active: insertUser.active,
+      })
+      .returning();
+    return dbUserToUser(created);
+  }
+
+  async updateUser(id: string, data: UpdateUser): Promise<User | undefined> {
+    const updateData: Partial<typeof usersTable.$inferInsert> = {};
+
+    if (data.password !== undefined) {
+      updateData.passwordHash = data.password;
+      updateData.passwordChangedAt = new Date();
+    }
+    if (data.displayName !== undefined) updateData.displayName = data.displayName || null;
+    if (data.role !== undefined) updateData.role = data.role;
+    if (data.teams !== undefined) updateData.teams = data.teams;
+    if (data.active !== undefined) updateData.active = data.active;
+
+    const [updated] = await db
+      .update(usersTable)
+      .set(updateData)
+      .where(eq(usersTable.id, id))
+      .returning();
+    return updated ? dbUserToUser(updated) : undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await db
+      .delete(usersTable)
+      .where(eq(usersTable.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async recordUserLogin(id: string): Promise<void> {
+    await db
+      .update(usersTable)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(usersTable.id, id));
+  }
+
+  // Audit log
+  async createAuditEntry(entry: InsertAuditLogDb): Promise<AuditLogEntry> {
+    const id = randomUUID();
+    const [created] = await db
+      .insert(auditLogTable)
+      .values({ id, ...entry })
+      .returning();
+    return dbAuditToAuditEntry(created);
+  }
+
+  async getAuditLog(filter: AuditLogFilter): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+
+    if (filter.entityType) conditions.push(eq(auditLogTable.entityType, filter.entityType));
+    if (filter.entityId) conditions.push(eq(auditLogTable.entityId, filter.entityId));
+    if (filter.action) conditions.push(eq(auditLogTable.action, filter.action));
+    if (filter.actorId) conditions.push(eq(auditLogTable.actorId, filter.actorId));
+    if (filter.from) conditions.push(gte(auditLogTable.createdAt, new Date(filter.from)));
+    if (filter.to) {
+      // "to" is inclusive: everything before the start of the following day
+      const end = new Date(filter.to);
+      end.setDate(end.getDate() + 1);
+      conditions.push(lt(auditLogTable.createdAt, end));
+    }
+
+    const entries = await db
+      .select()
+      .from(auditLogTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLogTable.createdAt))
+      .limit(filter.limit ?? 200);
+    return entries.map(dbAuditToAuditEntry);
+  }
 }
 
 export const dbStorage = new DbStorage();
@@ -1,110 +1,137 @@
-import { Resend } from "resend";
-import type { Order } from "@shared/schema";
+import {
+  EMAIL_TEMPLATE_LABELS,
+  type Order,
+  type OrderNotificationType,
+  type EmailTemplateKey,
+  type UpdateEmailTemplate,
+} from "@shared/schema";
+import { dbStorage } from "./dbStorage";
+import {
+  getMailTransport,
+  getMailSender,
+  type EmailResult,
+  type MailAttachment,
+  type MailMessage,
+} from "./mailTransport";
+import {
+  getEmailTemplate,
+  buildTemplateValues,
+  renderTemplate,
+  SAMPLE_ORDER,
+  SAMPLE_CONTEXT,
+  type EmailContext,
+} from "./emailTemplates";
 
-const resend = process.env.RESEND_API_KEY ? new Resend(process.env.RESEND_API_KEY) : null;
+export type { EmailResult } from "./mailTransport";
 
-export async function sendOrderConfirmation(order: Order): Promise<boolean> {
-  if (!resend) {
-    console.log("E-Mail-Versand deaktiviert: RESEND_API_KEY nicht konfiguriert");
-    return false;
+export const EMAIL_DISABLED_MESSAGE = "E-Mail-Versand deaktiviert: kein E-Mail-Transport konfiguriert";
+
+export function isEmailEnabled(): boolean {
+  return getMailTransport() !== null;
+}
+
+// Sends via the configured transport; never throws
+export async function sendMail(message: MailMessage): Promise<EmailResult> {
+  const transport = getMailTransport();
+  if (!transport) {
+    console.log(EMAIL_DISABLED_MESSAGE);
+    return { success: false, error: EMAIL_DISABLED_MESSAGE };
   }
 
-  const itemsHtml = order.items
-    .map(
-      (item) => `
-      <tr>
-        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${item.productName}</td>
-        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${item.size}</td>
-        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${item.quantity}</td>
-        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${item.withInitials ? item.initialsText || "Ja" : "-"}</td>
-        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5; text-align: right;">${item.totalPrice.toFixed(2).replace(".", ",")} €</td>
-      </tr>
-    `
-    )
-    .join("");
+  const result = await transport.send(message);
+  if (result.success) {
+    console.log(`E-Mail gesendet (${transport.name}) an ${message.to}: ${message.subject}`);
+  } else {
+    console.error("Fehler beim E-Mail-Versand:", result.error);
+  }
+  return result;
+}
 
-  const emailHtml = `
+// Shared frame (header and footer) around every template body
+export function renderLayout(title: string, content: string): string {
+  const { name, replyTo } = getMailSender();
+  return `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="utf-8">
-      <title>Bestellbestätigung</title>
+      <title>${title}</title>
     </head>
     <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
       <div style="background: linear-gradient(135deg, #16a34a 0%, #15803d 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
-        <h1 style="color: white; margin: 0; font-size: 24px;">TSV Bestellportal</h1>
-        <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0;">Bestellbestätigung</p>
+        <h1 style="color: white; margin: 0; font-size: 24px;">${name}</h1>
+        <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0;">${title}</p>
       </div>
-      
+
       <div style="background: #f9fafb; padding: 30px; border: 1px solid #e5e5e5; border-top: none; border-radius: 0 0 8px 8px;">
-        <p>Hallo ${order.firstName} ${order.lastName},</p>
-        
-        <p>vielen Dank für Ihre Bestellung! Hier ist eine Übersicht Ihrer Bestellung:</p>
-        
-        <div style="background: white; border-radius: 8px; padding: 20px; margin: 20px 0; border: 1px solid #e5e5e5;">
-          <h3 style="margin: 0 0 15px; color: #16a34a;">Bestelldetails</h3>
-          <p style="margin: 5px 0;"><strong>Bestellnummer:</strong> ${order.id.slice(0, 8).toUpperCase()}</p>
-          <p style="margin: 5px 0;"><strong>Kampagne:</strong> ${order.campaignName}</p>
-          <p style="margin: 5px 0;"><strong>Datum:</strong> ${new Date(order.createdAt).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" })}</p>
-        </div>
-        
-        <table style="width: 100%; border-collapse: collapse; background: white; border-radius: 8px; overflow: hidden; border: 1px solid #e5e5e5;">
-          <thead>
-            <tr style="background: #f3f4f6;">
-              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Produkt</th>
-              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Größe</th>
-              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Anzahl</th>
-              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Initialien</th>
-              <th style="padding: 12px 8px; text-align: right; font-weight: 600;">Preis</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${itemsHtml}
-          </tbody>
-          <tfoot>
-            <tr style="background: #f3f4f6;">
-              <td colspan="4" style="padding: 12px 8px; font-weight: 600;">Gesamtbetrag</td>
-              <td style="padding: 12px 8px; text-align: right; font-weight: 600; color: #16a34a; font-size: 18px;">${order.totalAmount.toFixed(2).replace(".", ",")} €</td>
-            </tr>
-          </tfoot>
-        </table>
-        
-        <div style="margin-top: 30px; padding: 20px; background: #ecfdf5; border-radius: 8px; border: 1px solid #a7f3d0;">
-          <p style="margin: 0; color: #166534;">
-            <strong>Wichtig:</strong> Die Bezahlung erfolgt bei Abholung der Bestellung. 
-            Sie werden benachrichtigt, sobald die Artikel eingetroffen sind.
-          </p>
-        </div>
-        
-        <p style="margin-top: 30px; color: #666;">
-          Bei Fragen wenden Sie sich bitte an Ihren Vereinsvorstand.
-        </p>
-        
-        <p style="margin-top: 20px;">
-          Mit sportlichen Grüßen,<br>
-          <strong>Ihr TSV Team</strong>
-        </p>
+        ${content}
       </div>
-      
+
       <p style="text-align: center; color: #999; font-size: 12px; margin-top: 20px;">
-        Diese E-Mail wurde automatisch generiert. Bitte antworten Sie nicht auf diese Nachricht.
+        ${replyTo
+          ? `Diese E-Mail wurde automatisch generiert. Antworten erreichen uns unter ${replyTo}.`
+          : "Diese E-Mail wurde automatisch generiert. Bitte antworten Sie nicht auf diese Nachricht."}
       </p>
     </body>
     </html>
   `;
+}
 
-  try {
-    const result = await resend.emails.send({
-      from: "TSV Bestellportal <bestellung@resend.dev>",
-      to: order.email,
-      subject: `Bestellbestätigung - ${order.campaignName}`,
-      html: emailHtml,
-    });
+// Renders a template for an order; `template` overrides the stored one (preview)
+export async function renderEmail(
+  key: EmailTemplateKey,
+  order: Order,
+  context: EmailContext = {},
+  template?: UpdateEmailTemplate,
+): Promise<{ subject: string; html: string }> {
+  const { subject, body } = template ?? (await getEmailTemplate(key));
+  const bankAccount = context.bankAccount ?? (await dbStorage.getBankAccount());
+  const values = buildTemplateValues(order, { ...context, bankAccount });
+  return {
+    subject: renderTemplate(subject, values, false),
+    html: renderLayout(EMAIL_TEMPLATE_LABELS[key], renderTemplate(body, values, true)),
+  };
+}
 
-    console.log("E-Mail gesendet:", result);
-    return true;
+export function renderEmailPreview(key: EmailTemplateKey, template: UpdateEmailTemplate) {
+  return renderEmail(key, SAMPLE_ORDER, SAMPLE_CONTEXT, template);
+}
+
+export async function sendTestEmail(
+  to: string,
+  key: EmailTemplateKey,
+  template: UpdateEmailTemplate,
+): Promise<EmailResult> {
+  const { subject, html } = await renderEmailPreview(key, template);
+  return sendMail({ to, subject: `[Test] ${subject}`, html });
+}
+
+export async function sendOrderConfirmation(
+  order: Order,
+  context: EmailContext = {},
+  attachments?: MailAttachment[],
+): Promise<boolean> {
+  const { subject, html } = await renderEmail("order-confirmation", order, context);
+  const result = await sendMail({ to: order.email, subject, html, attachments });
+  return result.success;
+}
+
+export async function sendPaymentReceived(order: Order, context: EmailContext = {}): Promise<EmailResult> {
+  const { subject, html } = await renderEmail("payment-received", order, context);
+  return sendMail({ to: order.email, subject, html });
+}
+
+export async function sendOrderStatusNotification(
+  order: Order,
+  type: OrderNotificationType,
+  context: EmailContext = {},
+  attachments?: MailAttachment[],
+): Promise<EmailResult> {
+  try {
+    const { subject, html } = await renderEmail(type, order, context);
+    return sendMail({ to: order.email, subject, html, attachments });
   } catch (error) {
-    console.error("Fehler beim E-Mail-Versand:", error);
-    return false;
+    console.error("Fehler beim Erstellen der E-Mail:", error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 }
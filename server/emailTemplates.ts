@@ -0,0 +1,305 @@
+import { dbStorage } from "./dbStorage";
+import type {
+  Order,
+  EmailTemplate,
+  EmailTemplateKey,
+  UpdateEmailTemplate,
+  PickupInfo,
+  BankAccount,
+} from "@shared/schema";
+import {
+  getOpenAmount,
+  getOrderNumber,
+  getPaymentReference,
+  formatPaymentReference,
+  formatIban,
+  formatPrice,
+  formatOrderItemName,
+  formatPersonalization,
+} from "@shared/schema";
+
+// Order-independent data available to the templates
+export interface EmailContext {
+  pickup?: PickupInfo;
+  orderLink?: string; // Customer self-service link
+  bankAccount?: BankAccount; // Loaded from the settings when missing
+  girocodeUrl?: string; // Image link of the order's GiroCode
+}
+
+const ORDER_DETAILS_HTML = `
+<div style="background: white; border-radius: 8px; padding: 20px; margin: 20px 0; border: 1px solid #e5e5e5;">
+  <h3 style="margin: 0 0 15px; color: #16a34a;">Bestelldetails</h3>
+  <p style="margin: 5px 0;"><strong>Bestellnummer:</strong> {{orderNumber}}</p>
+  <p style="margin: 5px 0;"><strong>Kampagne:</strong> {{campaignName}}</p>
+  <p style="margin: 5px 0;"><strong>Datum:</strong> {{orderDate}}</p>
+</div>
+
+{{itemsTable}}`;
+
+const SIGNATURE_HTML = `
+<p style="margin-top: 30px; color: #666;">
+  Bei Fragen wenden Sie sich bitte an Ihren Vereinsvorstand.
+</p>
+
+<p style="margin-top: 20px;">
+  Mit sportlichen Grüßen,<br>
+  <strong>Ihr TSV Team</strong>
+</p>`;
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, UpdateEmailTemplate> = {
+  "order-confirmation": {
+    subject: "Bestellbestätigung - {{campaignName}}",
+    body: `<p>Hallo {{firstName}} {{lastName}},</p>
+
+<p>vielen Dank für Ihre Bestellung! Hier ist eine Übersicht Ihrer Bestellung:</p>
+${ORDER_DETAILS_HTML}
+
+{{#if orderLink}}<p style="margin-top: 20px;">
+  Bis zum Bestellschluss können Sie Ihre Bestellung hier ansehen, ändern oder stornieren:<br>
+  <a href="{{orderLink}}" style="color: #16a34a;">Meine Bestellung</a>
+</p>{{/if}}
+
+<div style="margin-top: 30px; padding: 20px; background: #ecfdf5; border-radius: 8px; border: 1px solid #a7f3d0;">
+  <p style="margin: 0; color: #166534;">
+    <strong>Wichtig:</strong> {{paymentNote}}
+    Sie werden benachrichtigt, sobald die Artikel eingetroffen sind.
+  </p>
+  {{#if paymentLink}}<p style="margin: 10px 0 0;">
+    <a href="{{paymentLink}}" style="color: #16a34a;">Jetzt online bezahlen</a>
+  </p>{{/if}}
+</div>
+
+{{#if iban}}<div style="background: white; border-radius: 8px; padding: 20px; margin: 20px 0; border: 1px solid #e5e5e5;">
+  <h3 style="margin: 0 0 15px; color: #16a34a;">Bezahlung per Überweisung</h3>
+  <p style="margin: 5px 0;"><strong>Kontoinhaber:</strong> {{accountHolder}}</p>
+  <p style="margin: 5px 0;"><strong>IBAN:</strong> {{iban}}</p>
+  <p style="margin: 5px 0;"><strong>Betrag:</strong> {{openAmount}}</p>
+  <p style="margin: 5px 0;"><strong>Verwendungszweck:</strong> {{paymentReference}}</p>
+  <p style="margin: 10px 0 0; color: #666; font-size: 13px;">Bitte geben Sie den Verwendungszweck genau so an, damit wir Ihre Zahlung zuordnen können.</p>
+</div>{{/if}}
+{{#if girocodeUrl}}<p style="text-align: center;">
+  <img src="{{girocodeUrl}}" alt="GiroCode" width="160" height="160"><br>
+  <span style="color: #666; font-size: 13px;">GiroCode mit der Banking-App scannen</span>
+</p>{{/if}}
+${SIGNATURE_HTML}`,
+  },
+  "payment-received": {
+    subject: "Zahlung erhalten - {{campaignName}}",
+    body: `<p>Hallo {{firstName}} {{lastName}},</p>
+
+<p>vielen Dank, wir haben Ihre Online-Zahlung erhalten.</p>
+${ORDER_DETAILS_HTML}
+
+{{#if paidAmount}}<p style="margin-top: 20px;">Bezahlt: {{paidAmount}}</p>{{/if}}
+{{#if openAmount}}<p>Noch offen: {{openAmount}}</p>{{/if}}
+${SIGNATURE_HTML}`,
+  },
+  "ready-for-pickup": {
+    subject: "Ihre Bestellung ist abholbereit - {{campaignName}}",
+    body: `<p>Hallo {{firstName}} {{lastName}},</p>
+
+<p>gute Nachrichten: Die Artikel Ihrer Bestellung sind eingetroffen und können abgeholt werden.</p>
+
+<div style="margin: 20px 0; padding: 20px; background: #ecfdf5; border-radius: 8px; border: 1px solid #a7f3d0;">
+  <p style="margin: 5px 0; color: #166534;"><strong>Abholort:</strong> {{pickupLocation}}</p>
+  <p style="margin: 5px 0; color: #166534;"><strong>Abholzeit:</strong> {{pickupTime}}</p>
+  {{#if openAmount}}<p style="margin: 5px 0; color: #166534;"><strong>Bei Abholung zu zahlen:</strong> {{openAmount}}</p>{{/if}}
+</div>
+${ORDER_DETAILS_HTML}
+${SIGNATURE_HTML}`,
+  },
+  "cancelled": {
+    subject: "Ihre Bestellung wurde storniert - {{campaignName}}",
+    body: `<p>Hallo {{firstName}} {{lastName}},</p>
+
+<p>Ihre folgende Bestellung wurde storniert. Sie müssen nichts weiter tun.</p>
+${ORDER_DETAILS_HTML}
+{{#if paidAmount}}<p style="margin-top: 20px;">Bereits bezahlte {{paidAmount}} werden Ihnen erstattet.</p>{{/if}}
+${SIGNATURE_HTML}`,
+  },
+};
+
+// Sample data for the preview and test emails in the admin area
+export const SAMPLE_ORDER: Order = {
+  id: "a1b2c3d4-0000-4000-8000-000000000000",
+  campaignId: "sample",
+  campaignName: "Trainingsanzüge Saison 2025/26",
+  email: "max.mustermann@example.com",
+  firstName: "Max",
+  lastName: "Mustermann",
+  items: [
+    {
+      productId: "sample-1",
+      productName: "JAKO Trainingsjacke",
+      category: "Jacken",
+      size: "152",
+      quantity: 1,
+      withInitials: true,
+      initialsText: "MM",
+      personalization: [{ fieldId: "sample-number", label: "Rückennummer", value: "10" }],
+      unitPrice: 39.95,
+      initialsPrice: 3,
+      personalizationPrice: 2,
+      totalPrice: 44.95,
+    },
+    {
+      productId: "sample-2",
+      productName: "JAKO T-Shirt",
+      variantId: "sample-variant",
+      variantName: "grün",
+      category: "T-Shirts",
+      size: "M",
+      quantity: 2,
+      withInitials: false,
+      unitPrice: 19.95,
+      initialsPrice: 0,
+      totalPrice: 39.9,
+    },
+  ],
+  totalAmount: 84.85,
+  status: "delivered",
+  paidAmount: 0,
+  accessToken: "beispiel",
+  createdAt: new Date().toISOString(),
+};
+
+export const SAMPLE_CONTEXT: EmailContext = {
+  pickup: {
+    pickupLocation: "Vereinsheim, Sportplatz 1",
+    pickupTime: "Samstag, 10:00 - 12:00 Uhr",
+  },
+  orderLink: "https://example.com/my-order/beispiel",
+  bankAccount: {
+    accountHolder: "TSV Beispielverein e.V.",
+    iban: "DE89370400440532013000",
+  },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderItemsTable(order: Order): string {
+  const itemsHtml = order.items
+    .map(
+      (item) => `
+      <tr>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${escapeHtml(formatOrderItemName(item))}${
+          item.wearerName
+            ? `<br><span style="font-size: 12px; color: #666;">für ${escapeHtml(item.wearerName)}</span>`
+            : ""
+        }${
+          item.personalization?.length
+            ? `<br><span style="font-size: 12px; color: #666;">${escapeHtml(formatPersonalization(item.personalization))}</span>`
+            : ""
+        }</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${escapeHtml(item.size)}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${item.quantity}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5;">${item.withInitials ? escapeHtml(item.initialsText || "Ja") : "-"}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e5e5e5; text-align: right;">${formatPrice(item.totalPrice)}</td>
+      </tr>
+    `
+    )
+    .join("");
+
+  return `
+        <table style="width: 100%; border-collapse: collapse; background: white; border-radius: 8px; overflow: hidden; border: 1px solid #e5e5e5;">
+          <thead>
+            <tr style="background: #f3f4f6;">
+              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Produkt</th>
+              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Größe</th>
+              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Anzahl</th>
+              <th style="padding: 12px 8px; text-align: left; font-weight: 600;">Initialien</th>
+              <th style="padding: 12px 8px; text-align: right; font-weight: 600;">Preis</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${itemsHtml}
+          </tbody>
+          <tfoot>
+            <tr style="background: #f3f4f6;">
+              <td colspan="4" style="padding: 12px 8px; font-weight: 600;">Gesamtbetrag</td>
+              <td style="padding: 12px 8px; text-align: right; font-weight: 600; color: #16a34a; font-size: 18px;">${formatPrice(order.totalAmount)}</td>
+            </tr>
+          </tfoot>
+        </table>
+  `;
+}
+
+function describePayment(order: Order, openAmount: number): string {
+  if (openAmount <= 0 && order.totalAmount > 0) {
+    return "Ihre Bestellung ist bereits vollständig bezahlt.";
+  }
+  switch (order.paymentState) {
+    case "pending":
+      return "Sie haben die Online-Zahlung gewählt. Falls Sie sie noch nicht abgeschlossen haben, können Sie sie über den Link unten nachholen.";
+    case "failed":
+    case "cancelled":
+      return "Die Online-Zahlung wurde nicht abgeschlossen. Sie können sie über den Link unten erneut starten oder bei Abholung bezahlen.";
+    default:
+      return "Die Bezahlung erfolgt bei Abholung der Bestellung.";
+  }
+}
+
+// Values for the placeholders listed in EMAIL_TEMPLATE_PLACEHOLDERS
+export function buildTemplateValues(order: Order, context: EmailContext = {}): Record<string, string> {
+  const openAmount = getOpenAmount(order);
+  // The self-service page lets the customer retry an unfinished online payment
+  const paymentPending = openAmount > 0 && !!order.paymentState && order.paymentState !== "paid";
+  // Transfer details only while something is open
+  const transferAccount = openAmount > 0 && order.status !== "cancelled" ? context.bankAccount : undefined;
+  return {
+    orderNumber: getOrderNumber(order),
+    campaignName: order.campaignName,
+    firstName: order.firstName,
+    lastName: order.lastName,
+    email: order.email,
+    orderDate: new Date(order.createdAt).toLocaleDateString("de-DE", {
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }),
+    itemsTable: renderItemsTable(order),
+    totalAmount: formatPrice(order.totalAmount),
+    paidAmount: order.paidAmount > 0 ? formatPrice(order.paidAmount) : "",
+    openAmount: openAmount > 0 ? formatPrice(openAmount) : "",
+    paymentNote: describePayment(order, openAmount),
+    paymentLink: paymentPending ? context.orderLink ?? "" : "",
+    paymentReference: formatPaymentReference(getPaymentReference(order)),
+    accountHolder: transferAccount?.accountHolder ?? "",
+    iban: transferAccount ? formatIban(transferAccount.iban) : "",
+    girocodeUrl: transferAccount ? context.girocodeUrl ?? "" : "",
+    pickupLocation: context.pickup?.pickupLocation ?? "",
+    pickupTime: context.pickup?.pickupTime ?? "",
+    orderLink: context.orderLink ?? "",
+  };
+}
+
+// Replaces {{name}} and {{#if name}}...{{/if}}. Values are HTML-escaped in
+// bodies, except the pre-rendered item table; unknown placeholders stay visible.
+export function renderTemplate(template: string, values: Record<string, string>, html: boolean): string {
+  const withSections = template.replace(
+    /\{\{#if (\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g,
+    (_match, key: string, content: string) => (Object.hasOwn(values, key) && values[key] ? content : "")
+  );
+
+  return withSections.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
+    if (!Object.hasOwn(values, key)) return match;
+    if (!html) return values[key];
+    return key === "itemsTable" ? values[key] : escapeHtml(values[key]);
+  });
+}
+
+export async function getEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplate> {
+  const stored = await dbStorage.getEmailTemplate(key);
+  if (stored) {
+    return { key, ...stored, isDefault: false };
+  }
+  return { key, ...DEFAULT_EMAIL_TEMPLATES[key], isDefault: true };
+}
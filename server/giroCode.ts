@@ -0,0 +1,34 @@
+import QRCode from "qrcode";
+import { formatPaymentReference, type TransferDetails } from "@shared/schema";
+
+/*
+ * GiroCode (EPC069-12 "SEPA Credit Transfer" QR code): banking apps fill in
+ * recipient, IBAN, amount and reference when the customer scans it.
+ */
+
+// One field per line; the structured reference stays empty so that apps show
+// the RF reference as remittance text, which every bank passes on unchanged
+export function buildGiroCodePayload(transfer: TransferDetails): string {
+  return [
+    "BCD",
+    "002",
+    "1", // UTF-8
+    "SCT",
+    transfer.bic ?? "",
+    transfer.accountHolder.slice(0, 70),
+    transfer.iban,
+    `EUR${transfer.amount.toFixed(2)}`,
+    "", // Purpose code
+    "", // Structured reference
+    formatPaymentReference(transfer.reference),
+  ].join("\n");
+}
+
+export function renderGiroCode(transfer: TransferDetails): Promise<Buffer> {
+  return QRCode.toBuffer(buildGiroCodePayload(transfer), {
+    errorCorrectionLevel: "M", // Required by the EPC guideline
+    type: "png",
+    margin: 2,
+    width: 240,
+  });
+}
@@ -7,6 +7,10 @@ import { createServer } from "http";
 const app = express();
 const httpServer = createServer(app);
 
+// Deployed behind one reverse proxy; req.ip is then the client's address,
+// which the access code attempt limit is keyed by
+app.set("trust proxy", 1);
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -15,7 +19,8 @@ declare module "http" {
 
 declare module "express-session" {
   interface SessionData {
-    isAdmin: boolean;
+    userId: string;
+    authenticatedAt: number; // Epoch ms of login, compared with the user's password change
   }
 }
 
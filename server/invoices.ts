@@ -0,0 +1,170 @@
+import {
+  PAYMENT_METHOD_LABELS,
+  formatInvoiceNumber,
+  formatOrderItemName,
+  formatPersonalization,
+  formatPrice,
+  getOpenAmount,
+  getOrderNumber,
+  type Invoice,
+  type InvoiceIssuer,
+  type InvoiceOrder,
+  type InvoiceSnapshot,
+  type Order,
+  type OrderItem,
+} from "@shared/schema";
+import { getMailSender } from "./mailTransport";
+import {
+  PAGE_MARGIN,
+  contentWidth,
+  createPdfDocument,
+  drawTitle,
+  drawTable,
+  drawPageFooters,
+  ensureSpace,
+  formatPdfDate,
+  pdfToBuffer,
+} from "./pdf";
+
+/*
+ * Invoices (receipts) for orders, e.g. for reimbursement by an employer or the
+ * Förderverein. The number is assigned once per order, together with a snapshot of
+ * the order's items and payments and the issuer data the PDF is rendered from, so
+ * an issued invoice never changes. Issuer data comes from environment:
+ *
+ *   INVOICE_ISSUER_NAME        club name (default: MAIL_FROM_NAME)
+ *   INVOICE_ISSUER_ADDRESS     address lines, separated by "|"
+ *   INVOICE_TAX_NUMBER         optional Steuernummer or USt-IdNr.
+ *   INVOICE_TAX_NOTE           note below the totals (default: no VAT per § 19 UStG)
+ *   INVOICE_WITH_CONFIRMATION  "true" attaches the invoice to the order confirmation
+ */
+
+const DEFAULT_TAX_NOTE = "Gemäß § 19 UStG wird keine Umsatzsteuer berechnet.";
+
+export function getInvoiceIssuer(): InvoiceIssuer {
+  return {
+    name: process.env.INVOICE_ISSUER_NAME || getMailSender().name,
+    addressLines: (process.env.INVOICE_ISSUER_ADDRESS ?? "")
+      .split("|")
+      .map((line) => line.trim())
+      .filter(Boolean),
+    taxNumber: process.env.INVOICE_TAX_NUMBER || undefined,
+    taxNote: process.env.INVOICE_TAX_NOTE || DEFAULT_TAX_NOTE,
+  };
+}
+
+export function createInvoiceSnapshot(order: Order, issuer = getInvoiceIssuer()): InvoiceSnapshot {
+  return {
+    issuer,
+    order: {
+      id: order.id,
+      firstName: order.firstName,
+      lastName: order.lastName,
+      email: order.email,
+      campaignName: order.campaignName,
+      items: order.items,
+      totalAmount: order.totalAmount,
+      paidAmount: order.paidAmount,
+      paymentMethod: order.paymentMethod,
+      paidAt: order.paidAt,
+      createdAt: order.createdAt,
+    },
+  };
+}
+
+export function isInvoiceWithConfirmation(): boolean {
+  return process.env.INVOICE_WITH_CONFIRMATION === "true";
+}
+
+export function invoiceFileName(invoice: Invoice): string {
+  return `rechnung-${formatInvoiceNumber(invoice.number).toLowerCase()}.pdf`;
+}
+
+// Product name with wearer, initials and personalization on further lines
+function describeItem(item: OrderItem): string {
+  const lines = [formatOrderItemName(item)];
+  if (item.wearerName) lines.push(`Für: ${item.wearerName}`);
+  if (item.withInitials && item.initialsText) lines.push(`Initialen: ${item.initialsText}`);
+  const personalization = formatPersonalization(item.personalization);
+  if (personalization) lines.push(personalization);
+  return lines.join("\n");
+}
+
+function drawAddresses(doc: PDFKit.PDFDocument, issuer: InvoiceIssuer, order: InvoiceOrder): void {
+  const top = doc.y;
+  const width = contentWidth(doc) / 2;
+  doc.font("Helvetica-Bold").fontSize(10).text(issuer.name, PAGE_MARGIN + width, top, { width, align: "right" });
+  doc.font("Helvetica").fontSize(9);
+  for (const line of issuer.addressLines) {
+    doc.text(line, { width, align: "right" });
+  }
+  if (issuer.taxNumber) {
+    doc.text(`Steuernummer: ${issuer.taxNumber}`, { width, align: "right" });
+  }
+  const issuerBottom = doc.y;
+
+  doc.font("Helvetica").fontSize(10).text(`${order.firstName} ${order.lastName}`, PAGE_MARGIN, top, { width });
+  doc.fontSize(9).fillColor("#555555").text(order.email, { width }).fillColor("#111111");
+
+  doc.x = PAGE_MARGIN;
+  doc.y = Math.max(issuerBottom, doc.y) + 30;
+}
+
+function drawPayment(doc: PDFKit.PDFDocument, order: InvoiceOrder): void {
+  ensureSpace(doc, 60);
+  const openAmount = getOpenAmount(order);
+  doc.font("Helvetica").fontSize(10);
+  if (openAmount <= 0 && order.paidAmount > 0) {
+    const method = order.paymentMethod ? ` (${PAYMENT_METHOD_LABELS[order.paymentMethod]})` : "";
+    const date = order.paidAt ? ` am ${formatPdfDate(order.paidAt)}` : "";
+    doc.text(`Der Betrag von ${formatPrice(order.paidAmount)} wurde${date} dankend erhalten${method}.`, PAGE_MARGIN, doc.y);
+  } else {
+    if (order.paidAmount > 0) {
+      doc.text(`Bereits bezahlt: ${formatPrice(order.paidAmount)}`, PAGE_MARGIN, doc.y);
+    }
+    doc.font("Helvetica-Bold").text(`Noch zu zahlen: ${formatPrice(openAmount)}`, PAGE_MARGIN, doc.y);
+  }
+  doc.moveDown(1.5);
+}
+
+export async function buildInvoicePdf(invoice: Invoice, { issuer, order }: InvoiceSnapshot): Promise<Buffer> {
+  const number = formatInvoiceNumber(invoice.number);
+  const doc = createPdfDocument(`Rechnung ${number}`);
+
+  drawAddresses(doc, issuer, order);
+  drawTitle(
+    doc,
+    `Rechnung ${number}`,
+    `Rechnungsdatum ${formatPdfDate(invoice.issuedAt)} · Bestellnummer ${getOrderNumber(order)} vom ${formatPdfDate(order.createdAt)} · ${order.campaignName}`,
+  );
+
+  drawTable(
+    doc,
+    [
+      { header: "Pos.", width: 30 },
+      { header: "Artikel", width: 195 },
+      { header: "Größe", width: 50 },
+      { header: "Anzahl", width: 50, align: "right" },
+      { header: "Einzelpreis", width: 85, align: "right" },
+      { header: "Gesamt", width: 85, align: "right" },
+    ],
+    order.items.map((item, index) => [
+      String(index + 1),
+      describeItem(item),
+      item.size,
+      item.quantity.toString(),
+      formatPrice(item.totalPrice / item.quantity),
+      formatPrice(item.totalPrice),
+    ]),
+    { footer: ["", "Gesamtbetrag", "", "", "", formatPrice(order.totalAmount)] },
+  );
+
+  drawPayment(doc, order);
+  doc.font("Helvetica").fontSize(9).fillColor("#555555").text(issuer.taxNote, PAGE_MARGIN, doc.y, {
+    width: contentWidth(doc),
+  });
+  doc.fillColor("#111111");
+
+  drawPageFooters(doc, `Rechnung ${number}`);
+  return pdfToBuffer(doc);
+}
@@ -0,0 +1,184 @@
+import { Resend } from "resend";
+import nodemailer from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+/*
+ * Outgoing mail is sent through one transport, selected via environment:
+ *
+ *   MAIL_TRANSPORT     resend | smtp | file (default: resend if RESEND_API_KEY is set, otherwise disabled)
+ *   RESEND_API_KEY     API key for the Resend transport
+ *   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit TLS), SMTP_USER, SMTP_PASSWORD
+ *   MAIL_OUTBOX_DIR    target directory of the file transport (default: ./mail-outbox)
+ *   MAIL_FROM_NAME     sender name (default: TSV Bestellportal)
+ *   MAIL_FROM_ADDRESS  sender address (default: bestellung@resend.dev)
+ *   MAIL_REPLY_TO      optional reply-to address
+ */
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+export interface EmailResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<EmailResult>;
+}
+
+export interface MailSender {
+  name: string;
+  address: string;
+  replyTo?: string;
+}
+
+export function getMailSender(): MailSender {
+  return {
+    name: process.env.MAIL_FROM_NAME || "TSV Bestellportal",
+    address: process.env.MAIL_FROM_ADDRESS || "bestellung@resend.dev",
+    replyTo: process.env.MAIL_REPLY_TO || undefined,
+  };
+}
+
+function formatFrom(sender: MailSender): string {
+  return `${sender.name} <${sender.address}>`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function createResendTransport(apiKey: string): MailTransport {
+  const resend = new Resend(apiKey);
+  return {
+    name: "resend",
+    async send(message) {
+      const sender = getMailSender();
+      try {
+        const result = await resend.emails.send({
+          from: formatFrom(sender),
+          to: message.to,
+          replyTo: sender.replyTo,
+          subject: message.subject,
+          html: message.html,
+          attachments: message.attachments?.map(({ filename, content }) => ({ filename, content })),
+        });
+        if (result.error) {
+          return { success: false, error: result.error.message };
+        }
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const sender = getMailSender();
+      try {
+        await transporter.sendMail({
+          from: formatFrom(sender),
+          to: message.to,
+          replyTo: sender.replyTo,
+          subject: message.subject,
+          html: message.html,
+          attachments: message.attachments,
+        });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+// Writes every mail as .eml file instead of sending it (development/testing)
+function createFileTransport(): MailTransport {
+  const outboxDir = path.resolve(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: "file",
+    async send(message) {
+      const sender = getMailSender();
+      try {
+        const info = await transporter.sendMail({
+          from: formatFrom(sender),
+          to: message.to,
+          replyTo: sender.replyTo,
+          subject: message.subject,
+          html: message.html,
+          attachments: message.attachments,
+        });
+        await mkdir(outboxDir, { recursive: true });
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const file = path.join(outboxDir, `${timestamp}-${randomUUID().slice(0, 8)}.eml`);
+        await writeFile(file, info.message);
+        console.log(`E-Mail in Outbox geschrieben: ${file}`);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+function createTransportFromEnv(): MailTransport | null {
+  const configured = process.env.MAIL_TRANSPORT?.toLowerCase();
+
+  switch (configured) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        console.warn("MAIL_TRANSPORT=smtp, aber SMTP_HOST ist nicht gesetzt - E-Mail-Versand deaktiviert");
+        return null;
+      }
+      return createSmtpTransport();
+    case "file":
+      return createFileTransport();
+    case "resend":
+    case undefined:
+    case "":
+      return process.env.RESEND_API_KEY ? createResendTransport(process.env.RESEND_API_KEY) : null;
+    default:
+      console.warn(`Unbekannter MAIL_TRANSPORT "${configured}" - E-Mail-Versand deaktiviert`);
+      return null;
+  }
+}
+
+let transport: MailTransport | null | undefined;
+
+// Resolved once on first use; null means mail sending is disabled
+export function getMailTransport(): MailTransport | null {
+  if (transport === undefined) {
+    transport = createTransportFromEnv();
+    console.log(`E-Mail-Transport: ${transport ? transport.name : "deaktiviert"}`);
+  }
+  return transport;
+}
@@ -0,0 +1,346 @@
+import * as XLSX from "xlsx";
+import {
+  TEAMS,
+  TEAM_LABELS,
+  formatOrderItemName,
+  formatPersonalization,
+  getOpenAmount,
+  getOrderNumber,
+  getPaymentStatus,
+  groupItemsByWearer,
+  type Campaign,
+  type Order,
+  type OrderItem,
+  type Product,
+  type Team,
+} from "@shared/schema";
+
+const PRICE_FORMAT = '#,##0.00 "€"';
+const DATE_FORMAT = "dd\\.mm\\.yyyy hh:mm"; // Dots escaped, SheetJS reads "." as decimal point
+
+// One line per product, variant, size, initials text and personalization, as
+// ordered from the supplier
+export interface AggregatedOrderItem {
+  productId: string;
+  productName: string;
+  variantName?: string;
+  brand?: string;
+  category: string;
+  size: string;
+  initialsText?: string;
+  personalization?: string; // Formatted, e.g. "Rückenname: MÜLLER, Nummer: 10"
+  quantity: number;
+}
+
+// Cancelled orders are never exported or printed
+export function exportableOrders(orders: Order[]): Order[] {
+  return orders.filter((order) => order.status !== "cancelled");
+}
+
+// Offered sizes are kept in the order of the product's size set; sizes no
+// longer offered go last
+export function sizeRank(product: Product | undefined, size: string): number {
+  const sizes = product?.availableSizes ?? [];
+  const index = sizes.indexOf(size);
+  return index === -1 ? sizes.length : index;
+}
+
+export function aggregateOrderItems(orders: Order[], products: Product[]): AggregatedOrderItem[] {
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const groups = new Map<string, AggregatedOrderItem>();
+
+  for (const order of exportableOrders(orders)) {
+    for (const item of order.items) {
+      const initialsText = item.withInitials ? item.initialsText || undefined : undefined;
+      const personalization = formatPersonalization(item.personalization) || undefined;
+      const key = [item.productId, item.variantId ?? "", item.size, initialsText ?? "", personalization ?? ""].join("\u0000");
+      const existing = groups.get(key);
+      if (existing) {
+        existing.quantity += item.quantity;
+        continue;
+      }
+      groups.set(key, {
+        productId: item.productId,
+        productName: item.productName,
+        variantName: item.variantName,
+        brand: productsById.get(item.productId)?.brand || undefined,
+        category: item.category,
+        size: item.size,
+        initialsText,
+        personalization,
+        quantity: item.quantity,
+      });
+    }
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      (a.brand ?? "").localeCompare(b.brand ?? "", "de") ||
+      a.productName.localeCompare(b.productName, "de") ||
+      (a.variantName ?? "").localeCompare(b.variantName ?? "", "de") ||
+      sizeRank(productsById.get(a.productId), a.size) - sizeRank(productsById.get(b.productId), b.size) ||
+      (a.initialsText ?? "").localeCompare(b.initialsText ?? "", "de") ||
+      (a.personalization ?? "").localeCompare(b.personalization ?? "", "de", { numeric: true })
+  );
+}
+
+// Semicolon separated, every cell quoted with embedded quotes doubled (RFC 4180)
+export function toCsv(headers: string[], rows: string[][]): string {
+  const escape = (cell: string) => `"${cell.replace(/"/g, '""')}"`;
+  // BOM for Excel UTF-8 compatibility
+  return "\uFEFF" + [headers, ...rows].map((row) => row.map(escape).join(";")).join("\r\n");
+}
+
+export function formatCsvPrice(value: number): string {
+  return value.toFixed(2).replace(".", ",");
+}
+
+// Order lines with their wearer, grouped per wearer within each order
+function orderLines(orders: Order[]): { order: Order; wearerName: string; team?: Team; item: OrderItem }[] {
+  return orders.flatMap((order) =>
+    groupItemsByWearer(order).flatMap(({ wearerName, team, items }) =>
+      items.map((item) => ({ order, wearerName, team, item }))
+    )
+  );
+}
+
+export function buildOrdersCsv(orders: Order[]): string {
+  const headers = [
+    "Bestellnr",
+    "Vorname",
+    "Nachname",
+    "E-Mail",
+    "Träger",
+    "Mannschaft",
+    "Produkt",
+    "Variante",
+    "Kategorie",
+    "Größe",
+    "Initialien",
+    "Personalisierung",
+    "Anzahl",
+    "Einzelpreis",
+    "Gesamtpreis",
+    "Bestelldatum",
+  ];
+
+  const rows = orderLines(exportableOrders(orders)).map(({ order, wearerName, team, item }) => [
+    order.id.slice(0, 8),
+    order.firstName,
+    order.lastName,
+    order.email,
+    wearerName,
+    team ? TEAM_LABELS[team] : "",
+    item.productName,
+    item.variantName ?? "",
+    item.category,
+    item.size,
+    item.withInitials ? item.initialsText || "" : "-",
+    formatPersonalization(item.personalization) || "-",
+    item.quantity.toString(),
+    formatCsvPrice(item.unitPrice),
+    formatCsvPrice(item.totalPrice),
+    new Date(order.createdAt).toLocaleDateString("de-DE"),
+  ]);
+
+  return toCsv(headers, rows);
+}
+
+export type SheetCell = string | number | Date | null;
+
+export function buildSheet(
+  headers: string[],
+  rows: SheetCell[][],
+  options: { widths: number[]; priceColumns?: number[]; footerRows?: number },
+): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet([headers, ...rows], { dateNF: DATE_FORMAT });
+
+  for (const col of options.priceColumns ?? []) {
+    for (let row = 1; row <= rows.length; row++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r: row, c: col })];
+      if (cell && cell.t === "n") cell.z = PRICE_FORMAT;
+    }
+  }
+
+  sheet["!cols"] = options.widths.map((wch) => ({ wch }));
+  // Sum rows at the bottom stay out of the filter range
+  const lastDataRow = rows.length - (options.footerRows ?? 0);
+  sheet["!autofilter"] = {
+    ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: lastDataRow, c: headers.length - 1 } }),
+  };
+  return sheet;
+}
+
+function buildOrderLinesSheet(orders: Order[]): XLSX.WorkSheet {
+  const headers = [
+    "Bestellnr",
+    "Vorname",
+    "Nachname",
+    "E-Mail",
+    "Träger",
+    "Mannschaft",
+    "Produkt",
+    "Variante",
+    "Kategorie",
+    "Größe",
+    "Initialien",
+    "Personalisierung",
+    "Anzahl",
+    "Einzelpreis",
+    "Initialien-Preis",
+    "Personalisierungs-Preis",
+    "Gesamtpreis",
+    "Bestelldatum",
+  ];
+
+  const rows: SheetCell[][] = orderLines(orders).map(({ order, wearerName, team, item }) => [
+    getOrderNumber(order),
+    order.firstName,
+    order.lastName,
+    order.email,
+    wearerName,
+    team ? TEAM_LABELS[team] : null,
+    item.productName,
+    item.variantName ?? null,
+    item.category,
+    item.size,
+    item.withInitials ? item.initialsText || "" : null,
+    formatPersonalization(item.personalization) || null,
+    item.quantity,
+    item.unitPrice,
+    item.withInitials ? item.initialsPrice : 0,
+    item.personalizationPrice ?? 0,
+    item.totalPrice,
+    new Date(order.createdAt),
+  ]);
+
+  return buildSheet(headers, rows, {
+    widths: [10, 14, 16, 28, 20, 14, 28, 14, 14, 8, 14, 28, 8, 12, 14, 20, 12, 17],
+    priceColumns: [13, 14, 15, 16],
+  });
+}
+
+// One row per wearer, by team, for handing out family orders
+function buildWearerSheet(orders: Order[]): XLSX.WorkSheet {
+  const teamRank = (team?: Team) => (team ? TEAMS.indexOf(team) : TEAMS.length);
+  const wearers = orders
+    .flatMap((order) => groupItemsByWearer(order).map((group) => ({ order, ...group })))
+    .sort(
+      (a, b) =>
+        teamRank(a.team) - teamRank(b.team) ||
+        a.wearerName.localeCompare(b.wearerName, "de") ||
+        getOrderNumber(a.order).localeCompare(getOrderNumber(b.order))
+    );
+
+  const headers = ["Träger", "Mannschaft", "Besteller", "Bestellnr", "Artikel", "Anzahl", "Betrag"];
+  const rows: SheetCell[][] = wearers.map(({ order, wearerName, team, items }) => [
+    wearerName,
+    team ? TEAM_LABELS[team] : null,
+    `${order.lastName}, ${order.firstName}`,
+    getOrderNumber(order),
+    items.map((item) => `${item.quantity}× ${formatOrderItemName(item)} (${item.size})`).join(", "),
+    items.reduce((sum, item) => sum + item.quantity, 0),
+    items.reduce((sum, item) => sum + item.totalPrice, 0),
+  ]);
+
+  return buildSheet(headers, rows, { widths: [20, 14, 24, 10, 60, 8, 12], priceColumns: [6] });
+}
+
+function buildSupplierSheet(orders: Order[], products: Product[]): XLSX.WorkSheet {
+  const headers = ["Marke", "Produkt", "Variante", "Kategorie", "Größe", "Initialien", "Personalisierung", "Anzahl"];
+  const rows: SheetCell[][] = aggregateOrderItems(orders, products).map((line) => [
+    line.brand ?? null,
+    line.productName,
+    line.variantName ?? null,
+    line.category,
+    line.size,
+    line.initialsText ?? null,
+    line.personalization ?? null,
+    line.quantity,
+  ]);
+
+  return buildSheet(headers, rows, { widths: [14, 28, 14, 14, 8, 14, 28, 8] });
+}
+
+// One row per customer (by e-mail) for cash collection at pickup
+function buildCustomerSheet(orders: Order[]): XLSX.WorkSheet {
+  interface CustomerTotals {
+    firstName: string;
+    lastName: string;
+    email: string;
+    orderNumbers: string[];
+    items: number;
+    total: number;
+    paid: number;
+  }
+
+  const customers = new Map<string, CustomerTotals>();
+  for (const order of orders) {
+    const key = order.email.trim().toLowerCase();
+    const customer = customers.get(key) ?? {
+      firstName: order.firstName,
+      lastName: order.lastName,
+      email: order.email,
+      orderNumbers: [],
+      items: 0,
+      total: 0,
+      paid: 0,
+    };
+    customer.orderNumbers.push(getOrderNumber(order));
+    customer.items += order.items.reduce((sum, item) => sum + item.quantity, 0);
+    customer.total += order.totalAmount;
+    customer.paid += order.paidAmount;
+    customers.set(key, customer);
+  }
+
+  const sorted = Array.from(customers.values()).sort(
+    (a, b) => a.lastName.localeCompare(b.lastName, "de") || a.firstName.localeCompare(b.firstName, "de")
+  );
+
+  const headers = ["Nachname", "Vorname", "E-Mail", "Bestellnummern", "Artikel", "Gesamtbetrag", "Bezahlt", "Offen", "Status"];
+  const rows: SheetCell[][] = sorted.map((c) => [
+    c.lastName,
+    c.firstName,
+    c.email,
+    c.orderNumbers.join(", "),
+    c.items,
+    c.total,
+    c.paid,
+    getOpenAmount({ totalAmount: c.total, paidAmount: c.paid }),
+    getPaymentStatus({ totalAmount: c.total, paidAmount: c.paid }) === "paid" ? "bezahlt" : "",
+  ]);
+
+  const sumOf = (pick: (c: CustomerTotals) => number) => sorted.reduce((sum, c) => sum + pick(c), 0);
+  rows.push([]);
+  rows.push([
+    "Summe",
+    null,
+    null,
+    null,
+    sumOf((c) => c.items),
+    sumOf((c) => c.total),
+    sumOf((c) => c.paid),
+    sumOf((c) => getOpenAmount({ totalAmount: c.total, paidAmount: c.paid })),
+    null,
+  ]);
+
+  return buildSheet(headers, rows, {
+    widths: [16, 14, 28, 20, 8, 14, 12, 12, 10],
+    priceColumns: [5, 6, 7],
+    footerRows: 2,
+  });
+}
+
+export function buildOrdersWorkbook(orders: Order[], products: Product[]): Buffer {
+  const exportable = exportableOrders(orders);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildOrderLinesSheet(exportable), "Bestellpositionen");
+  XLSX.utils.book_append_sheet(workbook, buildSupplierSheet(exportable, products), "Lieferantenbestellung");
+  XLSX.utils.book_append_sheet(workbook, buildCustomerSheet(exportable), "Kunden");
+  XLSX.utils.book_append_sheet(workbook, buildWearerSheet(exportable), "Träger");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+export function exportFileName(prefix: string, campaign: Campaign, extension: string): string {
+  return `${prefix}-${campaign.name.replace(/[^a-zA-Z0-9]/g, "_")}.${extension}`;
+}
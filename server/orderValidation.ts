@@ -0,0 +1,268 @@
+import {
+  getCampaignDeadline,
+  getProductVariant,
+  getUnitPrice,
+  getPersonalizationPrice,
+  formatPrice,
+  normalizeAccessCode,
+  getItemTeam,
+  getItemWearer,
+  TEAM_LABELS,
+  type Campaign,
+  type PublicCampaign,
+  type Order,
+  type OrderItem,
+  type PersonalizationField,
+  type PersonalizationValue,
+  type Product,
+} from "@shared/schema";
+
+export class OrderValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderValidationError";
+    Object.setPrototypeOf(this, OrderValidationError.prototype);
+  }
+}
+
+// Thrown when a code-protected campaign is accessed without the right access code
+export class CampaignAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CampaignAccessError";
+    Object.setPrototypeOf(this, CampaignAccessError.prototype);
+  }
+}
+
+// The order changed since it was checked: it went to the supplier or is (being) paid
+export class OrderLockedError extends Error {
+  constructor(public readonly order: Order) {
+    super("Bestellung kann nicht mehr geändert werden");
+    this.name = "OrderLockedError";
+    Object.setPrototypeOf(this, OrderLockedError.prototype);
+  }
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+// Throws unless the campaign is active and `now` lies within its start and end day
+export function assertCampaignOpen<T extends PublicCampaign>(
+  campaign: T | undefined,
+  now: Date = new Date(),
+): asserts campaign is T {
+  if (!campaign) {
+    throw new OrderValidationError("Die Sammelbestellung wurde nicht gefunden");
+  }
+  if (!campaign.active) {
+    throw new OrderValidationError(`Die Sammelbestellung "${campaign.name}" ist nicht aktiv`);
+  }
+  const start = new Date(`${campaign.startDate.slice(0, 10)}T00:00:00`);
+  if (now < start) {
+    throw new OrderValidationError(`Die Sammelbestellung "${campaign.name}" hat noch nicht begonnen`);
+  }
+  if (now > getCampaignDeadline(campaign)) {
+    throw new OrderValidationError(`Die Sammelbestellung "${campaign.name}" ist bereits beendet`);
+  }
+}
+
+// Public and link-only campaigns are open to everyone with the link, code-protected
+// ones need the matching access code
+export function assertCampaignAccess(campaign: Campaign, accessCode: string | undefined): void {
+  if (campaign.visibility !== "code") return;
+  if (!accessCode?.trim()) {
+    throw new CampaignAccessError(`Für "${campaign.name}" ist ein Zugangscode erforderlich`);
+  }
+  if (!campaign.accessCode || normalizeAccessCode(accessCode) !== campaign.accessCode) {
+    throw new CampaignAccessError("Der Zugangscode ist ungültig");
+  }
+}
+
+// Numbers are stored without leading zeros, so "07" and "7" are the same jersey number
+function normalizeFieldValue(field: PersonalizationField, value: string): string {
+  return field.type === "number" && /^-?\d+$/.test(value) ? String(Number(value)) : value;
+}
+
+// Checks the submitted values against the product's personalization fields and
+// returns the filled ones in field order with the current labels
+function validatePersonalization(product: Product, values: PersonalizationValue[] = []): PersonalizationValue[] {
+  for (const value of values) {
+    if (!product.personalizationFields.some((field) => field.id === value.fieldId)) {
+      throw new OrderValidationError(`Die Personalisierung "${value.label}" ist für "${product.name}" nicht mehr verfügbar`);
+    }
+  }
+
+  const result: PersonalizationValue[] = [];
+  for (const field of product.personalizationFields) {
+    const value = values.find((v) => v.fieldId === field.id)?.value.trim() ?? "";
+    if (!value) {
+      if (field.required) {
+        throw new OrderValidationError(`Bitte ${field.label} für "${product.name}" angeben`);
+      }
+      continue;
+    }
+    if (field.type === "text" && field.maxLength !== undefined && value.length > field.maxLength) {
+      throw new OrderValidationError(
+        `${field.label} für "${product.name}" darf höchstens ${field.maxLength} Zeichen lang sein`
+      );
+    }
+    if (field.type === "number") {
+      const number = Number(value);
+      if (!/^-?\d+$/.test(value) ||
+        (field.min !== undefined && number < field.min) ||
+        (field.max !== undefined && number > field.max)) {
+        const range =
+          field.min !== undefined && field.max !== undefined
+            ? ` zwischen ${field.min} und ${field.max}`
+            : field.min !== undefined
+              ? ` ab ${field.min}`
+              : field.max !== undefined
+                ? ` bis ${field.max}`
+                : "";
+        throw new OrderValidationError(`${field.label} für "${product.name}" muss eine ganze Zahl${range} sein`);
+      }
+    }
+    if (field.type === "select" && !field.options?.includes(value)) {
+      throw new OrderValidationError(`Ungültige Auswahl für ${field.label} bei "${product.name}"`);
+    }
+    result.push({ fieldId: field.id, label: field.label, value: normalizeFieldValue(field, value) });
+  }
+  return result;
+}
+
+/**
+ * Validates submitted order items against the campaign and the current product
+ * data and returns them with server-side prices and product snapshots. Prices
+ * sent by the client must match; a mismatch usually means the product was
+ * changed while the order form was open.
+ */
+export function priceOrderItems(campaign: PublicCampaign, items: OrderItem[], products: Product[]): OrderItem[] {
+  const productsById = new Map(products.map((p) => [p.id, p]));
+
+  return items.map((item) => {
+    const product = productsById.get(item.productId);
+    if (!product) {
+      throw new OrderValidationError(`Das Produkt "${item.productName}" existiert nicht mehr`);
+    }
+    if (!campaign.productIds.includes(product.id)) {
+      throw new OrderValidationError(`"${product.name}" ist in dieser Sammelbestellung nicht enthalten`);
+    }
+    if (!product.active) {
+      throw new OrderValidationError(`"${product.name}" ist nicht mehr erhältlich`);
+    }
+    if (!product.availableSizes.includes(item.size)) {
+      throw new OrderValidationError(`Größe ${item.size} ist für "${product.name}" nicht verfügbar`);
+    }
+    const variant = getProductVariant(product, item.variantId);
+    if (product.variants.length > 0 && !variant) {
+      throw new OrderValidationError(
+        item.variantId
+          ? `Die gewählte Variante von "${product.name}" ist nicht mehr verfügbar`
+          : `Bitte eine Variante für "${product.name}" wählen`
+      );
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new OrderValidationError(`Ungültige Anzahl für "${product.name}"`);
+    }
+    if (item.withInitials && !product.initialsEnabled) {
+      throw new OrderValidationError(`"${product.name}" kann nicht mit ${product.initialsLabel} bestellt werden`);
+    }
+    const initialsText = item.withInitials ? item.initialsText?.trim() : undefined;
+    if (item.withInitials && !initialsText) {
+      throw new OrderValidationError(`Bitte ${product.initialsLabel} für "${product.name}" angeben`);
+    }
+
+    const personalization = validatePersonalization(product, item.personalization);
+
+    const unitPrice = getUnitPrice(product, item.size, variant?.id);
+    const initialsPrice = product.initialsPrice;
+    const personalizationPrice = getPersonalizationPrice(product, personalization);
+    const totalPrice = (unitPrice + (item.withInitials ? initialsPrice : 0) + personalizationPrice) * item.quantity;
+
+    const priceMismatch =
+      toCents(item.unitPrice) !== toCents(unitPrice) ||
+      (item.withInitials && toCents(item.initialsPrice) !== toCents(initialsPrice)) ||
+      (item.personalizationPrice !== undefined && toCents(item.personalizationPrice) !== toCents(personalizationPrice)) ||
+      toCents(item.totalPrice) !== toCents(totalPrice);
+    if (priceMismatch) {
+      throw new OrderValidationError(
+        `Der Preis für "${product.name}" hat sich geändert (aktuell ${formatPrice(totalPrice)}). Bitte lade die Seite neu.`
+      );
+    }
+
+    return {
+      productId: product.id,
+      productName: product.name,
+      category: product.category,
+      size: item.size,
+      variantId: variant?.id,
+      variantName: variant?.name,
+      quantity: item.quantity,
+      withInitials: item.withInitials,
+      initialsText,
+      personalization,
+      unitPrice,
+      initialsPrice,
+      personalizationPrice,
+      totalPrice: Math.round(totalPrice * 100) / 100,
+      wearerName: item.wearerName?.trim() || undefined,
+      // In a team campaign every item belongs to the campaign's team
+      team: campaign.team ? undefined : item.team,
+    };
+  });
+}
+
+/**
+ * Numbers of fields marked unique per team (e.g. jersey numbers) must not be
+ * taken by another wearer of the same team in the campaign, neither in another
+ * order nor in the same family order. `order` is the order being created or
+ * changed; `campaignOrders` are all orders of the campaign.
+ */
+export function assertUniquePersonalization(
+  order: Pick<Order, "team" | "firstName" | "lastName"> & { id?: string },
+  items: OrderItem[],
+  products: Product[],
+  campaignOrders: Order[],
+): void {
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const otherOrders = campaignOrders.filter((other) => other.id !== order.id && other.status !== "cancelled");
+  // Older orders may still hold numbers with leading zeros
+  const hasValue = (item: OrderItem, field: PersonalizationField, value: string) =>
+    (item.personalization ?? []).some(
+      (v) => v.fieldId === field.id && normalizeFieldValue(field, v.value) === normalizeFieldValue(field, value)
+    );
+
+  for (const item of items) {
+    const product = productsById.get(item.productId);
+    const team = getItemTeam(item, order);
+    for (const value of item.personalization ?? []) {
+      const field = product?.personalizationFields.find((f) => f.id === value.fieldId);
+      if (!product || !field?.uniquePerTeam) continue;
+      if (!team) {
+        throw new OrderValidationError(`Bitte eine Mannschaft angeben, ${field.label} wird je Mannschaft vergeben`);
+      }
+      const takenByOtherOrder = otherOrders.some((other) =>
+        other.items.some(
+          (otherItem) =>
+            otherItem.productId === product.id &&
+            getItemTeam(otherItem, other) === team &&
+            hasValue(otherItem, field, value.value)
+        )
+      );
+      const takenBySibling = items.some(
+        (otherItem) =>
+          otherItem !== item &&
+          otherItem.productId === product.id &&
+          getItemTeam(otherItem, order) === team &&
+          getItemWearer(otherItem, order).toLowerCase() !== getItemWearer(item, order).toLowerCase() &&
+          hasValue(otherItem, field, value.value)
+      );
+      if (takenByOtherOrder || takenBySibling) {
+        throw new OrderValidationError(
+          `${field.label} ${value.value} ist bei "${product.name}" in der Mannschaft ${TEAM_LABELS[team]} bereits vergeben`
+        );
+      }
+    }
+  }
+}
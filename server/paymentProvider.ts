@@ -0,0 +1,458 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { getOrderNumber, type OnlinePaymentState, type Order, type PaymentProviderName } from "@shared/schema";
+
+/*
+ * Online prepayment goes through one provider, selected via environment:
+ *
+ *   PAYMENT_PROVIDER       stripe | paypal | fake (default: disabled)
+ *   STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET
+ *   PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET, PAYPAL_WEBHOOK_ID
+ *   PAYPAL_API_BASE        default: https://api-m.sandbox.paypal.com
+ *
+ * Providers report the result to /api/payments/webhook/<provider>. The fake
+ * provider needs no account: its checkout page under /api/payments/fake/ lets
+ * you choose the outcome, and its webhook accepts unsigned JSON
+ * ({ reference, state, amount }) - for development and tests only.
+ */
+
+export interface CheckoutRequest {
+  order: Order;
+  amount: number; // EUR
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  reference: string; // Provider id of the checkout, stored on the order
+  checkoutUrl: string;
+}
+
+export interface PaymentEvent {
+  reference: string;
+  state: Exclude<OnlinePaymentState, "pending">;
+  amount?: number; // Paid amount in EUR
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: Buffer;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Verifies the webhook call; null for events that need no action
+  parseWebhook(request: WebhookRequest): Promise<PaymentEvent | null>;
+}
+
+// The provider rejected a request or could not be reached
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentProviderError";
+    Object.setPrototypeOf(this, PaymentProviderError.prototype);
+  }
+}
+
+// A webhook call that is not signed by the provider or cannot be read
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentWebhookError";
+    Object.setPrototypeOf(this, PaymentWebhookError.prototype);
+  }
+}
+
+// A payment result for a checkout no order knows; answered with an error so the
+// provider delivers it again instead of the payment getting lost
+export class UnknownPaymentError extends Error {
+  constructor(reference: string) {
+    super(`Zahlung ${reference} gehört zu keiner Bestellung`);
+    this.name = "UnknownPaymentError";
+    Object.setPrototypeOf(this, UnknownPaymentError.prototype);
+  }
+}
+
+// The provider reports another amount than the checkout was opened for; nothing
+// is booked, the payment has to be checked by hand
+export class PaymentAmountError extends Error {
+  constructor(reference: string, expected: number, reported: number) {
+    super(`Zahlung ${reference}: gemeldeter Betrag ${reported.toFixed(2)} statt ${expected.toFixed(2)}`);
+    this.name = "PaymentAmountError";
+    Object.setPrototypeOf(this, PaymentAmountError.prototype);
+  }
+}
+
+function header(request: WebhookRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseJson(rawBody: Buffer): unknown {
+  try {
+    return JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    throw new PaymentWebhookError("Ungültiger Inhalt");
+  }
+}
+
+// Webhook body in the shape the provider documents; only the fields read here
+function parseWebhookBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new PaymentWebhookError("Ungültiger Inhalt");
+  }
+  return result.data;
+}
+
+// Provider API answer; an unexpected shape counts as a failed request
+async function readResponse<T extends z.ZodTypeAny>(
+  response: Response,
+  schema: T,
+): Promise<{ ok: boolean; data: z.infer<T> }> {
+  const result = schema.safeParse(await response.json().catch(() => undefined));
+  if (!result.success) {
+    throw new PaymentProviderError(`Unerwartete Antwort des Zahlungsanbieters (${response.status})`);
+  }
+  return { ok: response.ok, data: result.data };
+}
+
+const stripeErrorSchema = z.object({
+  error: z.object({ message: z.string().optional() }).optional(),
+});
+
+const stripeCheckoutSessionSchema = stripeErrorSchema.extend({
+  id: z.string().optional(),
+  url: z.string().nullish(),
+});
+
+const stripeEventSchema = z.object({
+  type: z.string(),
+  data: z.object({
+    object: z.object({
+      id: z.string(),
+      payment_status: z.string().optional(),
+      amount_total: z.number().nullish(),
+    }),
+  }),
+});
+
+const payPalTokenSchema = z.object({
+  access_token: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+const payPalOrderSchema = z.object({
+  id: z.string().optional(),
+  message: z.string().optional(),
+  links: z.array(z.object({ rel: z.string(), href: z.string() })).optional(),
+});
+
+const payPalCaptureSchema = z.object({
+  purchase_units: z
+    .array(
+      z.object({
+        payments: z
+          .object({
+            captures: z.array(z.object({ status: z.string(), amount: z.object({ value: z.string() }) })).optional(),
+          })
+          .optional(),
+      }),
+    )
+    .optional(),
+});
+
+const payPalVerificationSchema = z.object({
+  verification_status: z.string().optional(),
+});
+
+const payPalEventSchema = z.object({
+  event_type: z.string(),
+  resource: z
+    .object({
+      id: z.string().optional(),
+      amount: z.object({ value: z.string() }).optional(),
+      supplementary_data: z
+        .object({ related_ids: z.object({ order_id: z.string().optional() }).optional() })
+        .optional(),
+    })
+    .default({}),
+});
+
+const fakeEventSchema = z.object({
+  reference: z.string(),
+  state: z.enum(["paid", "failed", "cancelled"]),
+  amount: z.coerce.number().optional(),
+});
+
+function describeCheckout(order: Order): string {
+  return `${order.campaignName} - Bestellung ${getOrderNumber(order)}`;
+}
+
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function verifyStripeSignature(request: WebhookRequest, secret: string): void {
+  const signature = header(request, "stripe-signature");
+  if (!signature) {
+    throw new PaymentWebhookError("Signatur fehlt");
+  }
+  const parts = signature.split(",").map((part) => part.split("="));
+  const timestamp = parts.find(([key]) => key === "t")?.[1];
+  const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+  if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+    throw new PaymentWebhookError("Signatur abgelaufen");
+  }
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${request.rawBody.toString("utf8")}`).digest();
+  const valid = signatures.some((value) => {
+    const actual = Buffer.from(value, "hex");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+  if (!valid) {
+    throw new PaymentWebhookError("Ungültige Signatur");
+  }
+}
+
+function createStripeProvider(secretKey: string, webhookSecret: string): PaymentProvider {
+  return {
+    name: "stripe",
+    async createCheckout({ order, amount, successUrl, cancelUrl }) {
+      const body = new URLSearchParams({
+        mode: "payment",
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        client_reference_id: order.id,
+        customer_email: order.email,
+        locale: "de",
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": "eur",
+        "line_items[0][price_data][unit_amount]": String(Math.round(amount * 100)),
+        "line_items[0][price_data][product_data][name]": describeCheckout(order),
+        "metadata[orderId]": order.id,
+      });
+      const response = await fetch("https://api.stripe.com/v1/checkout/sessions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body,
+      });
+      const { ok, data: session } = await readResponse(response, stripeCheckoutSessionSchema);
+      if (!ok || !session.id || !session.url) {
+        throw new PaymentProviderError(`Stripe: ${session.error?.message ?? response.statusText}`);
+      }
+      return { reference: session.id, checkoutUrl: session.url };
+    },
+    async parseWebhook(request) {
+      verifyStripeSignature(request, webhookSecret);
+      const event = parseWebhookBody(stripeEventSchema, parseJson(request.rawBody));
+      const session = event.data.object;
+      switch (event.type) {
+        case "checkout.session.completed":
+        case "checkout.session.async_payment_succeeded":
+          // Delayed payment methods complete the session before the money arrives
+          return session.payment_status === "paid"
+            ? {
+                reference: session.id,
+                state: "paid",
+                amount: session.amount_total == null ? undefined : session.amount_total / 100,
+              }
+            : null;
+        case "checkout.session.async_payment_failed":
+          return { reference: session.id, state: "failed" };
+        case "checkout.session.expired":
+          return { reference: session.id, state: "cancelled" };
+        default:
+          return null;
+      }
+    },
+  };
+}
+
+function createPayPalProvider(clientId: string, clientSecret: string, webhookId: string): PaymentProvider {
+  const apiBase = (process.env.PAYPAL_API_BASE || "https://api-m.sandbox.paypal.com").replace(/\/$/, "");
+
+  const request = async <T extends z.ZodTypeAny>(
+    path: string,
+    schema: T,
+    body?: unknown,
+  ): Promise<{ ok: boolean; data: z.infer<T> }> => {
+    const tokenResponse = await fetch(`${apiBase}/v1/oauth2/token`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+    });
+    const { ok: tokenOk, data: token } = await readResponse(tokenResponse, payPalTokenSchema);
+    if (!tokenOk || !token.access_token) {
+      throw new PaymentProviderError(`PayPal: ${token.error_description ?? tokenResponse.statusText}`);
+    }
+    const response = await fetch(`${apiBase}${path}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token.access_token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(body ?? {}),
+    });
+    return readResponse(response, schema);
+  };
+
+  return {
+    name: "paypal",
+    async createCheckout({ order, amount, successUrl, cancelUrl }) {
+      const { ok, data } = await request("/v2/checkout/orders", payPalOrderSchema, {
+        intent: "CAPTURE",
+        purchase_units: [
+          {
+            reference_id: order.id,
+            custom_id: order.id,
+            description: describeCheckout(order),
+            amount: { currency_code: "EUR", value: amount.toFixed(2) },
+          },
+        ],
+        payment_source: {
+          paypal: {
+            experience_context: { return_url: successUrl, cancel_url: cancelUrl, user_action: "PAY_NOW", locale: "de-DE" },
+          },
+        },
+      });
+      const checkoutUrl = data.links?.find((link) => link.rel === "payer-action")?.href;
+      if (!ok || !data.id || !checkoutUrl) {
+        throw new PaymentProviderError(`PayPal: ${data.message ?? "Checkout konnte nicht erstellt werden"}`);
+      }
+      return { reference: data.id, checkoutUrl };
+    },
+    async parseWebhook(webhook) {
+      // The signature check needs the event exactly as received
+      const body = parseJson(webhook.rawBody);
+      const { data: verification } = await request("/v1/notifications/verify-webhook-signature", payPalVerificationSchema, {
+        auth_algo: header(webhook, "paypal-auth-algo"),
+        cert_url: header(webhook, "paypal-cert-url"),
+        transmission_id: header(webhook, "paypal-transmission-id"),
+        transmission_sig: header(webhook, "paypal-transmission-sig"),
+        transmission_time: header(webhook, "paypal-transmission-time"),
+        webhook_id: webhookId,
+        webhook_event: body,
+      });
+      if (verification.verification_status !== "SUCCESS") {
+        throw new PaymentWebhookError("Ungültige Signatur");
+      }
+
+      const event = parseWebhookBody(payPalEventSchema, body);
+      const resource = event.resource;
+      // Captures name the checkout they belong to, order events are the checkout
+      const orderReference = () => {
+        const reference = event.event_type.startsWith("PAYMENT.CAPTURE.")
+          ? resource.supplementary_data?.related_ids?.order_id
+          : resource.id;
+        if (!reference) {
+          throw new PaymentWebhookError("Ungültiger Inhalt");
+        }
+        return reference;
+      };
+      switch (event.event_type) {
+        case "CHECKOUT.ORDER.APPROVED": {
+          // Approved orders still need to be captured; a capture that already
+          // happened is reported again as PAYMENT.CAPTURE.COMPLETED
+          const reference = orderReference();
+          const { ok, data } = await request(`/v2/checkout/orders/${reference}/capture`, payPalCaptureSchema);
+          const capture = data.purchase_units?.[0]?.payments?.captures?.[0];
+          if (!ok || capture?.status !== "COMPLETED") return null;
+          return { reference, state: "paid", amount: Number(capture.amount.value) };
+        }
+        case "PAYMENT.CAPTURE.COMPLETED":
+          return {
+            reference: orderReference(),
+            state: "paid",
+            amount: resource.amount ? Number(resource.amount.value) : undefined,
+          };
+        case "PAYMENT.CAPTURE.DENIED":
+          return { reference: orderReference(), state: "failed" };
+        case "CHECKOUT.ORDER.VOIDED":
+          return { reference: orderReference(), state: "cancelled" };
+        default:
+          return null;
+      }
+    },
+  };
+}
+
+export interface FakeCheckout {
+  reference: string;
+  description: string;
+  amount: number;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+// Open checkouts of the fake provider; lost on restart like an expired session
+const fakeCheckouts = new Map<string, FakeCheckout>();
+
+export function getFakeCheckout(reference: string): FakeCheckout | undefined {
+  return fakeCheckouts.get(reference);
+}
+
+export function completeFakeCheckout(reference: string): void {
+  fakeCheckouts.delete(reference);
+}
+
+function createFakeProvider(): PaymentProvider {
+  return {
+    name: "fake",
+    async createCheckout({ order, amount, successUrl, cancelUrl }) {
+      const reference = `fake_${randomUUID()}`;
+      fakeCheckouts.set(reference, { reference, description: describeCheckout(order), amount, successUrl, cancelUrl });
+      return { reference, checkoutUrl: `/api/payments/fake/${reference}` };
+    },
+    async parseWebhook(request) {
+      const event = fakeEventSchema.safeParse(parseJson(request.rawBody));
+      if (!event.success) {
+        throw new PaymentWebhookError("reference und state sind erforderlich");
+      }
+      return event.data;
+    },
+  };
+}
+
+function createProviderFromEnv(): PaymentProvider | null {
+  const configured = process.env.PAYMENT_PROVIDER?.toLowerCase();
+
+  switch (configured) {
+    case "stripe":
+      if (!process.env.STRIPE_SECRET_KEY || !process.env.STRIPE_WEBHOOK_SECRET) {
+        console.warn("PAYMENT_PROVIDER=stripe, aber STRIPE_SECRET_KEY oder STRIPE_WEBHOOK_SECRET fehlt - Online-Zahlung deaktiviert");
+        return null;
+      }
+      return createStripeProvider(process.env.STRIPE_SECRET_KEY, process.env.STRIPE_WEBHOOK_SECRET);
+    case "paypal":
+      if (!process.env.PAYPAL_CLIENT_ID || !process.env.PAYPAL_CLIENT_SECRET || !process.env.PAYPAL_WEBHOOK_ID) {
+        console.warn("PAYMENT_PROVIDER=paypal, aber PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET oder PAYPAL_WEBHOOK_ID fehlt - Online-Zahlung deaktiviert");
+        return null;
+      }
+      return createPayPalProvider(process.env.PAYPAL_CLIENT_ID, process.env.PAYPAL_CLIENT_SECRET, process.env.PAYPAL_WEBHOOK_ID);
+    case "fake":
+      // Its webhook is unsigned: anyone could mark orders as paid
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("PAYMENT_PROVIDER=fake ist im Produktivbetrieb nicht erlaubt");
+      }
+      return createFakeProvider();
+    case undefined:
+    case "":
+      return null;
+    default:
+      console.warn(`Unbekannter PAYMENT_PROVIDER "${configured}" - Online-Zahlung deaktiviert`);
+      return null;
+  }
+}
+
+let provider: PaymentProvider | null | undefined;
+
+// Resolved once on first use; null means online payment is disabled
+export function getPaymentProvider(): PaymentProvider | null {
+  if (provider === undefined) {
+    provider = createProviderFromEnv();
+    console.log(`Zahlungsanbieter: ${provider ? provider.name : "deaktiviert"}`);
+  }
+  return provider;
+}
@@ -0,0 +1,138 @@
+import PDFDocument from "pdfkit";
+
+// Shared building blocks for the generated PDFs (A4, Helvetica)
+
+export const PAGE_MARGIN = 50;
+
+export interface PdfColumn {
+  header: string;
+  width: number; // Points; the columns together should fill the content width
+  align?: "left" | "right" | "center";
+}
+
+export function createPdfDocument(title: string): PDFKit.PDFDocument {
+  return new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: title, Producer: "TSV Bestellportal" },
+  });
+}
+
+export function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+export function formatPdfDate(value: string | Date): string {
+  return new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+export function drawTitle(doc: PDFKit.PDFDocument, title: string, subtitle?: string): void {
+  doc.font("Helvetica-Bold").fontSize(18).fillColor("#111111").text(title, PAGE_MARGIN, doc.y);
+  if (subtitle) {
+    doc.moveDown(0.2).font("Helvetica").fontSize(10).fillColor("#555555").text(subtitle);
+  }
+  doc.fillColor("#111111").moveDown(1);
+}
+
+export function drawSectionHeading(doc: PDFKit.PDFDocument, text: string): void {
+  ensureSpace(doc, 40);
+  doc.font("Helvetica-Bold").fontSize(12).fillColor("#111111").text(text, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.4);
+}
+
+// Starts a new page when less than `height` points are left
+export function ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+}
+
+function drawRow(doc: PDFKit.PDFDocument, columns: PdfColumn[], cells: string[], bold: boolean): void {
+  const padding = 4;
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+
+  const heights = columns.map((col, i) =>
+    doc.heightOfString(cells[i] ?? "", { width: col.width - padding * 2 })
+  );
+  const rowHeight = Math.max(...heights) + padding * 2;
+  ensureSpace(doc, rowHeight);
+
+  const top = doc.y;
+  let x = PAGE_MARGIN;
+  columns.forEach((col, i) => {
+    doc.text(cells[i] ?? "", x + padding, top + padding, {
+      width: col.width - padding * 2,
+      align: col.align ?? "left",
+    });
+    x += col.width;
+  });
+
+  const tableWidth = columns.reduce((sum, col) => sum + col.width, 0);
+  doc
+    .moveTo(PAGE_MARGIN, top + rowHeight)
+    .lineTo(PAGE_MARGIN + tableWidth, top + rowHeight)
+    .lineWidth(bold ? 1 : 0.5)
+    .strokeColor(bold ? "#333333" : "#cccccc")
+    .stroke();
+  doc.x = PAGE_MARGIN;
+  doc.y = top + rowHeight;
+}
+
+// Simple table; the header row is repeated after page breaks
+export function drawTable(
+  doc: PDFKit.PDFDocument,
+  columns: PdfColumn[],
+  rows: string[][],
+  options: { footer?: string[] } = {},
+): void {
+  const headers = columns.map((col) => col.header);
+  drawRow(doc, columns, headers, true);
+
+  for (const row of rows) {
+    const pageBefore = doc.bufferedPageRange().count;
+    ensureSpace(doc, 20);
+    if (doc.bufferedPageRange().count !== pageBefore) {
+      drawRow(doc, columns, headers, true);
+    }
+    drawRow(doc, columns, row, false);
+  }
+
+  if (options.footer) {
+    drawRow(doc, columns, options.footer, true);
+  }
+  doc.moveDown(1);
+}
+
+// Page numbers and generation date at the bottom of every page
+export function drawPageFooters(doc: PDFKit.PDFDocument, label: string): void {
+  const range = doc.bufferedPageRange();
+  const generated = formatPdfDate(new Date());
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.height - doc.page.margins.bottom + 15;
+    // Temporarily lift the bottom margin so the footer does not trigger a new page
+    const margin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#888888")
+      .text(`${label} · erstellt am ${generated} · Seite ${i + 1} von ${range.count}`, PAGE_MARGIN, bottom, {
+        width: contentWidth(doc),
+        align: "center",
+      });
+    doc.page.margins.bottom = margin;
+  }
+  doc.fillColor("#111111");
+}
+
+export function pdfToBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
@@ -0,0 +1,241 @@
+import {
+  TEAMS,
+  TEAM_LABELS,
+  formatOrderItemName,
+  formatPersonalization,
+  formatPrice,
+  getOpenAmount,
+  getOrderNumber,
+  getItemTeam,
+  groupItemsByWearer,
+  type Campaign,
+  type Order,
+  type OrderItem,
+  type PickListSort,
+  type Team,
+} from "@shared/schema";
+import { exportableOrders } from "./orderExport";
+import {
+  PAGE_MARGIN,
+  contentWidth,
+  createPdfDocument,
+  drawTitle,
+  drawSectionHeading,
+  drawTable,
+  drawPageFooters,
+  ensureSpace,
+  formatPdfDate,
+  pdfToBuffer,
+} from "./pdf";
+
+const NO_TEAM_LABEL = "Ohne Mannschaft";
+
+function compareByName(a: Order, b: Order): number {
+  return a.lastName.localeCompare(b.lastName, "de") || a.firstName.localeCompare(b.firstName, "de");
+}
+
+// Orders without team go last
+function teamRank(team: Team | undefined): number {
+  return team ? TEAMS.indexOf(team) : TEAMS.length;
+}
+
+// Teams of the order's wearers, in team order
+function orderTeams(order: Order): (Team | undefined)[] {
+  const teams = Array.from(new Set(order.items.map((item) => getItemTeam(item, order))));
+  return teams.length > 0 ? teams.sort((a, b) => teamRank(a) - teamRank(b)) : [order.team];
+}
+
+function teamLabel(order: Order): string {
+  return orderTeams(order)
+    .map((team) => (team ? TEAM_LABELS[team] : NO_TEAM_LABEL))
+    .join(", ");
+}
+
+// Family orders with wearers in several teams appear in each team's section
+function splitOrderByTeam(order: Order): Order[] {
+  const parts = new Map<string, Order>();
+  for (const item of order.items) {
+    const team = getItemTeam(item, order);
+    const part = parts.get(team ?? "") ?? { ...order, team, items: [] };
+    part.items.push(item);
+    parts.set(team ?? "", part);
+  }
+  return Array.from(parts.values());
+}
+
+export function sortOrdersForPickup(orders: Order[], sort: PickListSort): Order[] {
+  const sorted = exportableOrders(orders).slice();
+  return sort === "team"
+    ? sorted.sort((a, b) => teamRank(orderTeams(a)[0]) - teamRank(orderTeams(b)[0]) || compareByName(a, b))
+    : sorted.sort(compareByName);
+}
+
+function describeItem(item: OrderItem): string {
+  const initials = item.withInitials && item.initialsText ? `, ${item.initialsText}` : "";
+  const personalization = formatPersonalization(item.personalization);
+  return `${item.quantity}× ${formatOrderItemName(item)} (${item.size}${initials}${personalization ? `; ${personalization}` : ""})`;
+}
+
+function hasWearers(order: Order): boolean {
+  return order.items.some((item) => item.wearerName);
+}
+
+// Items per wearer, e.g. "Anna (E-Jugend):" followed by her items
+function describeItems(order: Order): string {
+  if (!hasWearers(order)) return order.items.map(describeItem).join("\n");
+  return groupItemsByWearer(order)
+    .map(({ wearerName, team, items }) => {
+      const teamSuffix = team && team !== order.team ? ` (${TEAM_LABELS[team]})` : "";
+      return [`${wearerName}${teamSuffix}:`, ...items.map(describeItem)].join("\n");
+    })
+    .join("\n");
+}
+
+// Product name with the personalization on a second line
+function describeProduct(item: OrderItem): string {
+  const personalization = formatPersonalization(item.personalization);
+  return personalization ? `${formatOrderItemName(item)}\n${personalization}` : formatOrderItemName(item);
+}
+
+// One row per customer with a column to tick off the handover
+export async function buildPackingListPdf(campaign: Campaign, orders: Order[], sort: PickListSort): Promise<Buffer> {
+  const doc = createPdfDocument(`Packliste – ${campaign.name}`);
+  const orderCount = exportableOrders(orders).length;
+  const sorted = sortOrdersForPickup(sort === "team" ? orders.flatMap(splitOrderByTeam) : orders, sort);
+  drawTitle(doc, "Packliste", `${campaign.name} · ${orderCount} Bestellungen`);
+
+  const columns = [
+    { header: "Name", width: 140 },
+    { header: "Artikel", width: 225 },
+    { header: "Offen", width: 70, align: "right" as const },
+    { header: "Abgeholt", width: 60, align: "center" as const },
+  ];
+  // A family order split across teams shows its open amount in the first section only
+  const amountShown = new Set<string>();
+  const toRow = (order: Order) => {
+    const showAmount = !amountShown.has(order.id);
+    amountShown.add(order.id);
+    return [
+      `${order.lastName}, ${order.firstName}\n${getOrderNumber(order)}`,
+      describeItems(order),
+      showAmount ? formatPrice(getOpenAmount(order)) : "s. oben",
+      order.status === "picked-up" ? "ja" : "",
+    ];
+  };
+
+  if (sort === "team") {
+    const groups = new Map<string, Order[]>();
+    for (const order of sorted) {
+      const label = teamLabel(order);
+      groups.set(label, [...(groups.get(label) ?? []), order]);
+    }
+    groups.forEach((teamOrders, label) => {
+      drawSectionHeading(doc, `${label} (${teamOrders.length})`);
+      drawTable(doc, columns, teamOrders.map(toRow));
+    });
+  } else {
+    drawTable(doc, columns, sorted.map(toRow));
+  }
+
+  drawPageFooters(doc, `Packliste ${campaign.name}`);
+  return pdfToBuffer(doc);
+}
+
+function drawField(doc: PDFKit.PDFDocument, label: string, value: string): void {
+  doc.font("Helvetica-Bold").fontSize(10).text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true });
+  doc.font("Helvetica").text(value);
+}
+
+function drawSignatureLines(doc: PDFKit.PDFDocument): void {
+  ensureSpace(doc, 90);
+  doc.font("Helvetica").fontSize(10).text("Ware vollständig erhalten:", PAGE_MARGIN, doc.y);
+
+  const lineY = doc.y + 40;
+  const half = (contentWidth(doc) - 30) / 2;
+  doc.lineWidth(0.5).strokeColor("#333333");
+  doc.moveTo(PAGE_MARGIN, lineY).lineTo(PAGE_MARGIN + half, lineY).stroke();
+  doc.moveTo(PAGE_MARGIN + half + 30, lineY).lineTo(PAGE_MARGIN + 2 * half + 30, lineY).stroke();
+
+  doc.fontSize(8).fillColor("#555555");
+  doc.text("Datum", PAGE_MARGIN, lineY + 4, { width: half });
+  doc.text("Unterschrift", PAGE_MARGIN + half + 30, lineY + 4, { width: half });
+  doc.fillColor("#111111");
+}
+
+// One page per order to hand out with the goods and sign on receipt
+export async function buildPickupSheetsPdf(campaign: Campaign, orders: Order[], sort: PickListSort): Promise<Buffer> {
+  const doc = createPdfDocument(`Abholscheine – ${campaign.name}`);
+  const sorted = sortOrdersForPickup(orders, sort);
+
+  if (sorted.length === 0) {
+    drawTitle(doc, "Abholscheine", campaign.name);
+    doc.font("Helvetica").fontSize(10).text("Für diese Kampagne liegen keine Bestellungen vor.");
+  }
+
+  sorted.forEach((order, index) => {
+    if (index > 0) doc.addPage();
+    drawTitle(doc, "Abholschein", `${campaign.name} · Bestellnummer ${getOrderNumber(order)}`);
+
+    drawField(doc, "Name", `${order.firstName} ${order.lastName}`);
+    drawField(doc, "E-Mail", order.email);
+    drawField(doc, "Mannschaft", teamLabel(order));
+    drawField(doc, "Bestellt am", formatPdfDate(order.createdAt));
+    doc.moveDown(1);
+
+    const itemCells = (item: OrderItem) => [
+      describeProduct(item),
+      item.size,
+      item.withInitials ? item.initialsText || "" : "-",
+      item.quantity.toString(),
+      formatPrice(item.totalPrice / item.quantity),
+      formatPrice(item.totalPrice),
+    ];
+    if (hasWearers(order)) {
+      // Family order: the wearer's name (and team) on the first of their rows
+      drawTable(
+        doc,
+        [
+          { header: "Für", width: 100 },
+          { header: "Produkt", width: 130 },
+          { header: "Größe", width: 45 },
+          { header: "Initialien", width: 60 },
+          { header: "Anzahl", width: 40, align: "right" },
+          { header: "Einzelpreis", width: 60, align: "right" },
+          { header: "Gesamt", width: 60, align: "right" },
+        ],
+        groupItemsByWearer(order).flatMap(({ wearerName, team, items }) =>
+          items.map((item, index) => [
+            index === 0 ? `${wearerName}${team ? `\n${TEAM_LABELS[team]}` : ""}` : "",
+            ...itemCells(item),
+          ])
+        ),
+        { footer: ["Gesamtbetrag", "", "", "", "", "", formatPrice(order.totalAmount)] },
+      );
+    } else {
+      drawTable(
+        doc,
+        [
+          { header: "Produkt", width: 160 },
+          { header: "Größe", width: 55 },
+          { header: "Initialien", width: 100 },
+          { header: "Anzahl", width: 50, align: "right" },
+          { header: "Einzelpreis", width: 65, align: "right" },
+          { header: "Gesamt", width: 65, align: "right" },
+        ],
+        order.items.map(itemCells),
+        { footer: ["Gesamtbetrag", "", "", "", "", formatPrice(order.totalAmount)] },
+      );
+    }
+
+    if (order.paidAmount > 0) {
+      drawField(doc, "Bereits bezahlt", formatPrice(order.paidAmount));
+    }
+    doc.font("Helvetica-Bold").fontSize(12).text(`Zu zahlen: ${formatPrice(getOpenAmount(order))}`, PAGE_MARGIN, doc.y);
+    doc.moveDown(2);
+
+    drawSignatureLines(doc);
+  });
+
+  drawPageFooters(doc, `Abholscheine ${campaign.name}`);
+  return pdfToBuffer(doc);
+}
@@ -0,0 +1,368 @@
+import * as XLSX from "xlsx";
+import type { z } from "zod";
+import {
+  DEFAULT_SIZE_SET_ID,
+  PRODUCT_IMPORT_ACTIONS,
+  getUnknownSizes,
+  insertProductSchema,
+  sortSizes,
+  type InsertProduct,
+  type Product,
+  type ProductImportAction,
+  type ProductImportResult,
+  type ProductImportRow,
+  type SizeSet,
+} from "@shared/schema";
+import { buildSheet, formatCsvPrice, toCsv, type SheetCell } from "./orderExport";
+
+/*
+ * Product catalog as a spreadsheet. The export can be edited and imported
+ * again: rows with an ID update that product, rows without one update the
+ * product of the same name or create a new one. Empty cells keep the current
+ * value of an existing product. Variants, size prices, personalizations and
+ * stock are only edited in the product dialog.
+ */
+
+// The uploaded file is neither a readable spreadsheet nor a product list
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductImportError";
+    Object.setPrototypeOf(this, ProductImportError.prototype);
+  }
+}
+
+// Headers of export and import, in column order
+const COLUMNS = {
+  id: "ID",
+  name: "Name",
+  category: "Kategorie",
+  brand: "Marke",
+  season: "Saison",
+  basePrice: "Preis",
+  sizeSet: "Größensystem",
+  availableSizes: "Größen",
+  initialsEnabled: "Initialien",
+  initialsPrice: "Initialien-Preis",
+  initialsLabel: "Initialien-Bezeichnung",
+  imageUrl: "Bild-URL",
+  additionalImages: "Weitere Bilder",
+  active: "Aktiv",
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+const COLUMN_KEYS = Object.keys(COLUMNS) as Column[];
+
+// Product fields to the column they are read from, for messages and change lists
+const FIELD_COLUMNS: Partial<Record<keyof InsertProduct, Column>> = {
+  name: "name",
+  category: "category",
+  brand: "brand",
+  season: "season",
+  basePrice: "basePrice",
+  sizeSetId: "sizeSet",
+  availableSizes: "availableSizes",
+  initialsEnabled: "initialsEnabled",
+  initialsPrice: "initialsPrice",
+  initialsLabel: "initialsLabel",
+  imageUrl: "imageUrl",
+  additionalImages: "additionalImages",
+  active: "active",
+};
+
+// --- Export ---
+
+function formatBoolean(value: boolean): string {
+  return value ? "ja" : "nein";
+}
+
+function sortProducts(products: Product[]): Product[] {
+  return products
+    .slice()
+    .sort((a, b) => a.category.localeCompare(b.category, "de") || a.name.localeCompare(b.name, "de"));
+}
+
+function productCells(product: Product, sizeSets: SizeSet[]): Record<Column, string | number> {
+  return {
+    id: product.id,
+    name: product.name,
+    category: product.category,
+    brand: product.brand ?? "",
+    season: product.season ?? "",
+    basePrice: product.basePrice,
+    sizeSet: sizeSets.find((s) => s.id === product.sizeSetId)?.name ?? product.sizeSetId,
+    availableSizes: product.availableSizes.join(", "),
+    initialsEnabled: formatBoolean(product.initialsEnabled),
+    initialsPrice: product.initialsPrice,
+    initialsLabel: product.initialsLabel,
+    imageUrl: product.imageUrl,
+    additionalImages: product.additionalImages.join(" "),
+    active: formatBoolean(product.active),
+  };
+}
+
+export function buildProductsCsv(products: Product[], sizeSets: SizeSet[]): string {
+  const rows = sortProducts(products).map((product) => {
+    const cells = productCells(product, sizeSets);
+    return COLUMN_KEYS.map((column) => {
+      const value = cells[column];
+      return typeof value === "number" ? formatCsvPrice(value) : value;
+    });
+  });
+  return toCsv(Object.values(COLUMNS), rows);
+}
+
+export function buildProductsWorkbook(products: Product[], sizeSets: SizeSet[]): Buffer {
+  const rows: SheetCell[][] = sortProducts(products).map((product) => {
+    const cells = productCells(product, sizeSets);
+    return COLUMN_KEYS.map((column) => cells[column]);
+  });
+  const sheet = buildSheet(Object.values(COLUMNS), rows, {
+    widths: [38, 28, 14, 14, 12, 10, 14, 24, 10, 14, 20, 40, 40, 8],
+    priceColumns: [COLUMN_KEYS.indexOf("basePrice"), COLUMN_KEYS.indexOf("initialsPrice")],
+  });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Produkte");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+// --- Import ---
+
+export interface ProductSheetRow {
+  row: number;
+  cells: Partial<Record<Column, string>>; // Trimmed, empty cells left out
+}
+
+// CSV saved by Excel on Windows is usually Windows-1252 rather than UTF-8
+function decode(buffer: Buffer): string {
+  const text = buffer.toString("utf8");
+  return (text.includes("\uFFFD") ? buffer.toString("latin1") : text).replace(/^\uFEFF/, "");
+}
+
+// XLSX is a ZIP archive, XLS an OLE compound file; everything else is read as CSV
+function isBinarySpreadsheet(buffer: Buffer): boolean {
+  return buffer.subarray(0, 2).toString("latin1") === "PK" || buffer.subarray(0, 4).toString("hex") === "d0cf11e0";
+}
+
+export function readProductSheet(buffer: Buffer): ProductSheetRow[] {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = isBinarySpreadsheet(buffer)
+      ? XLSX.read(buffer, { type: "buffer" })
+      : XLSX.read(decode(buffer), { type: "string", raw: true }); // raw: keep "0012" and "12,50" as text
+  } catch {
+    throw new ProductImportError("Die Datei konnte nicht gelesen werden");
+  }
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const [header = [], ...lines] = sheet
+    ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "", blankrows: true })
+    : [];
+
+  const headers = header.map((cell) => String(cell).trim().toLowerCase());
+  const columnIndex = new Map<Column, number>();
+  for (const column of COLUMN_KEYS) {
+    const index = headers.indexOf(COLUMNS[column].toLowerCase());
+    if (index !== -1) columnIndex.set(column, index);
+  }
+  if (!columnIndex.has("name") && !columnIndex.has("id")) {
+    throw new ProductImportError(`Die erste Zeile enthält keine Spalte "${COLUMNS.name}"`);
+  }
+
+  const rows: ProductSheetRow[] = [];
+  lines.forEach((line, index) => {
+    const cells: ProductSheetRow["cells"] = {};
+    for (const [column, cellIndex] of Array.from(columnIndex)) {
+      const value = String(line[cellIndex] ?? "").trim();
+      if (value) cells[column] = value;
+    }
+    if (Object.keys(cells).length > 0) rows.push({ row: index + 2, cells });
+  });
+  if (rows.length === 0) {
+    throw new ProductImportError("Die Datei enthält keine Produkte");
+  }
+  return rows;
+}
+
+// "12,50", "12,50 €", "1.234,50" or "12.5"; the separator that comes last is the decimal one
+function parseNumber(value: string): number {
+  const cleaned = value.replace(/[^\d,.\-]/g, "");
+  const decimalComma = cleaned.lastIndexOf(",") > cleaned.lastIndexOf(".");
+  const normalized = decimalComma ? cleaned.replace(/\./g, "").replace(",", ".") : cleaned.replace(/,/g, "");
+  return normalized ? Number(normalized) : NaN;
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.toLowerCase();
+  if (["ja", "j", "x", "1", "true", "yes"].includes(normalized)) return true;
+  if (["nein", "n", "0", "false", "no"].includes(normalized)) return false;
+  return undefined;
+}
+
+function findSizeSet(sizeSets: SizeSet[], value: string): SizeSet | undefined {
+  const normalized = value.toLowerCase();
+  return sizeSets.find((s) => s.id === value) ?? sizeSets.find((s) => s.name.toLowerCase() === normalized);
+}
+
+// Product fields of the filled cells; unreadable values are reported as errors
+function readProductInput(
+  cells: ProductSheetRow["cells"],
+  sizeSets: SizeSet[],
+  errors: string[],
+): Partial<InsertProduct> {
+  const input: Partial<InsertProduct> = {};
+  const invalid = (column: Column, expected: string) =>
+    errors.push(`${COLUMNS[column]}: "${cells[column]}" ist ${expected}`);
+
+  for (const column of ["name", "category", "brand", "season", "initialsLabel", "imageUrl"] as const) {
+    if (cells[column] !== undefined) input[column] = cells[column];
+  }
+  for (const column of ["basePrice", "initialsPrice"] as const) {
+    if (cells[column] === undefined) continue;
+    const value = parseNumber(cells[column]!);
+    if (Number.isNaN(value)) invalid(column, "keine Zahl");
+    else input[column] = value;
+  }
+  for (const column of ["initialsEnabled", "active"] as const) {
+    if (cells[column] === undefined) continue;
+    const value = parseBoolean(cells[column]!);
+    if (value === undefined) invalid(column, 'weder "ja" noch "nein"');
+    else input[column] = value;
+  }
+  if (cells.sizeSet !== undefined) {
+    const sizeSet = findSizeSet(sizeSets, cells.sizeSet);
+    if (!sizeSet) invalid("sizeSet", "kein bekanntes Größensystem");
+    else input.sizeSetId = sizeSet.id;
+  }
+  if (cells.availableSizes !== undefined) {
+    input.availableSizes = cells.availableSizes.split(/[,;]/).map((size) => size.trim()).filter(Boolean);
+  }
+  if (cells.additionalImages !== undefined) {
+    input.additionalImages = cells.additionalImages.split(/\s+/).filter(Boolean);
+  }
+  return input;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const column = FIELD_COLUMNS[issue.path[0] as keyof InsertProduct];
+    const missing = issue.code === "invalid_type" && issue.received === "undefined";
+    if (!column) return issue.message;
+    return missing ? `${COLUMNS[column]} fehlt` : `${COLUMNS[column]}: ${issue.message}`;
+  });
+}
+
+// Sizes must belong to the (new or current) size set; mirrors the product dialog's checks
+function checkSizes(data: Partial<InsertProduct>, sizeSets: SizeSet[], errors: string[], existing?: Product): void {
+  if (data.sizeSetId === undefined && data.availableSizes === undefined) return;
+  const sizeSet = sizeSets.find((s) => s.id === (data.sizeSetId ?? existing?.sizeSetId ?? DEFAULT_SIZE_SET_ID));
+  if (!sizeSet) {
+    errors.push("Das Größensystem wurde nicht gefunden");
+    return;
+  }
+  const availableSizes = data.availableSizes ?? existing?.availableSizes ?? [];
+  const unknownSizes = getUnknownSizes(sizeSet, availableSizes);
+  if (unknownSizes.length > 0) {
+    errors.push(`${COLUMNS.availableSizes}: ${unknownSizes.join(", ")} gehören nicht zum Größensystem "${sizeSet.name}"`);
+    return;
+  }
+  if (data.availableSizes) {
+    data.availableSizes = sortSizes(sizeSet, data.availableSizes);
+    if (existing) {
+      // Drop price overrides of sizes that are no longer offered
+      data.sizePrices = Object.fromEntries(
+        Object.entries(existing.sizePrices).filter(([size]) => availableSizes.includes(size))
+      );
+    }
+  }
+}
+
+function findProduct(
+  cells: ProductSheetRow["cells"],
+  products: Product[],
+  errors: string[],
+): Product | undefined {
+  if (cells.id) {
+    const product = products.find((p) => p.id === cells.id);
+    if (!product) errors.push(`Kein Produkt mit der ID ${cells.id}`);
+    return product;
+  }
+  const name = cells.name?.toLowerCase();
+  let candidates = products.filter((p) => p.name.toLowerCase() === name);
+  if (candidates.length > 1 && cells.season) {
+    candidates = candidates.filter((p) => (p.season ?? "").toLowerCase() === cells.season!.toLowerCase());
+  }
+  if (candidates.length > 1) {
+    errors.push(`Mehrere Produkte heißen "${cells.name}", bitte die ID angeben`);
+    return undefined;
+  }
+  return candidates[0];
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? "") === JSON.stringify(b ?? "");
+}
+
+export interface ProductImportPlanRow extends ProductImportRow {
+  data?: Partial<InsertProduct>; // Complete InsertProduct for "create", changed fields for "update"
+}
+
+/**
+ * Decides per row whether it creates, updates or leaves a product unchanged.
+ * Nothing is written; the same plan is shown as preview and then applied.
+ */
+export function planProductImport(rows: ProductSheetRow[], products: Product[], sizeSets: SizeSet[]): ProductImportPlanRow[] {
+  const seen = new Map<string, number>(); // Product ID or new name to its first row
+
+  return rows.map(({ row, cells }) => {
+    const errors: string[] = [];
+    const existing = findProduct(cells, products, errors);
+    const name = cells.name ?? existing?.name ?? "";
+    const result = (action: ProductImportAction, changes: string[] = [], data?: Partial<InsertProduct>): ProductImportPlanRow => ({
+      row,
+      name,
+      action,
+      productId: existing?.id,
+      changes,
+      errors,
+      data,
+    });
+
+    const key = existing ? existing.id : `new:${name.toLowerCase()}`;
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      errors.push(`Das Produkt steht bereits in Zeile ${firstRow}`);
+    } else {
+      seen.set(key, row);
+    }
+
+    const input = readProductInput(cells, sizeSets, errors);
+    if (errors.length > 0) return result("error");
+
+    const parsed = existing ? insertProductSchema.partial().safeParse(input) : insertProductSchema.safeParse(input);
+    if (!parsed.success) {
+      errors.push(...formatIssues(parsed.error));
+      return result("error");
+    }
+    const data: Partial<InsertProduct> = parsed.data;
+    checkSizes(data, sizeSets, errors, existing);
+    if (errors.length > 0) return result("error");
+    if (!existing) return result("create", [], data);
+
+    const changed = (Object.keys(data) as (keyof InsertProduct)[]).filter(
+      (field) => !isSameValue(data[field], existing[field as keyof Product])
+    );
+    const changes = changed.flatMap((field) => {
+      const column = FIELD_COLUMNS[field];
+      return column ? [COLUMNS[column]] : [];
+    });
+    if (changes.length === 0) return result("unchanged");
+    return result("update", changes, Object.fromEntries(changed.map((field) => [field, data[field]])));
+  });
+}
+
+export function summarizeProductImport(rows: ProductImportPlanRow[], dryRun: boolean): ProductImportResult {
+  const counts = Object.fromEntries(PRODUCT_IMPORT_ACTIONS.map((action) => [action, 0])) as ProductImportResult["counts"];
+  for (const row of rows) counts[row.action]++;
+  return { dryRun, rows: rows.map(({ data, ...row }) => row), counts };
+}
@@ -0,0 +1,125 @@
+import {
+  NO_BRAND_SUPPLIER,
+  formatOrderItemName,
+  type Campaign,
+  type Order,
+  type Product,
+  type SupplierPurchaseOrder,
+} from "@shared/schema";
+import { aggregateOrderItems, toCsv } from "./orderExport";
+import { createPdfDocument, drawTitle, drawSectionHeading, drawTable, drawPageFooters, pdfToBuffer, formatPdfDate } from "./pdf";
+
+// Groups the aggregated campaign items by brand; lines keep the product/size order
+export function buildPurchaseOrders(orders: Order[], products: Product[]): SupplierPurchaseOrder[] {
+  const suppliers = new Map<string, SupplierPurchaseOrder>();
+
+  for (const item of aggregateOrderItems(orders, products)) {
+    const supplier = item.brand ?? NO_BRAND_SUPPLIER;
+    const purchaseOrder = suppliers.get(supplier) ?? {
+      supplier,
+      lines: [],
+      totalQuantity: 0,
+      initialsQuantity: 0,
+      personalizationQuantity: 0,
+    };
+    purchaseOrder.lines.push({
+      productId: item.productId,
+      productName: item.productName,
+      variantName: item.variantName,
+      category: item.category,
+      size: item.size,
+      initialsText: item.initialsText,
+      personalization: item.personalization,
+      quantity: item.quantity,
+    });
+    purchaseOrder.totalQuantity += item.quantity;
+    if (item.initialsText) purchaseOrder.initialsQuantity += item.quantity;
+    if (item.personalization) purchaseOrder.personalizationQuantity += item.quantity;
+    suppliers.set(supplier, purchaseOrder);
+  }
+
+  // Items without brand go last
+  return Array.from(suppliers.values()).sort(
+    (a, b) =>
+      Number(a.supplier === NO_BRAND_SUPPLIER) - Number(b.supplier === NO_BRAND_SUPPLIER) ||
+      a.supplier.localeCompare(b.supplier, "de")
+  );
+}
+
+export function buildPurchaseOrderCsv(purchaseOrder: SupplierPurchaseOrder): string {
+  const headers = ["Lieferant", "Produkt", "Variante", "Kategorie", "Größe", "Initialien", "Personalisierung", "Anzahl"];
+  const rows = purchaseOrder.lines.map((line) => [
+    purchaseOrder.supplier,
+    line.productName,
+    line.variantName ?? "",
+    line.category,
+    line.size,
+    line.initialsText ?? "",
+    line.personalization ?? "",
+    line.quantity.toString(),
+  ]);
+  return toCsv(headers, rows);
+}
+
+// Quantities per product, variant and size first, then the initials and
+// personalization to be printed
+export async function buildPurchaseOrderPdf(campaign: Campaign, purchaseOrder: SupplierPurchaseOrder): Promise<Buffer> {
+  const doc = createPdfDocument(`Bestellung ${purchaseOrder.supplier} – ${campaign.name}`);
+  drawTitle(
+    doc,
+    `Bestellung ${purchaseOrder.supplier}`,
+    `${campaign.name} · Bestellzeitraum ${formatPdfDate(campaign.startDate)} – ${formatPdfDate(campaign.endDate)}`,
+  );
+
+  const sizeTotals = new Map<string, { productName: string; category: string; size: string; quantity: number }>();
+  for (const line of purchaseOrder.lines) {
+    const key = [line.productId, line.variantName ?? "", line.size].join("\u0000");
+    const total = sizeTotals.get(key) ?? {
+      productName: formatOrderItemName(line),
+      category: line.category,
+      size: line.size,
+      quantity: 0,
+    };
+    total.quantity += line.quantity;
+    sizeTotals.set(key, total);
+  }
+
+  drawSectionHeading(doc, "Mengen nach Größe");
+  drawTable(
+    doc,
+    [
+      { header: "Produkt", width: 235 },
+      { header: "Kategorie", width: 120 },
+      { header: "Größe", width: 70 },
+      { header: "Anzahl", width: 70, align: "right" },
+    ],
+    Array.from(sizeTotals.values()).map((t) => [t.productName, t.category, t.size, t.quantity.toString()]),
+    { footer: ["Summe", "", "", purchaseOrder.totalQuantity.toString()] },
+  );
+
+  const printLines = purchaseOrder.lines.filter((line) => line.initialsText || line.personalization);
+  if (printLines.length > 0) {
+    drawSectionHeading(doc, "Zu bedrucken");
+    drawTable(
+      doc,
+      [
+        { header: "Produkt", width: 150 },
+        { header: "Größe", width: 50 },
+        { header: "Initialien", width: 90 },
+        { header: "Personalisierung", width: 155 },
+        { header: "Anzahl", width: 50, align: "right" },
+      ],
+      printLines.map((line) => [
+        formatOrderItemName(line),
+        line.size,
+        line.initialsText ?? "",
+        line.personalization ?? "",
+        line.quantity.toString(),
+      ]),
+      { footer: ["Summe", "", "", "", printLines.reduce((sum, line) => sum + line.quantity, 0).toString()] },
+    );
+  }
+
+  drawPageFooters(doc, `${campaign.name} – ${purchaseOrder.supplier}`);
+  return pdfToBuffer(doc);
+}
@@ -0,0 +1,51 @@
+/*
+ * In-memory limit of failed attempts per key (usually the client IP), e.g. for
+ * guessing campaign access codes. Failures count within a fixed window that
+ * starts with the first failure; kept per process, which suits the single
+ * server instance.
+ */
+
+// The key used up its failed attempts for the current window
+export class TooManyAttemptsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TooManyAttemptsError";
+    Object.setPrototypeOf(this, TooManyAttemptsError.prototype);
+  }
+}
+
+export interface AttemptLimiter {
+  isBlocked(key: string): boolean;
+  recordFailure(key: string): void;
+}
+
+export function createAttemptLimiter(options: { maxFailures: number; windowMs: number }): AttemptLimiter {
+  const failures = new Map<string, { count: number; resetAt: number }>();
+
+  const current = (key: string, now: number) => {
+    const entry = failures.get(key);
+    if (entry && entry.resetAt <= now) {
+      failures.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    isBlocked(key) {
+      return (current(key, Date.now())?.count ?? 0) >= options.maxFailures;
+    },
+    recordFailure(key) {
+      const now = Date.now();
+      const entry = current(key, now) ?? { count: 0, resetAt: now + options.windowMs };
+      entry.count++;
+      failures.set(key, entry);
+      // Drop expired entries now and then so the map does not grow unbounded
+      if (failures.size > 10_000) {
+        for (const [other, value] of Array.from(failures)) {
+          if (value.resetAt <= now) failures.delete(other);
+        }
+      }
+    },
+  };
+}
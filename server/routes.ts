@@ -1,19 +1,129 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
 import { dbStorage } from "./dbStorage";
+import {
+  requireAuth,
+  requireRole,
+  hashPassword,
+  verifyPassword,
+  toPublicUser,
+  initializeDefaultAdminUser,
+  startSession,
+  isSessionValid,
+} from "./auth";
+import { recordAudit } from "./audit";
 import { importBfvMatches, type ParsedBfvMatch, parseTeamFromName } from "./bfvImportService";
 import { 
   insertProductSchema, 
+  insertSizeSetSchema,
+  getUnknownSizes,
+  sortSizes,
+  DEFAULT_SIZE_SET_ID,
+  stockAdjustmentSchema,
+  getProductVariant,
   insertCampaignSchema, 
+  campaignAccessSchema,
+  normalizeAccessCode,
   insertOrderSchema,
+  updateOwnOrderSchema,
+  isOrderEditableByCustomer,
+  isOrderPaymentStarted,
+  getCampaignDeadline,
+  updateOrderStatusSchema,
+  bulkUpdateOrderStatusSchema,
+  updateOrderPaymentSchema,
+  canTransitionOrderStatus,
+  getPaymentStatus,
+  getOpenAmount,
+  getPaymentReference,
+  bankAccountSchema,
+  formatPrice,
+  ORDER_STATUSES,
+  ORDER_STATUS_LABELS,
+  sendOrderNotificationsSchema,
+  ORDER_NOTIFICATION_STATUS,
   insertCalendarEventSchema,
   insertFieldMappingSchema,
   insertBfvImportConfigSchema,
+  insertUserSchema,
+  updateUserSchema,
+  canManageCalendarEvent,
+  AUDIT_ACTIONS,
+  isoDateSchema,
+  CAMPAIGN_VISIBILITY_LABELS,
+  AUDIT_ENTITY_TYPES,
+  EMAIL_TEMPLATE_KEYS,
+  PICK_LIST_SORTS,
+  updateEmailTemplateSchema,
+  previewEmailTemplateSchema,
+  sendTestEmailSchema,
 } from "@shared/schema";
 import { z } from "zod";
-import { sendOrderConfirmation } from "./email";
-import type { Team, InsertCalendarEvent, Field } from "@shared/schema";
+import {
+  sendOrderConfirmation,
+  sendOrderStatusNotification,
+  sendPaymentReceived,
+  isEmailEnabled,
+  renderEmailPreview,
+  sendTestEmail,
+  EMAIL_DISABLED_MESSAGE,
+  type EmailResult,
+} from "./email";
+import { getEmailTemplate, escapeHtml } from "./emailTemplates";
+import {
+  assertCampaignOpen,
+  assertCampaignAccess,
+  assertUniquePersonalization,
+  priceOrderItems,
+  OrderValidationError,
+  OrderLockedError,
+  CampaignAccessError,
+} from "./orderValidation";
+import { buildOrdersCsv, buildOrdersWorkbook, exportFileName } from "./orderExport";
+import { buildPurchaseOrders, buildPurchaseOrderCsv, buildPurchaseOrderPdf } from "./purchaseOrders";
+import {
+  buildProductsCsv,
+  buildProductsWorkbook,
+  planProductImport,
+  readProductSheet,
+  summarizeProductImport,
+  ProductImportError,
+} from "./productCatalog";
+import { buildPackingListPdf, buildPickupSheetsPdf } from "./pickupDocuments";
+import { startCampaignScheduler } from "./campaignScheduler";
+import { buildCampaignReport } from "./campaignReport";
+import {
+  getPaymentProvider,
+  getFakeCheckout,
+  completeFakeCheckout,
+  PaymentProviderError,
+  PaymentWebhookError,
+  UnknownPaymentError,
+  PaymentAmountError,
+  type PaymentEvent,
+} from "./paymentProvider";
+import { renderGiroCode } from "./giroCode";
+import { parseBankStatement, matchBankTransactions, BankStatementError } from "./bankStatement";
+import { createAttemptLimiter, TooManyAttemptsError } from "./rateLimit";
+import { buildInvoicePdf, createInvoiceSnapshot, invoiceFileName, isInvoiceWithConfirmation } from "./invoices";
+import type { MailAttachment } from "./mailTransport";
+import type {
+  Team,
+  InsertCalendarEvent,
+  Field,
+  Order,
+  OwnOrderView,
+  Invoice,
+  InvoiceSnapshot,
+  InsertProduct,
+  Product,
+  Campaign,
+  InsertCampaign,
+  PublicCampaign,
+  PaymentCheckout,
+  TransferDetails,
+  ReconciliationResult,
+} from "@shared/schema";
 import multer from "multer";
 import { processAndUploadImage, serveImage } from "./imageUpload";
 
@@ -26,6 +136,238 @@ function addHours(time: string, hours: number): string {
   return `${newHour.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
 }
 
+const orderFilterSchema = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  payment: z.enum(["open", "partial", "paid", "unpaid"]).optional(), // unpaid = open or partial
+});
+
+const emailTemplateKeySchema = z.enum(EMAIL_TEMPLATE_KEYS);
+
+// Absolute link to the customer's self-service page; PUBLIC_BASE_URL wins over
+// the request host when the app runs behind a proxy
+function getOrderLink(req: Request, order: Order): string {
+  const baseUrl = process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl.replace(/\/$/, "")}/my-order/${order.accessToken}`;
+}
+
+function getGiroCodeLink(req: Request, order: Order): string {
+  const baseUrl = process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl.replace(/\/$/, "")}/api/my-order/${order.accessToken}/girocode.png`;
+}
+
+// Bank transfer details while an amount is open and the club's account is set up
+async function getTransferDetails(order: Order): Promise<TransferDetails | undefined> {
+  const amount = getOpenAmount(order);
+  if (order.status === "cancelled" || amount <= 0) return undefined;
+  const account = await dbStorage.getBankAccount();
+  return account && { ...account, reference: getPaymentReference(order), amount };
+}
+
+const ORDER_LOCKED_MESSAGE =
+  "Diese Bestellung kann nicht mehr geändert werden (Bestellschluss erreicht oder bereits in Bearbeitung)";
+
+const ORDER_PAID_MESSAGE =
+  "Diese Bestellung ist bereits bezahlt oder die Zahlung läuft noch. Bitte wende dich für Änderungen an den Verein.";
+
+// Explains why the customer may not change the order
+function getOrderLockedMessage(order: Order): string {
+  return isOrderPaymentStarted(order) ? ORDER_PAID_MESSAGE : ORDER_LOCKED_MESSAGE;
+}
+
+const ONLINE_PAYMENT_UNAVAILABLE_MESSAGE = "Online-Zahlung ist für diese Sammelbestellung nicht verfügbar";
+
+function isOnlinePaymentOffered(campaign: PublicCampaign): boolean {
+  return campaign.onlinePayment && !!getPaymentProvider();
+}
+
+// Opens a checkout for the open amount; the customer returns to the order link
+async function startOnlinePayment(req: Request, order: Order): Promise<{ order: Order; checkoutUrl: string }> {
+  const provider = getPaymentProvider();
+  if (!provider) {
+    throw new PaymentProviderError(ONLINE_PAYMENT_UNAVAILABLE_MESSAGE);
+  }
+  const orderLink = getOrderLink(req, order);
+  const session = await provider.createCheckout({
+    order,
+    amount: getOpenAmount(order),
+    successUrl: `${orderLink}?payment=success`,
+    cancelUrl: `${orderLink}?payment=cancelled`,
+  });
+  const updated = await dbStorage.startOrderPayment(order.id, provider.name, session.reference, getOpenAmount(order));
+  return { order: updated ?? order, checkoutUrl: session.checkoutUrl };
+}
+
+// Applies a provider result to the order; repeated notifications are ignored
+async function applyPaymentEvent(req: Request, event: PaymentEvent): Promise<void> {
+  const before = await dbStorage.getOrderByPaymentReference(event.reference);
+  if (!before) {
+    throw new UnknownPaymentError(event.reference);
+  }
+  const order =
+    event.state === "paid"
+      ? await dbStorage.completeOrderPayment(event.reference, event.amount)
+      : await dbStorage.abortOrderPayment(event.reference, event.state);
+  if (!order) return;
+
+  await recordAudit(req, {
+    action: "update",
+    entityType: "order",
+    entityId: order.id,
+    before: { paidAmount: before.paidAmount, paymentState: before.paymentState },
+    after: { paidAmount: order.paidAmount, paymentState: order.paymentState },
+  });
+  if (order.paymentState === "paid") {
+    sendPaymentReceived(order, { orderLink: getOrderLink(req, order) }).catch((err) => {
+      console.error("E-Mail-Versand fehlgeschlagen:", err);
+    });
+  }
+}
+
+// Assigns the next invoice number on first use; later calls return the same
+// invoice with the content it was issued with
+async function issueInvoice(req: Request, order: Order): Promise<{ invoice: Invoice; snapshot: InvoiceSnapshot }> {
+  const existing = await dbStorage.getInvoiceByOrder(order.id);
+  if (existing?.snapshot) return { invoice: existing, snapshot: existing.snapshot };
+  // Invoices issued before snapshots were kept are frozen on their next use
+  const snapshot = createInvoiceSnapshot(order);
+  const invoice = await dbStorage.createInvoice(order.id, snapshot);
+  if (!existing) {
+    await recordAudit(req, { action: "create", entityType: "invoice", entityId: invoice.id, after: invoice });
+  }
+  return { invoice, snapshot: invoice.snapshot ?? snapshot };
+}
+
+async function buildInvoiceAttachment(req: Request, order: Order): Promise<MailAttachment> {
+  const { invoice, snapshot } = await issueInvoice(req, order);
+  return { filename: invoiceFileName(invoice), content: await buildInvoicePdf(invoice, snapshot), contentType: "application/pdf" };
+}
+
+async function sendConfirmation(req: Request, order: Order): Promise<void> {
+  const attachments = isInvoiceWithConfirmation() ? [await buildInvoiceAttachment(req, order)] : undefined;
+  await sendOrderConfirmation(
+    order,
+    { orderLink: getOrderLink(req, order), girocodeUrl: getGiroCodeLink(req, order) },
+    attachments,
+  );
+}
+
+const exportFormatQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+});
+
+const productImportQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+const purchaseOrderExportQuerySchema = z.object({
+  supplier: z.string().min(1, "Lieferant ist erforderlich"),
+  format: z.enum(["pdf", "csv"]).default("pdf"),
+});
+
+const pickupDocumentQuerySchema = z.object({
+  sort: z.enum(PICK_LIST_SORTS).default("name"),
+});
+
+const auditLogFilterSchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorId: z.string().optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+// Checks the offered sizes and size prices against the product's size set and
+// puts the sizes into the set's order; returns an error message otherwise
+async function checkProductSizes(data: Partial<InsertProduct>, before?: Product): Promise<string | undefined> {
+  if (data.sizeSetId === undefined && data.availableSizes === undefined && data.sizePrices === undefined) {
+    return undefined;
+  }
+  const sizeSet = await dbStorage.getSizeSet(data.sizeSetId ?? before?.sizeSetId ?? DEFAULT_SIZE_SET_ID);
+  if (!sizeSet) {
+    return "Das Größensystem wurde nicht gefunden";
+  }
+  const availableSizes = data.availableSizes ?? before?.availableSizes ?? [];
+  const unknownSizes = getUnknownSizes(sizeSet, availableSizes);
+  if (unknownSizes.length > 0) {
+    return `Größen ${unknownSizes.join(", ")} gehören nicht zum Größensystem "${sizeSet.name}"`;
+  }
+  if (data.sizePrices) {
+    const unpricedSizes = Object.keys(data.sizePrices).filter((size) => !availableSizes.includes(size));
+    if (unpricedSizes.length > 0) {
+      return `Preise für nicht angebotene Größen: ${unpricedSizes.join(", ")}`;
+    }
+  } else if (data.availableSizes && before) {
+    // Drop price overrides of sizes that are no longer offered
+    data.sizePrices = Object.fromEntries(
+      Object.entries(before.sizePrices).filter(([size]) => availableSizes.includes(size))
+    );
+  }
+  if (data.availableSizes) {
+    data.availableSizes = sortSizes(sizeSet, data.availableSizes);
+  }
+  return undefined;
+}
+
+// Code-protected campaigns need an access code that no other active campaign
+// uses, so the home page can resolve a code to exactly one campaign
+async function checkCampaignAccessSettings(data: Partial<InsertCampaign>, before?: Campaign): Promise<string | undefined> {
+  const visibility = data.visibility ?? before?.visibility ?? "public";
+  const accessCode = data.accessCode === undefined ? before?.accessCode : data.accessCode ?? undefined;
+  const team = data.team === undefined ? before?.team : data.team ?? undefined;
+  // A listed campaign is orderable by everyone, so it cannot be limited to a team
+  if (team && visibility === "public") {
+    return `Mannschaftskampagnen können nicht öffentlich sein, bitte "${CAMPAIGN_VISIBILITY_LABELS.hidden}" oder "${CAMPAIGN_VISIBILITY_LABELS.code}" wählen`;
+  }
+  if (visibility !== "code") return undefined;
+  if (!accessCode) {
+    return "Für den Zugriff per Zugangscode muss ein Zugangscode angegeben werden";
+  }
+  const campaigns = await dbStorage.getActiveCampaigns();
+  if (campaigns.some((c) => c.id !== before?.id && c.visibility === "code" && c.accessCode === accessCode)) {
+    return "Der Zugangscode wird bereits von einer anderen Sammelbestellung verwendet";
+  }
+  return undefined;
+}
+
+// Wrong access codes per client IP before further codes are refused
+const accessCodeAttempts = createAttemptLimiter({ maxFailures: 10, windowMs: 15 * 60 * 1000 });
+const TOO_MANY_ACCESS_CODES_MESSAGE = "Zu viele falsche Zugangscodes, bitte in 15 Minuten erneut versuchen";
+
+function clientKey(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+// Per IP and username, so one client cannot guess a password without limit
+const loginAttempts = createAttemptLimiter({ maxFailures: 5, windowMs: 15 * 60 * 1000 });
+const TOO_MANY_LOGINS_MESSAGE = "Zu viele fehlgeschlagene Anmeldungen, bitte in 15 Minuten erneut versuchen";
+
+// assertCampaignAccess with the per-IP limit, so codes cannot be enumerated
+function assertCampaignAccessLimited(req: Request, campaign: Campaign, accessCode: string | undefined): void {
+  if (campaign.visibility !== "code" || !accessCode?.trim()) {
+    return assertCampaignAccess(campaign, accessCode);
+  }
+  if (accessCodeAttempts.isBlocked(clientKey(req))) {
+    throw new TooManyAttemptsError(TOO_MANY_ACCESS_CODES_MESSAGE);
+  }
+  try {
+    assertCampaignAccess(campaign, accessCode);
+  } catch (error) {
+    if (error instanceof CampaignAccessError) accessCodeAttempts.recordFailure(clientKey(req));
+    throw error;
+  }
+}
+
+const CALENDAR_FORBIDDEN_MESSAGE =
+  "Keine Berechtigung: Trainer dürfen nur Trainingstermine der eigenen Mannschaft bearbeiten";
+
+// Number of active accounts with the admin role
+async function countActiveAdmins(): Promise<number> {
+  const users = await dbStorage.getAllUsers();
+  return users.filter((u) => u.role === "admin" && u.active).length;
+}
+
 // Parse BFV HTML page to extract match data
 function parseBfvMatches(html: string, team: Team): Array<{
   date: string;
@@ -250,305 +592,1227 @@ function generateSampleBfvMatches(team: Team): InsertCalendarEvent[] {
   return matches;
 }
 
-// Middleware to protect admin routes
-function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.session.isAdmin) {
-    return res.status(401).json({ error: "Nicht autorisiert" });
-  }
-  next();
-}
-
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // Create the initial admin account from the legacy shared password
+  initializeDefaultAdminUser().catch(console.error);
+
+  // Resolved now so an invalid payment configuration stops the start
+  getPaymentProvider();
+
   // Auth endpoints
   app.post("/api/auth/login", async (req, res) => {
     try {
-      const { password } = req.body;
-      const adminPassword = await storage.getAdminPassword();
+      const { username, password } = req.body;
+      if (!username || !password) {
+        return res.status(400).json({ error: "Benutzername und Passwort sind erforderlich" });
+      }
+
+      const attemptKey = `${clientKey(req)}:${String(username).toLowerCase()}`;
+      if (loginAttempts.isBlocked(attemptKey)) {
+        return res.status(429).json({ error: TOO_MANY_LOGINS_MESSAGE });
+      }
+
+      const user = await dbStorage.getUserByUsername(String(username));
+      if (!user || !user.active || !(await verifyPassword(String(password), user.password))) {
+        loginAttempts.recordFailure(attemptKey);
+        await recordAudit(req, {
+          action: "login-failed",
+          entityType: "user",
+          entityId: user?.id,
+          after: { username: String(username), ip: clientKey(req) },
+        });
+        return res.status(401).json({ error: "Benutzername oder Passwort falsch" });
+      }
+
+      await startSession(req, user.id);
+      await dbStorage.recordUserLogin(user.id);
+      res.json({ success: true, user: toPublicUser(user) });
+    } catch (error) {
+      res.status(500).json({ error: "Login fehlgeschlagen" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ error: "Logout fehlgeschlagen" });
+      }
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/auth/check", async (req, res) => {
+    try {
+      const user = req.session.userId ? await dbStorage.getUser(req.session.userId) : undefined;
+      if (!user || !isSessionValid(req, user)) {
+        return res.json({ isAdmin: false, user: null });
+      }
+      res.json({ isAdmin: true, user: toPublicUser(user) });
+    } catch (error) {
+      res.status(500).json({ error: "Anmeldestatus konnte nicht geprüft werden" });
+    }
+  });
+
+  // Change own password
+  app.post("/api/auth/change-password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      const user = await dbStorage.getUser(req.currentUser!.id);
+
+      if (!user || !(await verifyPassword(String(currentPassword ?? ""), user.password))) {
+        return res.status(401).json({ error: "Aktuelles Passwort ist falsch" });
+      }
+
+      const parsed = updateUserSchema.shape.password.safeParse(newPassword);
+      if (!parsed.success || !parsed.data) {
+        return res.status(400).json({ error: "Neues Passwort muss mindestens 8 Zeichen lang sein" });
+      }
+
+      // Logs out all other sessions of the user; this one continues under a new ID
+      await dbStorage.updateUser(user.id, { password: await hashPassword(parsed.data) });
+      await startSession(req, user.id);
+      await recordAudit(req, { action: "password-change", entityType: "user", entityId: user.id });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Passwortänderung fehlgeschlagen" });
+    }
+  });
+
+  // User management (admin only)
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await dbStorage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Benutzer konnten nicht geladen werden" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const data = insertUserSchema.parse(req.body);
+      if (await dbStorage.getUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Benutzername ist bereits vergeben" });
+      }
+      const user = await dbStorage.createUser({ ...data, password: await hashPassword(data.password) });
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, after: toPublicUser(user) });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Benutzer konnte nicht erstellt werden" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const data = updateUserSchema.parse(req.body);
+
+      const existing = await dbStorage.getUser(id);
+
+      // Never lock out the last active administrator
+      const losesAdmin = (data.role !== undefined && data.role !== "admin") || data.active === false;
+      if (losesAdmin) {
+        if (existing?.role === "admin" && existing.active && (await countActiveAdmins()) <= 1) {
+          return res.status(400).json({ error: "Der letzte aktive Administrator kann nicht herabgestuft oder deaktiviert werden" });
+        }
+      }
+
+      const user = await dbStorage.updateUser(id, {
+        ...data,
+        password: data.password ? await hashPassword(data.password) : undefined,
+      });
+      if (!user) {
+        return res.status(404).json({ error: "Benutzer nicht gefunden" });
+      }
+      await recordAudit(req, {
+        action: data.password ? "password-change" : "update",
+        entityType: "user",
+        entityId: id,
+        before: existing && toPublicUser(existing),
+        after: toPublicUser(user),
+      });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Benutzer konnte nicht aktualisiert werden" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      if (id === req.currentUser!.id) {
+        return res.status(400).json({ error: "Das eigene Benutzerkonto kann nicht gelöscht werden" });
+      }
+      const existing = await dbStorage.getUser(id);
+      const deleted = await dbStorage.deleteUser(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Benutzer nicht gefunden" });
+      }
+      await recordAudit(req, { action: "delete", entityType: "user", entityId: id, before: existing && toPublicUser(existing) });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Benutzer konnte nicht gelöscht werden" });
+    }
+  });
+
+  // Migrate products to the default size set, then seed sample products and
+  // campaign on first start with an empty shop; done before the server listens
+  try {
+    await dbStorage.initializeDefaultSizeSet();
+    await dbStorage.initializeSampleShopData();
+  } catch (error) {
+    console.error("Shop-Daten konnten nicht initialisiert werden:", error);
+  }
+
+  // Deadline reminders and automatic closing of expired campaigns
+  startCampaignScheduler();
+
+  // Size sets (admin-configurable size systems referenced by products)
+  app.get("/api/size-sets", requireAuth, async (req, res) => {
+    try {
+      const sizeSets = await dbStorage.getAllSizeSets();
+      res.json(sizeSets);
+    } catch (error) {
+      res.status(500).json({ error: "Größensysteme konnten nicht geladen werden" });
+    }
+  });
+
+  app.post("/api/size-sets", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = insertSizeSetSchema.parse(req.body);
+      const existing = await dbStorage.getAllSizeSets();
+      if (existing.some((s) => s.name.toLowerCase() === data.name.toLowerCase())) {
+        return res.status(409).json({ error: `Ein Größensystem "${data.name}" existiert bereits` });
+      }
+      const sizeSet = await dbStorage.createSizeSet(data);
+      await recordAudit(req, { action: "create", entityType: "size-set", entityId: sizeSet.id, after: sizeSet });
+      res.status(201).json(sizeSet);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Größensystem konnte nicht erstellt werden" });
+    }
+  });
+
+  app.patch("/api/size-sets/:id", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = insertSizeSetSchema.partial().parse(req.body);
+      const id = req.params.id as string;
+      const before = await dbStorage.getSizeSet(id);
+      if (!before) {
+        return res.status(404).json({ error: "Größensystem nicht gefunden" });
+      }
+      if (data.name !== undefined) {
+        const existing = await dbStorage.getAllSizeSets();
+        if (existing.some((s) => s.id !== id && s.name.toLowerCase() === data.name!.toLowerCase())) {
+          return res.status(409).json({ error: `Ein Größensystem "${data.name}" existiert bereits` });
+        }
+      }
+      // Sizes still offered by a product cannot be removed
+      if (data.sizes !== undefined) {
+        const removedSizes = before.sizes.filter((size) => !data.sizes!.includes(size));
+        const products = (await dbStorage.getAllProducts()).filter(
+          (p) => p.sizeSetId === id && p.availableSizes.some((size) => removedSizes.includes(size))
+        );
+        if (products.length > 0) {
+          return res.status(409).json({
+            error: `Entfernte Größen werden noch angeboten von: ${products.map((p) => p.name).join(", ")}`,
+          });
+        }
+      }
+      const sizeSet = await dbStorage.updateSizeSet(id, data);
+      await recordAudit(req, { action: "update", entityType: "size-set", entityId: id, before, after: sizeSet });
+      res.json(sizeSet);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Größensystem konnte nicht gespeichert werden" });
+    }
+  });
+
+  app.delete("/api/size-sets/:id", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      if (id === DEFAULT_SIZE_SET_ID) {
+        return res.status(400).json({ error: "Das Standard-Größensystem kann nicht gelöscht werden" });
+      }
+      const products = (await dbStorage.getAllProducts()).filter((p) => p.sizeSetId === id);
+      if (products.length > 0) {
+        return res.status(409).json({
+          error: `Das Größensystem wird noch verwendet von: ${products.map((p) => p.name).join(", ")}`,
+        });
+      }
+      const before = await dbStorage.getSizeSet(id);
+      const deleted = await dbStorage.deleteSizeSet(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Größensystem nicht gefunden" });
+      }
+      await recordAudit(req, { action: "delete", entityType: "size-set", entityId: id, before });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Größensystem konnte nicht gelöscht werden" });
+    }
+  });
+
+  // Products CRUD (protected)
+  app.get("/api/products", async (req, res) => {
+    try {
+      const products = await dbStorage.getAllProducts();
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch products" });
+    }
+  });
+
+  // Catalog export in the import format: ?format=csv (default) or ?format=xlsx
+  app.get("/api/products/export", requireAuth, async (req, res) => {
+    try {
+      const { format } = exportFormatQuerySchema.parse(req.query);
+      const [products, sizeSets] = await Promise.all([dbStorage.getAllProducts(), dbStorage.getAllSizeSets()]);
+
+      if (format === "xlsx") {
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader("Content-Disposition", 'attachment; filename="produkte.xlsx"');
+        return res.send(buildProductsWorkbook(products, sizeSets));
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="produkte.csv"');
+      res.send(buildProductsCsv(products, sizeSets));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export products" });
+    }
+  });
+
+  // Catalog import from CSV/XLSX; ?dryRun=true (default) only returns the preview
+  app.post("/api/products/import", requireRole("shop-admin"), upload.single("file"), async (req, res) => {
+    try {
+      const { dryRun } = productImportQuerySchema.parse(req.query);
+      if (!req.file) {
+        return res.status(400).json({ error: "Keine Datei hochgeladen" });
+      }
+      const rows = readProductSheet(req.file.buffer);
+      const products = await dbStorage.getAllProducts();
+      const plan = planProductImport(rows, products, await dbStorage.getAllSizeSets());
+      if (dryRun) {
+        return res.json(summarizeProductImport(plan, true));
+      }
+      if (plan.some((row) => row.action === "error")) {
+        return res.status(400).json({ error: "Die Datei enthält fehlerhafte Zeilen, es wurde nichts importiert" });
+      }
+
+      const { created, updated } = await dbStorage.applyProductImport(plan);
+      for (const product of created) {
+        await recordAudit(req, { action: "create", entityType: "product", entityId: product.id, after: product });
+      }
+      for (const { before, after } of updated) {
+        await recordAudit(req, { action: "update", entityType: "product", entityId: after.id, before, after });
+      }
+      res.json(summarizeProductImport(plan, false));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Produktimport fehlgeschlagen:", error);
+      res.status(500).json({ error: "Produkte konnten nicht importiert werden" });
+    }
+  });
+
+  app.get("/api/products/:id", async (req, res) => {
+    try {
+      const product = await dbStorage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch product" });
+    }
+  });
+
+  app.post("/api/products", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = insertProductSchema.parse(req.body);
+      const sizeError = await checkProductSizes(data);
+      if (sizeError) {
+        return res.status(400).json({ error: sizeError });
+      }
+      const product = await dbStorage.createProduct(data);
+      await recordAudit(req, { action: "create", entityType: "product", entityId: product.id, after: product });
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create product" });
+    }
+  });
+
+  app.patch("/api/products/:id", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = insertProductSchema.partial().parse(req.body);
+      const before = await dbStorage.getProduct(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const sizeError = await checkProductSizes(data, before);
+      if (sizeError) {
+        return res.status(400).json({ error: sizeError });
+      }
+      const product = await dbStorage.updateProduct(req.params.id as string, data);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "product", entityId: product.id, before, after: product });
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update product" });
+    }
+  });
+
+  app.delete("/api/products/:id", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const before = await dbStorage.getProduct(req.params.id as string);
+      const deleted = await dbStorage.deleteProduct(req.params.id as string);
+      if (!deleted) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      await recordAudit(req, { action: "delete", entityType: "product", entityId: req.params.id as string, before });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete product" });
+    }
+  });
+
+  // Stock: manual adjustments and movement history
+  app.post("/api/products/:id/stock", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = stockAdjustmentSchema.parse(req.body);
+      const before = await dbStorage.getProduct(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      if (!before.availableSizes.includes(data.size)) {
+        return res.status(400).json({ error: `Größe ${data.size} ist für "${before.name}" nicht verfügbar` });
+      }
+      if (before.variants.length > 0 && !getProductVariant(before, data.variantId)) {
+        return res.status(400).json({ error: `Bitte eine Variante für "${before.name}" angeben` });
+      }
+      if (before.variants.length === 0 && data.variantId) {
+        return res.status(400).json({ error: `"${before.name}" hat keine Varianten` });
+      }
+      const actor = req.currentUser;
+      const product = await dbStorage.adjustStock(before.id, data, actor ? actor.displayName || actor.username : undefined);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "product",
+        entityId: before.id,
+        before: { stock: before.stock },
+        after: product && { stock: product.stock },
+      });
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to adjust stock" });
+    }
+  });
+
+  app.get("/api/products/:id/stock-movements", requireAuth, async (req, res) => {
+    try {
+      const movements = await dbStorage.getStockMovements(req.params.id as string);
+      res.json(movements);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Campaigns CRUD
+  // The reminder mailing list and access code are admin data and not part of the
+  // public campaign endpoints
+  const toPublicCampaign = ({ reminderEmails, accessCode, ...campaign }: Campaign): PublicCampaign => campaign;
+
+  app.get("/api/campaigns", requireAuth, async (req, res) => {
+    try {
+      const campaigns = await dbStorage.getAllCampaigns();
+      res.json(campaigns);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch campaigns" });
+    }
+  });
+
+  app.get("/api/campaigns/active", async (req, res) => {
+    try {
+      const campaigns = await dbStorage.getActiveCampaigns();
+      // Team campaigns from before they had to be hidden stay unlisted
+      res.json(campaigns.filter((c) => c.visibility === "public" && !c.team).map(toPublicCampaign));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch active campaigns" });
+    }
+  });
+
+  // Resolves an access code entered on the home page to its campaign
+  app.post("/api/campaigns/access", async (req, res) => {
+    try {
+      const { code } = campaignAccessSchema.parse(req.body);
+      if (accessCodeAttempts.isBlocked(clientKey(req))) {
+        return res.status(429).json({ error: TOO_MANY_ACCESS_CODES_MESSAGE });
+      }
+      const campaigns = await dbStorage.getActiveCampaigns();
+      const campaign = campaigns.find(
+        (c) => c.visibility === "code" && c.accessCode === normalizeAccessCode(code)
+      );
+      if (!campaign) {
+        accessCodeAttempts.recordFailure(clientKey(req));
+        return res.status(404).json({ error: "Zu diesem Zugangscode gibt es keine aktive Sammelbestellung" });
+      }
+      res.json(toPublicCampaign(campaign));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Zugangscode konnte nicht geprüft werden" });
+    }
+  });
+
+  // Code-protected campaigns expect the access code as ?code=
+  app.get("/api/campaigns/:id", async (req, res) => {
+    try {
+      const campaign = await dbStorage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      assertCampaignAccessLimited(req, campaign, typeof req.query.code === "string" ? req.query.code : undefined);
+      res.json(toPublicCampaign(campaign));
+    } catch (error) {
+      if (error instanceof CampaignAccessError) {
+        return res.status(403).json({ error: error.message, accessCodeRequired: true });
+      }
+      if (error instanceof TooManyAttemptsError) {
+        return res.status(429).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch campaign" });
+    }
+  });
+
+  app.post("/api/campaigns", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = insertCampaignSchema.parse(req.body);
+      const accessError = await checkCampaignAccessSettings(data);
+      if (accessError) {
+        return res.status(400).json({ error: accessError });
+      }
+      const campaign = await dbStorage.createCampaign(data);
+      await recordAudit(req, { action: "create", entityType: "campaign", entityId: campaign.id, after: campaign });
+      res.status(201).json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create campaign" });
+    }
+  });
+
+  app.patch("/api/campaigns/:id", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const data = insertCampaignSchema.partial().parse(req.body);
+      const before = await dbStorage.getCampaign(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      const accessError = await checkCampaignAccessSettings(data, before);
+      if (accessError) {
+        return res.status(400).json({ error: accessError });
+      }
+      let campaign = await dbStorage.updateCampaign(req.params.id as string, data);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      // A moved deadline or changed lead time gets a fresh reminder
+      if (
+        before.reminderSentAt &&
+        (before.endDate !== campaign.endDate || before.reminderDaysBefore !== campaign.reminderDaysBefore)
+      ) {
+        await dbStorage.setCampaignReminderSent(campaign.id, null);
+        campaign = { ...campaign, reminderSentAt: undefined };
+      }
+      await recordAudit(req, { action: "update", entityType: "campaign", entityId: campaign.id, before, after: campaign });
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update campaign" });
+    }
+  });
+
+  app.delete("/api/campaigns/:id", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const before = await dbStorage.getCampaign(req.params.id as string);
+      const deleted = await dbStorage.deleteCampaign(req.params.id as string);
+      if (!deleted) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      await recordAudit(req, { action: "delete", entityType: "campaign", entityId: req.params.id as string, before });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete campaign" });
+    }
+  });
+
+  // Orders (admin only for viewing)
+  app.get("/api/orders", requireAuth, async (req, res) => {
+    try {
+      const filter = orderFilterSchema.parse(req.query);
+      let orders = await dbStorage.getAllOrders();
+      if (filter.status) {
+        orders = orders.filter((o) => o.status === filter.status);
+      }
+      if (filter.payment) {
+        orders = orders.filter((o) => {
+          const paymentStatus = getPaymentStatus(o);
+          // Cancelled orders are never owed
+          if (filter.payment === "unpaid") return o.status !== "cancelled" && paymentStatus !== "paid";
+          return paymentStatus === filter.payment;
+        });
+      }
+      res.json(orders);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  app.get("/api/orders/campaign/:campaignId", requireAuth, async (req, res) => {
+    try {
+      const orders = await dbStorage.getOrdersByCampaign(req.params.campaignId as string);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  app.post("/api/orders", async (req, res) => {
+    try {
+      const { accessCode, payOnline, ...input } = insertOrderSchema.parse(req.body);
+      const campaign = await dbStorage.getCampaign(input.campaignId);
+      assertCampaignOpen(campaign);
+      assertCampaignAccessLimited(req, campaign, accessCode);
+      if (payOnline && !isOnlinePaymentOffered(campaign)) {
+        throw new OrderValidationError(ONLINE_PAYMENT_UNAVAILABLE_MESSAGE);
+      }
+      // Orders of a team campaign always belong to that team
+      const data = { ...input, team: campaign.team ?? input.team };
+      const products = await dbStorage.getAllProducts();
+      const items = priceOrderItems(campaign, data.items, products);
+      assertUniquePersonalization(data, items, products, await dbStorage.getOrdersByCampaign(campaign.id));
+      let order = await dbStorage.createOrder({ ...data, items });
+      // Without a checkout the order stays payable at pickup or later from the order link
+      let checkoutUrl: string | undefined;
+      if (payOnline) {
+        try {
+          ({ order, checkoutUrl } = await startOnlinePayment(req, order));
+        } catch (error) {
+          console.error("Online-Zahlung konnte nicht gestartet werden:", error);
+        }
+      }
+      await recordAudit(req, { action: "create", entityType: "order", entityId: order.id, after: order });
       
-      if (password === adminPassword) {
-        req.session.isAdmin = true;
-        res.json({ success: true });
-      } else {
-        res.status(401).json({ error: "Falsches Passwort" });
+      // Send confirmation email (don't wait for it, don't fail if it fails)
+      sendConfirmation(req, order).catch((err) => {
+        console.error("E-Mail-Versand fehlgeschlagen:", err);
+      });
+      
+      res.status(201).json({ ...order, checkoutUrl });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof OrderValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof CampaignAccessError) {
+        return res.status(403).json({ error: error.message, accessCodeRequired: true });
+      }
+      if (error instanceof TooManyAttemptsError) {
+        return res.status(429).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create order" });
+    }
+  });
+
+  // Customer self-service, authorized only by the secret token from the confirmation email
+  const loadOwnOrderView = async (token: string): Promise<OwnOrderView | undefined> => {
+    const order = await dbStorage.getOrderByAccessToken(token);
+    if (!order) return undefined;
+    const campaign = await dbStorage.getCampaign(order.campaignId);
+    const allProducts = campaign ? await dbStorage.getAllProducts() : [];
+    return {
+      order,
+      campaign: campaign && toPublicCampaign(campaign),
+      products: allProducts.filter((p) => campaign?.productIds.includes(p.id)),
+      editable: isOrderEditableByCustomer(order, campaign),
+      deadline: campaign ? getCampaignDeadline(campaign).toISOString() : undefined,
+      onlinePaymentAvailable:
+        !!campaign && isOnlinePaymentOffered(campaign) && order.status !== "cancelled" && getOpenAmount(order) > 0,
+      transfer: await getTransferDetails(order),
+    };
+  };
+
+  app.get("/api/my-order/:token", async (req, res) => {
+    try {
+      const view = await loadOwnOrderView(req.params.token as string);
+      if (!view) {
+        return res.status(404).json({ error: "Bestellung nicht gefunden" });
       }
+      res.json(view);
     } catch (error) {
-      res.status(500).json({ error: "Login fehlgeschlagen" });
+      res.status(500).json({ error: "Bestellung konnte nicht geladen werden" });
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ error: "Logout fehlgeschlagen" });
+  app.put("/api/my-order/:token", async (req, res) => {
+    try {
+      const { items } = updateOwnOrderSchema.parse(req.body);
+      const view = await loadOwnOrderView(req.params.token as string);
+      if (!view) {
+        return res.status(404).json({ error: "Bestellung nicht gefunden" });
       }
-      res.json({ success: true });
-    });
+      if (!view.editable) {
+        return res.status(409).json({ error: getOrderLockedMessage(view.order) });
+      }
+      assertCampaignOpen(view.campaign);
+      const pricedItems = priceOrderItems(view.campaign, items, view.products);
+      assertUniquePersonalization(
+        view.order,
+        pricedItems,
+        view.products,
+        await dbStorage.getOrdersByCampaign(view.campaign.id),
+      );
+      const order = await dbStorage.replaceOrderItems(view.order.id, pricedItems);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "order",
+        entityId: view.order.id,
+        before: { items: view.order.items, totalAmount: view.order.totalAmount },
+        after: order && { items: order.items, totalAmount: order.totalAmount },
+      });
+      res.json({ ...view, order });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof OrderValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof OrderLockedError) {
+        return res.status(409).json({ error: getOrderLockedMessage(error.order) });
+      }
+      res.status(500).json({ error: "Bestellung konnte nicht geändert werden" });
+    }
   });
 
-  app.get("/api/auth/check", (req, res) => {
-    res.json({ isAdmin: !!req.session.isAdmin });
+  app.post("/api/my-order/:token/cancel", async (req, res) => {
+    try {
+      const view = await loadOwnOrderView(req.params.token as string);
+      if (!view) {
+        return res.status(404).json({ error: "Bestellung nicht gefunden" });
+      }
+      if (!view.editable) {
+        return res.status(409).json({ error: getOrderLockedMessage(view.order) });
+      }
+      const order = await dbStorage.updateOrderStatus(view.order.id, "cancelled");
+      await recordAudit(req, {
+        action: "update",
+        entityType: "order",
+        entityId: view.order.id,
+        before: { status: view.order.status },
+        after: { status: "cancelled" },
+      });
+      res.json({ ...view, order, editable: false });
+    } catch (error) {
+      res.status(500).json({ error: "Bestellung konnte nicht storniert werden" });
+    }
   });
 
-  app.post("/api/auth/change-password", requireAdmin, async (req, res) => {
+  app.post("/api/my-order/:token/payment", async (req, res) => {
     try {
-      const { currentPassword, newPassword } = req.body;
-      const adminPassword = await storage.getAdminPassword();
-      
-      if (currentPassword !== adminPassword) {
-        return res.status(401).json({ error: "Aktuelles Passwort ist falsch" });
+      const view = await loadOwnOrderView(req.params.token as string);
+      if (!view) {
+        return res.status(404).json({ error: "Bestellung nicht gefunden" });
       }
-      
-      if (!newPassword || newPassword.length < 1) {
-        return res.status(400).json({ error: "Neues Passwort ist erforderlich" });
+      if (!view.onlinePaymentAvailable) {
+        return res.status(409).json({ error: "Für diese Bestellung ist keine Online-Zahlung möglich" });
       }
-      
-      await storage.setAdminPassword(newPassword);
-      res.json({ success: true });
+      const { checkoutUrl } = await startOnlinePayment(req, view.order);
+      const checkout: PaymentCheckout = { checkoutUrl };
+      res.json(checkout);
     } catch (error) {
-      res.status(500).json({ error: "Passwortänderung fehlgeschlagen" });
+      if (error instanceof PaymentProviderError) {
+        console.error("Online-Zahlung konnte nicht gestartet werden:", error);
+        return res.status(502).json({ error: "Der Zahlungsanbieter ist gerade nicht erreichbar" });
+      }
+      res.status(500).json({ error: "Online-Zahlung konnte nicht gestartet werden" });
     }
   });
 
-  // Products CRUD (protected)
-  app.get("/api/products", async (req, res) => {
+  // GiroCode for the customer's banking app, linked from the confirmation email
+  app.get("/api/my-order/:token/girocode.png", async (req, res) => {
     try {
-      const products = await storage.getAllProducts();
-      res.json(products);
+      const order = await dbStorage.getOrderByAccessToken(req.params.token as string);
+      const transfer = order && (await getTransferDetails(order));
+      if (!transfer) {
+        return res.status(404).json({ error: "Kein offener Betrag für eine Überweisung" });
+      }
+      const image = await renderGiroCode(transfer);
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader("Cache-Control", "no-store"); // The amount changes with payments and order edits
+      res.send(image);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch products" });
+      res.status(500).json({ error: "GiroCode konnte nicht erstellt werden" });
     }
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  // Payment provider notifications; the body is verified against the raw request
+  app.post("/api/payments/webhook/:provider", async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const provider = getPaymentProvider();
+      if (!provider || provider.name !== req.params.provider) {
+        return res.status(404).json({ error: "Zahlungsanbieter nicht konfiguriert" });
       }
-      res.json(product);
+      const event = await provider.parseWebhook({
+        headers: req.headers,
+        rawBody: Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.from(""),
+      });
+      if (event) {
+        await applyPaymentEvent(req, event);
+      }
+      res.json({ received: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch product" });
+      if (error instanceof PaymentWebhookError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof UnknownPaymentError || error instanceof PaymentAmountError) {
+        console.error(error.message);
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Zahlungsbenachrichtigung fehlgeschlagen:", error);
+      res.status(500).json({ error: "Zahlungsbenachrichtigung konnte nicht verarbeitet werden" });
+    }
+  });
+
+  // Checkout page of the fake provider (PAYMENT_PROVIDER=fake, development only)
+  app.get("/api/payments/fake/:reference", (req, res) => {
+    const checkout = getFakeCheckout(req.params.reference as string);
+    if (getPaymentProvider()?.name !== "fake" || !checkout) {
+      return res.status(404).send("Zahlung nicht gefunden");
     }
+    res.type("html").send(`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Test-Zahlung</title></head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 40px auto; padding: 20px;">
+  <h1 style="font-size: 20px;">Test-Zahlung (Sandbox)</h1>
+  <p>${escapeHtml(checkout.description)}</p>
+  <p><strong>Betrag: ${formatPrice(checkout.amount)}</strong></p>
+  <form method="post" style="display: flex; gap: 8px;">
+    <button name="outcome" value="paid">Bezahlen</button>
+    <button name="outcome" value="failed">Fehlschlagen lassen</button>
+    <button name="outcome" value="cancelled">Abbrechen</button>
+  </form>
+</body>
+</html>`);
   });
 
-  app.post("/api/products", requireAdmin, async (req, res) => {
+  app.post("/api/payments/fake/:reference", async (req, res) => {
     try {
-      const data = insertProductSchema.parse(req.body);
-      const product = await storage.createProduct(data);
-      res.status(201).json(product);
+      const checkout = getFakeCheckout(req.params.reference as string);
+      if (getPaymentProvider()?.name !== "fake" || !checkout) {
+        return res.status(404).send("Zahlung nicht gefunden");
+      }
+      const state = req.body.outcome === "paid" || req.body.outcome === "failed" ? req.body.outcome : "cancelled";
+      await applyPaymentEvent(req, { reference: checkout.reference, state, amount: checkout.amount });
+      completeFakeCheckout(checkout.reference);
+      res.redirect(state === "paid" ? checkout.successUrl : checkout.cancelUrl);
+    } catch (error) {
+      console.error("Test-Zahlung fehlgeschlagen:", error);
+      res.status(500).send("Test-Zahlung fehlgeschlagen");
+    }
+  });
+
+  // Bulk status change, e.g. "all orders of a campaign were delivered"
+  app.post("/api/orders/status", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const { orderIds, status } = bulkUpdateOrderStatusSchema.parse(req.body);
+      const updated = [];
+      const skipped: { id: string; reason: string }[] = [];
+
+      for (const id of orderIds) {
+        const before = await dbStorage.getOrder(id);
+        if (!before) {
+          skipped.push({ id, reason: "Bestellung nicht gefunden" });
+          continue;
+        }
+        if (before.status === status) {
+          continue;
+        }
+        if (!canTransitionOrderStatus(before.status, status)) {
+          skipped.push({
+            id,
+            reason: `Statuswechsel von "${ORDER_STATUS_LABELS[before.status]}" nach "${ORDER_STATUS_LABELS[status]}" nicht erlaubt`,
+          });
+          continue;
+        }
+        const order = await dbStorage.updateOrderStatus(id, status);
+        if (order) {
+          await recordAudit(req, {
+            action: "update",
+            entityType: "order",
+            entityId: id,
+            before: { status: before.status },
+            after: { status: order.status },
+          });
+          updated.push(order);
+        }
+      }
+
+      res.json({ updated, skipped });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create product" });
+      res.status(500).json({ error: "Failed to update order status" });
     }
   });
 
-  app.patch("/api/products/:id", requireAdmin, async (req, res) => {
+  app.patch("/api/orders/:id/status", requireRole("shop-admin"), async (req, res) => {
     try {
-      const data = insertProductSchema.partial().parse(req.body);
-      const product = await storage.updateProduct(req.params.id as string, data);
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
+      const { status } = updateOrderStatusSchema.parse(req.body);
+      const before = await dbStorage.getOrder(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ error: "Order not found" });
       }
-      res.json(product);
+      if (before.status !== status && !canTransitionOrderStatus(before.status, status)) {
+        return res.status(400).json({
+          error: `Statuswechsel von "${ORDER_STATUS_LABELS[before.status]}" nach "${ORDER_STATUS_LABELS[status]}" nicht erlaubt`,
+        });
+      }
+      const order = await dbStorage.updateOrderStatus(before.id, status);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "order",
+        entityId: before.id,
+        before: { status: before.status },
+        after: { status },
+      });
+      res.json(order);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to update product" });
+      res.status(500).json({ error: "Failed to update order status" });
     }
   });
 
-  app.delete("/api/products/:id", requireAdmin, async (req, res) => {
+  app.patch("/api/orders/:id/payment", requireRole("shop-admin"), async (req, res) => {
     try {
-      const deleted = await storage.deleteProduct(req.params.id as string);
-      if (!deleted) {
-        return res.status(404).json({ error: "Product not found" });
+      const data = updateOrderPaymentSchema.parse(req.body);
+      const before = await dbStorage.getOrder(req.params.id as string);
+      if (!before) {
+        return res.status(404).json({ error: "Order not found" });
       }
-      res.status(204).send();
+      const order = await dbStorage.updateOrderPayment(before.id, data);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "order",
+        entityId: before.id,
+        before: { paidAmount: before.paidAmount, paymentMethod: before.paymentMethod, paidAt: before.paidAt },
+        after: order && { paidAmount: order.paidAmount, paymentMethod: order.paymentMethod, paidAt: order.paidAt },
+      });
+      res.json(order);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete product" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update payment" });
     }
   });
 
-  // Campaigns CRUD
-  app.get("/api/campaigns", async (req, res) => {
+  // Credits of an uploaded CAMT.053 or CSV statement that carry an order's payment
+  // reference (or number) and exactly its open amount mark the order as paid
+  app.post("/api/payments/bank-statement", requireRole("shop-admin"), upload.single("statement"), async (req, res) => {
     try {
-      const campaigns = await storage.getAllCampaigns();
-      res.json(campaigns);
+      if (!req.file) {
+        return res.status(400).json({ error: "Kein Kontoauszug hochgeladen" });
+      }
+      const { transactions, ignoredCount } = parseBankStatement(req.file.buffer);
+      const plan = matchBankTransactions(transactions, await dbStorage.getAllOrders());
+
+      const result: ReconciliationResult = { matched: [], unmatched: plan.unmatched, ignoredCount };
+      for (const { order: before, ...match } of plan.matched) {
+        const order = await dbStorage.addOrderPayment(before.id, before.paidAmount, match.amount, "transfer", match.date);
+        if (!order) {
+          const { orderId, orderNumber, customerName, campaignName, ...transaction } = match;
+          result.unmatched.push({ ...transaction, orderId, orderNumber, reason: "Zahlung wurde inzwischen anderweitig erfasst" });
+          continue;
+        }
+        await recordAudit(req, {
+          action: "update",
+          entityType: "order",
+          entityId: before.id,
+          before: { paidAmount: before.paidAmount, paymentMethod: before.paymentMethod, paidAt: before.paidAt },
+          after: { paidAmount: order.paidAmount, paymentMethod: order.paymentMethod, paidAt: order.paidAt },
+        });
+        result.matched.push(match);
+      }
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch campaigns" });
+      if (error instanceof BankStatementError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Kontoauszug konnte nicht verarbeitet werden:", error);
+      res.status(500).json({ error: "Kontoauszug konnte nicht verarbeitet werden" });
     }
   });
 
-  app.get("/api/campaigns/active", async (req, res) => {
+  // Customer notifications for a whole campaign ("ready for pickup" / "cancelled")
+  app.post("/api/orders/notify", requireRole("shop-admin"), async (req, res) => {
     try {
-      const campaigns = await storage.getActiveCampaigns();
-      res.json(campaigns);
+      const data = sendOrderNotificationsSchema.parse(req.body);
+      if (!isEmailEnabled()) {
+        return res.status(400).json({ error: EMAIL_DISABLED_MESSAGE });
+      }
+
+      const orders = (await dbStorage.getOrdersByCampaign(data.campaignId))
+        .filter((order) => order.status === ORDER_NOTIFICATION_STATUS[data.type]);
+      const notifications = await dbStorage.getOrderNotifications(orders.map((o) => o.id));
+      const alreadyNotified = new Set(
+        notifications.filter((n) => n.type === data.type && n.success).map((n) => n.orderId)
+      );
+
+      const pickup = data.pickupLocation && data.pickupTime
+        ? { pickupLocation: data.pickupLocation, pickupTime: data.pickupTime }
+        : undefined;
+      let sent = 0;
+      let skipped = 0;
+      const failed: { orderId: string; email: string; error?: string }[] = [];
+
+      // Sequential on purpose: keeps us below the mail provider's rate limit
+      for (const order of orders) {
+        if (!data.force && alreadyNotified.has(order.id)) {
+          skipped++;
+          continue;
+        }
+        let result: EmailResult;
+        try {
+          const attachments =
+            data.attachInvoice && order.status !== "cancelled" ? [await buildInvoiceAttachment(req, order)] : undefined;
+          result = await sendOrderStatusNotification(order, data.type, { pickup, orderLink: getOrderLink(req, order) }, attachments);
+        } catch (error) {
+          console.error("Rechnung konnte nicht erstellt werden:", error);
+          result = { success: false, error: "Rechnung konnte nicht erstellt werden" };
+        }
+        await dbStorage.createOrderNotification({
+          orderId: order.id,
+          type: data.type,
+          email: order.email,
+          success: result.success,
+          error: result.error ?? null,
+        });
+        if (result.success) {
+          sent++;
+        } else {
+          failed.push({ orderId: order.id, email: order.email, error: result.error });
+        }
+      }
+
+      res.json({ sent, skipped, failed });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch active campaigns" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Failed to send notifications" });
     }
   });
 
-  app.get("/api/campaigns/:id", async (req, res) => {
+  // Issues the invoice on first download; cancelled orders only get an already issued one
+  app.get("/api/orders/:id/invoice", requireRole("shop-admin"), async (req, res) => {
     try {
-      const campaign = await storage.getCampaign(req.params.id);
-      if (!campaign) {
-        return res.status(404).json({ error: "Campaign not found" });
+      const order = await dbStorage.getOrder(req.params.id as string);
+      if (!order) {
+        return res.status(404).json({ error: "Bestellung nicht gefunden" });
       }
-      res.json(campaign);
+      const existing = await dbStorage.getInvoiceByOrder(order.id);
+      if (!existing && order.status === "cancelled") {
+        return res.status(409).json({ error: "Für stornierte Bestellungen wird keine Rechnung erstellt" });
+      }
+      const { invoice, snapshot } = await issueInvoice(req, order);
+      const pdf = await buildInvoicePdf(invoice, snapshot);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${invoiceFileName(invoice)}"`);
+      res.send(pdf);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch campaign" });
+      console.error("Error creating invoice:", error);
+      res.status(500).json({ error: "Rechnung konnte nicht erstellt werden" });
     }
   });
 
-  app.post("/api/campaigns", requireAdmin, async (req, res) => {
+  app.get("/api/orders/:id/notifications", requireAuth, async (req, res) => {
     try {
-      const data = insertCampaignSchema.parse(req.body);
-      const campaign = await storage.createCampaign(data);
-      res.status(201).json(campaign);
+      const notifications = await dbStorage.getOrderNotifications([req.params.id as string]);
+      res.json(notifications);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
-      }
-      res.status(500).json({ error: "Failed to create campaign" });
+      res.status(500).json({ error: "Failed to fetch notifications" });
     }
   });
 
-  app.patch("/api/campaigns/:id", requireAdmin, async (req, res) => {
+  // Export (admin only): ?format=csv (default) or ?format=xlsx
+  app.get("/api/orders/export/:campaignId", requireAuth, async (req, res) => {
     try {
-      const data = insertCampaignSchema.partial().parse(req.body);
-      const campaign = await storage.updateCampaign(req.params.id as string, data);
+      const { format } = exportFormatQuerySchema.parse(req.query);
+      const campaignId = req.params.campaignId as string;
+      const orders = await dbStorage.getOrdersByCampaign(campaignId);
+      const campaign = await dbStorage.getCampaign(campaignId);
+
       if (!campaign) {
         return res.status(404).json({ error: "Campaign not found" });
       }
-      res.json(campaign);
+
+      if (format === "xlsx") {
+        const products = await dbStorage.getAllProducts();
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader("Content-Disposition", `attachment; filename="${exportFileName("bestellungen", campaign, "xlsx")}"`);
+        return res.send(buildOrdersWorkbook(orders, products));
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName("bestellungen", campaign, "csv")}"`);
+      res.send(buildOrdersCsv(orders));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to update campaign" });
+      res.status(500).json({ error: "Failed to export orders" });
     }
   });
 
-  app.delete("/api/campaigns/:id", requireAdmin, async (req, res) => {
+  // Supplier purchase orders of a campaign, one per brand
+  app.get("/api/campaigns/:id/purchase-orders", requireAuth, async (req, res) => {
     try {
-      const deleted = await storage.deleteCampaign(req.params.id as string);
-      if (!deleted) {
+      const campaignId = req.params.id as string;
+      const campaign = await dbStorage.getCampaign(campaignId);
+      if (!campaign) {
         return res.status(404).json({ error: "Campaign not found" });
       }
-      res.status(204).send();
+      const orders = await dbStorage.getOrdersByCampaign(campaignId);
+      const products = await dbStorage.getAllProducts();
+      res.json(buildPurchaseOrders(orders, products));
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete campaign" });
+      res.status(500).json({ error: "Failed to build purchase orders" });
     }
   });
 
-  // Orders (admin only for viewing)
-  app.get("/api/orders", requireAdmin, async (req, res) => {
+  // Reporting dashboard: key figures, charts data and comparison to earlier campaigns
+  app.get("/api/campaigns/:id/report", requireAuth, async (req, res) => {
     try {
-      const orders = await storage.getAllOrders();
-      res.json(orders);
+      const campaign = await dbStorage.getCampaign(req.params.id as string);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      const [campaigns, orders, products] = await Promise.all([
+        dbStorage.getAllCampaigns(),
+        dbStorage.getAllOrders(),
+        dbStorage.getAllProducts(),
+      ]);
+      res.json(buildCampaignReport(campaign, campaigns, orders, products));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
+      res.status(500).json({ error: "Auswertung konnte nicht erstellt werden" });
     }
   });
 
-  app.get("/api/orders/campaign/:campaignId", requireAdmin, async (req, res) => {
+  // Printable purchase order for one supplier: ?supplier=<brand>&format=pdf (default) or csv
+  app.get("/api/campaigns/:id/purchase-orders/export", requireAuth, async (req, res) => {
     try {
-      const orders = await storage.getOrdersByCampaign(req.params.campaignId as string);
-      res.json(orders);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch orders" });
-    }
-  });
+      const { supplier, format } = purchaseOrderExportQuerySchema.parse(req.query);
+      const campaignId = req.params.id as string;
+      const campaign = await dbStorage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      const orders = await dbStorage.getOrdersByCampaign(campaignId);
+      const products = await dbStorage.getAllProducts();
+      const purchaseOrder = buildPurchaseOrders(orders, products).find((po) => po.supplier === supplier);
+      if (!purchaseOrder) {
+        return res.status(404).json({ error: `Keine Bestellpositionen für Lieferant "${supplier}"` });
+      }
 
-  app.post("/api/orders", async (req, res) => {
-    try {
-      const data = insertOrderSchema.parse(req.body);
-      const order = await storage.createOrder(data);
-      
-      // Send confirmation email (don't wait for it, don't fail if it fails)
-      sendOrderConfirmation(order).catch((err) => {
-        console.error("E-Mail-Versand fehlgeschlagen:", err);
-      });
-      
-      res.status(201).json(order);
+      const prefix = `bestellung-${supplier.replace(/[^a-zA-Z0-9]/g, "_")}`;
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(prefix, campaign, "csv")}"`);
+        return res.send(buildPurchaseOrderCsv(purchaseOrder));
+      }
+
+      const pdf = await buildPurchaseOrderPdf(campaign, purchaseOrder);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(prefix, campaign, "pdf")}"`);
+      res.send(pdf);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
       }
-      res.status(500).json({ error: "Failed to create order" });
+      console.error("Error exporting purchase order:", error);
+      res.status(500).json({ error: "Failed to export purchase order" });
     }
   });
 
-  // Excel Export (admin only)
-  app.get("/api/orders/export/:campaignId", requireAdmin, async (req, res) => {
+  // Distribution day print-outs: ?sort=name (default) or team
+  app.get("/api/campaigns/:id/pickup-documents/:document", requireAuth, async (req, res) => {
     try {
-      const campaignId = req.params.campaignId as string;
-      const orders = await storage.getOrdersByCampaign(campaignId);
-      const campaign = await storage.getCampaign(campaignId);
-
+      const { sort } = pickupDocumentQuerySchema.parse(req.query);
+      const document = z.enum(["packing-list", "pickup-sheets"]).parse(req.params.document);
+      const campaignId = req.params.id as string;
+      const campaign = await dbStorage.getCampaign(campaignId);
       if (!campaign) {
         return res.status(404).json({ error: "Campaign not found" });
       }
-
-      // Create CSV content (Excel-compatible)
-      const headers = [
-        "Bestellnr",
-        "Vorname",
-        "Nachname",
-        "E-Mail",
-        "Produkt",
-        "Kategorie",
-        "Größe",
-        "Initialien",
-        "Anzahl",
-        "Einzelpreis",
-        "Gesamtpreis",
-        "Bestelldatum",
-      ];
-
-      const rows: string[][] = [];
-
-      orders.forEach((order) => {
-        order.items.forEach((item) => {
-          rows.push([
-            order.id.slice(0, 8),
-            order.firstName,
-            order.lastName,
-            order.email,
-            item.productName,
-            item.category,
-            item.size,
-            item.withInitials ? item.initialsText || "" : "-",
-            item.quantity.toString(),
-            item.unitPrice.toFixed(2).replace(".", ","),
-            item.totalPrice.toFixed(2).replace(".", ","),
-            new Date(order.createdAt).toLocaleDateString("de-DE"),
-          ]);
-        });
-      });
-
-      // BOM for Excel UTF-8 compatibility
-      const BOM = "\uFEFF";
-      const csvContent =
-        BOM +
-        headers.join(";") +
-        "\n" +
-        rows.map((row) => row.map((cell) => `"${cell}"`).join(";")).join("\n");
-
-      res.setHeader("Content-Type", "text/csv; charset=utf-8");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="bestellungen-${campaign.name.replace(/[^a-zA-Z0-9]/g, "_")}.csv"`
-      );
-      res.send(csvContent);
+      const orders = await dbStorage.getOrdersByCampaign(campaignId);
+
+      const pdf = document === "packing-list"
+        ? await buildPackingListPdf(campaign, orders, sort)
+        : await buildPickupSheetsPdf(campaign, orders, sort);
+      const prefix = document === "packing-list" ? "packliste" : "abholscheine";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(prefix, campaign, "pdf")}"`);
+      res.send(pdf);
     } catch (error) {
-      res.status(500).json({ error: "Failed to export orders" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Error creating pickup document:", error);
+      res.status(500).json({ error: "Failed to create pickup document" });
     }
   });
 
@@ -560,7 +1824,7 @@ export async function registerRoutes(
   dbStorage.initializeDefaultFieldMappings().catch(console.error);
 
   // Get all calendar events (from database)
-  app.get("/api/calendar/events", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/events", requireAuth, async (req, res) => {
     try {
       const { startDate, endDate, field, team, type } = req.query;
       let events;
@@ -598,7 +1862,7 @@ export async function registerRoutes(
   });
 
   // Get single calendar event
-  app.get("/api/calendar/events/:id", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/events/:id", requireAuth, async (req, res) => {
     try {
       const event = await dbStorage.getCalendarEvent(req.params.id as string);
       if (!event) {
@@ -611,10 +1875,14 @@ export async function registerRoutes(
   });
 
   // Create calendar event
-  app.post("/api/calendar/events", requireAdmin, async (req, res) => {
+  app.post("/api/calendar/events", requireRole("planner", "coach"), async (req, res) => {
     try {
       const data = insertCalendarEventSchema.parse(req.body);
+      if (!canManageCalendarEvent(req.currentUser!, data)) {
+        return res.status(403).json({ error: CALENDAR_FORBIDDEN_MESSAGE });
+      }
       const event = await dbStorage.createCalendarEvent(data);
+      await recordAudit(req, { action: "create", entityType: "calendar-event", entityId: event.id, after: event });
       res.status(201).json(event);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -626,13 +1894,25 @@ export async function registerRoutes(
   });
 
   // Update calendar event
-  app.patch("/api/calendar/events/:id", requireAdmin, async (req, res) => {
+  app.patch("/api/calendar/events/:id", requireRole("planner", "coach"), async (req, res) => {
     try {
       const data = insertCalendarEventSchema.partial().parse(req.body);
+      const existing = await dbStorage.getCalendarEvent(req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ error: "Termin nicht gefunden" });
+      }
+      // Both the current and the resulting event must be within the user's scope
+      if (
+        !canManageCalendarEvent(req.currentUser!, existing) ||
+        !canManageCalendarEvent(req.currentUser!, { ...existing, ...data })
+      ) {
+        return res.status(403).json({ error: CALENDAR_FORBIDDEN_MESSAGE });
+      }
       const event = await dbStorage.updateCalendarEvent(req.params.id as string, data);
       if (!event) {
         return res.status(404).json({ error: "Termin nicht gefunden" });
       }
+      await recordAudit(req, { action: "update", entityType: "calendar-event", entityId: event.id, before: existing, after: event });
       res.json(event);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -643,12 +1923,20 @@ export async function registerRoutes(
   });
 
   // Delete calendar event
-  app.delete("/api/calendar/events/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/calendar/events/:id", requireRole("planner", "coach"), async (req, res) => {
     try {
+      const existing = await dbStorage.getCalendarEvent(req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ error: "Termin nicht gefunden" });
+      }
+      if (!canManageCalendarEvent(req.currentUser!, existing)) {
+        return res.status(403).json({ error: CALENDAR_FORBIDDEN_MESSAGE });
+      }
       const deleted = await dbStorage.deleteCalendarEvent(req.params.id as string);
       if (!deleted) {
         return res.status(404).json({ error: "Termin nicht gefunden" });
       }
+      await recordAudit(req, { action: "delete", entityType: "calendar-event", entityId: existing.id, before: existing });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Termin konnte nicht gelöscht werden" });
@@ -656,7 +1944,7 @@ export async function registerRoutes(
   });
 
   // Get events by recurring group
-  app.get("/api/calendar/events/recurring/:groupId", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/events/recurring/:groupId", requireAuth, async (req, res) => {
     try {
       const events = await dbStorage.getCalendarEventsByRecurringGroup(req.params.groupId as string);
       res.json(events);
@@ -666,10 +1954,26 @@ export async function registerRoutes(
   });
 
   // Update all events in recurring group
-  app.patch("/api/calendar/events/recurring/:groupId", requireAdmin, async (req, res) => {
+  app.patch("/api/calendar/events/recurring/:groupId", requireRole("planner", "coach"), async (req, res) => {
     try {
       const data = insertCalendarEventSchema.partial().parse(req.body);
+      const groupEvents = await dbStorage.getCalendarEventsByRecurringGroup(req.params.groupId as string);
+      const allowed = groupEvents.every(
+        (e) =>
+          canManageCalendarEvent(req.currentUser!, e) &&
+          canManageCalendarEvent(req.currentUser!, { ...e, ...data })
+      );
+      if (!allowed) {
+        return res.status(403).json({ error: CALENDAR_FORBIDDEN_MESSAGE });
+      }
       const count = await dbStorage.updateCalendarEventsByRecurringGroup(req.params.groupId as string, data);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "recurring-group",
+        entityId: req.params.groupId as string,
+        before: groupEvents,
+        after: await dbStorage.getCalendarEventsByRecurringGroup(req.params.groupId as string),
+      });
       res.json({ updated: count });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -680,9 +1984,14 @@ export async function registerRoutes(
   });
 
   // Delete all events in recurring group
-  app.delete("/api/calendar/events/recurring/:groupId", requireAdmin, async (req, res) => {
+  app.delete("/api/calendar/events/recurring/:groupId", requireRole("planner", "coach"), async (req, res) => {
     try {
+      const groupEvents = await dbStorage.getCalendarEventsByRecurringGroup(req.params.groupId as string);
+      if (!groupEvents.every((e) => canManageCalendarEvent(req.currentUser!, e))) {
+        return res.status(403).json({ error: CALENDAR_FORBIDDEN_MESSAGE });
+      }
       const count = await dbStorage.deleteCalendarEventsByRecurringGroup(req.params.groupId as string);
+      await recordAudit(req, { action: "delete", entityType: "recurring-group", entityId: req.params.groupId as string, before: groupEvents });
       res.json({ deleted: count });
     } catch (error) {
       res.status(500).json({ error: "Wiederkehrende Termine konnten nicht gelöscht werden" });
@@ -690,7 +1999,7 @@ export async function registerRoutes(
   });
 
   // Check for conflicts
-  app.get("/api/calendar/conflicts", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/conflicts", requireAuth, async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       if (!startDate || !endDate) {
@@ -736,7 +2045,7 @@ export async function registerRoutes(
   });
 
   // Field Mappings
-  app.get("/api/calendar/field-mappings", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/field-mappings", requireAuth, async (req, res) => {
     try {
       const mappings = await dbStorage.getAllFieldMappings();
       res.json(mappings);
@@ -745,10 +2054,11 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/calendar/field-mappings", requireAdmin, async (req, res) => {
+  app.post("/api/calendar/field-mappings", requireRole("planner"), async (req, res) => {
     try {
       const data = insertFieldMappingSchema.parse(req.body);
       const mapping = await dbStorage.createFieldMapping(data);
+      await recordAudit(req, { action: "create", entityType: "field-mapping", entityId: mapping.id, after: mapping });
       res.status(201).json(mapping);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -758,12 +2068,14 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/calendar/field-mappings/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/calendar/field-mappings/:id", requireRole("planner"), async (req, res) => {
     try {
+      const before = await dbStorage.getFieldMapping(req.params.id as string);
       const deleted = await dbStorage.deleteFieldMapping(req.params.id as string);
       if (!deleted) {
         return res.status(404).json({ error: "Platzzuordnung nicht gefunden" });
       }
+      await recordAudit(req, { action: "delete", entityType: "field-mapping", entityId: req.params.id as string, before });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Platzzuordnung konnte nicht gelöscht werden" });
@@ -771,7 +2083,7 @@ export async function registerRoutes(
   });
 
   // BFV Import Config
-  app.get("/api/calendar/bfv-configs", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/bfv-configs", requireAuth, async (req, res) => {
     try {
       const configs = await dbStorage.getAllBfvImportConfigs();
       res.json(configs);
@@ -780,10 +2092,11 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/calendar/bfv-configs", requireAdmin, async (req, res) => {
+  app.post("/api/calendar/bfv-configs", requireRole("planner"), async (req, res) => {
     try {
       const data = insertBfvImportConfigSchema.parse(req.body);
       const config = await dbStorage.createBfvImportConfig(data);
+      await recordAudit(req, { action: "create", entityType: "bfv-config", entityId: config.id, after: config });
       res.status(201).json(config);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -793,12 +2106,14 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/calendar/bfv-configs/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/calendar/bfv-configs/:id", requireRole("planner"), async (req, res) => {
     try {
+      const before = await dbStorage.getBfvImportConfig(req.params.id as string);
       const deleted = await dbStorage.deleteBfvImportConfig(req.params.id as string);
       if (!deleted) {
         return res.status(404).json({ error: "BFV-Konfiguration nicht gefunden" });
       }
+      await recordAudit(req, { action: "delete", entityType: "bfv-config", entityId: req.params.id as string, before });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "BFV-Konfiguration konnte nicht gelöscht werden" });
@@ -806,7 +2121,7 @@ export async function registerRoutes(
   });
   
   // Import history
-  app.get("/api/calendar/import-history", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/import-history", requireAuth, async (req, res) => {
     try {
       const history = await dbStorage.getImportHistory();
       res.json(history);
@@ -816,7 +2131,7 @@ export async function registerRoutes(
   });
 
   // BFV Import - Fetch and import matches from BFV website using idempotent import service
-  app.post("/api/calendar/bfv-import/:configId", requireAdmin, async (req, res) => {
+  app.post("/api/calendar/bfv-import/:configId", requireRole("planner"), async (req, res) => {
     try {
       const configId = req.params.configId as string;
       const useSampleData = req.query.sample === "true";
@@ -897,6 +2212,7 @@ export async function registerRoutes(
       await dbStorage.updateBfvImportConfig(configId, {
         lastImport: new Date().toISOString(),
       });
+      await recordAudit(req, { action: "import", entityType: "bfv-import", entityId: configId, after: summary });
 
       res.json({ 
         success: true, 
@@ -914,7 +2230,7 @@ export async function registerRoutes(
   });
 
   // Calendar Export (PDF placeholder - would need a PDF library for full implementation)
-  app.get("/api/calendar/export", requireAdmin, async (req, res) => {
+  app.get("/api/calendar/export", requireAuth, async (req, res) => {
     try {
       const { startDate, endDate, format } = req.query;
       
@@ -976,7 +2292,7 @@ export async function registerRoutes(
   });
 
   // BFV PDF Import - Upload and parse PDF Vereinsspielplan with idempotent upsert
-  app.post("/api/calendar/bfv-import-pdf", requireAdmin, upload.single("pdf"), async (req, res) => {
+  app.post("/api/calendar/bfv-import-pdf", requireRole("planner"), upload.single("pdf"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "Keine PDF-Datei hochgeladen" });
@@ -1017,6 +2333,12 @@ export async function registerRoutes(
       
       // Use idempotent import service
       const summary = await importBfvMatches(bfvMatches, req.file.originalname);
+      await recordAudit(req, {
+        action: "import",
+        entityType: "bfv-import",
+        entityId: req.file.originalname,
+        after: summary,
+      });
       
       res.json({ 
         success: true, 
@@ -1034,11 +2356,131 @@ export async function registerRoutes(
     }
   });
 
+  // ============================================
+  // AUDIT LOG
+  // ============================================
+
+  app.get("/api/audit-log", requireRole("admin"), async (req, res) => {
+    try {
+      const filter = auditLogFilterSchema.parse(req.query);
+      const entries = await dbStorage.getAuditLog(filter);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Protokoll konnte nicht geladen werden" });
+    }
+  });
+
+  // ============================================
+  // EMAIL TEMPLATES
+  // ============================================
+
+  app.get("/api/settings/bank-account", requireAuth, async (req, res) => {
+    try {
+      res.json((await dbStorage.getBankAccount()) ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Bankverbindung konnte nicht geladen werden" });
+    }
+  });
+
+  app.put("/api/settings/bank-account", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const account = bankAccountSchema.parse(req.body);
+      const before = await dbStorage.getBankAccount();
+      await dbStorage.setBankAccount(account);
+      await recordAudit(req, { action: "update", entityType: "bank-account", entityId: "bank_account", before, after: account });
+      res.json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Bankverbindung konnte nicht gespeichert werden" });
+    }
+  });
+
+  app.get("/api/email-templates", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const templates = await Promise.all(EMAIL_TEMPLATE_KEYS.map((key) => getEmailTemplate(key)));
+      res.json({ templates, emailEnabled: isEmailEnabled() });
+    } catch (error) {
+      res.status(500).json({ error: "E-Mail-Vorlagen konnten nicht geladen werden" });
+    }
+  });
+
+  app.put("/api/email-templates/:key", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const key = emailTemplateKeySchema.parse(req.params.key);
+      const data = updateEmailTemplateSchema.parse(req.body);
+      const before = await getEmailTemplate(key);
+      await dbStorage.setEmailTemplate(key, data);
+      const template = await getEmailTemplate(key);
+      await recordAudit(req, { action: "update", entityType: "email-template", entityId: key, before, after: template });
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "E-Mail-Vorlage konnte nicht gespeichert werden" });
+    }
+  });
+
+  // Reset to the built-in default
+  app.delete("/api/email-templates/:key", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const key = emailTemplateKeySchema.parse(req.params.key);
+      const before = await getEmailTemplate(key);
+      await dbStorage.deleteEmailTemplate(key);
+      const template = await getEmailTemplate(key);
+      await recordAudit(req, { action: "delete", entityType: "email-template", entityId: key, before });
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "E-Mail-Vorlage konnte nicht zurückgesetzt werden" });
+    }
+  });
+
+  // Renders unsaved template text against a sample order
+  app.post("/api/email-templates/preview", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const { key, subject, body } = previewEmailTemplateSchema.parse(req.body);
+      const preview = await renderEmailPreview(key, { subject, body });
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Vorschau konnte nicht erstellt werden" });
+    }
+  });
+
+  app.post("/api/email-templates/test", requireRole("shop-admin"), async (req, res) => {
+    try {
+      const { key, subject, body, to } = sendTestEmailSchema.parse(req.body);
+      if (!isEmailEnabled()) {
+        return res.status(400).json({ error: EMAIL_DISABLED_MESSAGE });
+      }
+      const result = await sendTestEmail(to, key, { subject, body });
+      if (!result.success) {
+        return res.status(502).json({ error: `Test-E-Mail konnte nicht gesendet werden: ${result.error}` });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Test-E-Mail konnte nicht gesendet werden" });
+    }
+  });
+
   // ============================================
   // IMAGE UPLOAD & SERVING
   // ============================================
 
-  app.post("/api/images/upload", requireAdmin, upload.single("image"), async (req, res) => {
+  app.post("/api/images/upload", requireRole("shop-admin"), upload.single("image"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "Keine Bilddatei hochgeladen" });
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { pgTable, varchar, text, integer, boolean, timestamp, jsonb, unique, index } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, integer, boolean, timestamp, jsonb, numeric, unique, index } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 
@@ -91,6 +91,198 @@ export const adminSettingsTable = pgTable("admin_settings", {
   value: text("value").notNull(),
 });
 
+// Size sets table - size systems (clothing, kids, socks, shoes, ...) that products reference
+export const sizeSetsTable = pgTable("size_sets", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  sizes: jsonb("sizes").$type<string[]>().notNull().default([]), // In display order
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Products table - shop articles offered in campaigns
+export const productsTable = pgTable("products", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  category: varchar("category", { length: 100 }).notNull(),
+  basePrice: numeric("base_price", { precision: 10, scale: 2 }).notNull(),
+  imageUrl: text("image_url").notNull().default(""),
+  additionalImages: jsonb("additional_images").$type<string[]>().notNull().default([]),
+  active: boolean("active").notNull().default(true),
+  shortDescription: text("short_description"),
+  longDescription: text("long_description"),
+  brand: varchar("brand", { length: 100 }),
+  season: varchar("season", { length: 100 }),
+  sizeSetId: varchar("size_set_id", { length: 36 }).references(() => sizeSetsTable.id), // Null until migrated to the default set
+  availableSizes: jsonb("available_sizes").$type<string[]>().notNull().default([]), // Subset of the size set
+  initialsEnabled: boolean("initials_enabled").notNull().default(false),
+  initialsPrice: numeric("initials_price", { precision: 10, scale: 2 }).notNull().default("0"),
+  initialsLabel: varchar("initials_label", { length: 100 }).notNull().default("Initialien"),
+  personalizationFields: jsonb("personalization_fields").$type<PersonalizationField[]>().notNull().default([]), // e.g. back name, number
+  variants: jsonb("variants").$type<ProductVariant[]>().notNull().default([]), // e.g. colors
+  sizePrices: jsonb("size_prices").$type<Record<string, number>>().notNull().default({}), // Price overrides per size
+  stock: jsonb("stock").$type<Record<string, number>>().notNull().default({}), // Per size (and variant), only for tracked keys
+  allowBackorder: boolean("allow_backorder").notNull().default(false), // Accept orders beyond stock
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Stock movements table - history of every stock change per product and size
+export const stockMovementsTable = pgTable("stock_movements", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id", { length: 36 }).notNull().references(() => productsTable.id, { onDelete: "cascade" }),
+  size: varchar("size", { length: 20 }).notNull(),
+  variantId: varchar("variant_id", { length: 36 }),
+  change: integer("change").notNull(), // Negative for outgoing stock
+  stockAfter: integer("stock_after").notNull(),
+  reason: varchar("reason", { length: 20 }).notNull(), // order, order-change, order-cancel, order-restore, adjustment
+  orderId: varchar("order_id", { length: 36 }),
+  note: text("note"),
+  createdBy: varchar("created_by", { length: 255 }), // Admin user for manual adjustments
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_stock_movements_product").on(table.productId),
+]);
+
+// Campaigns table - collective ordering periods
+export const campaignsTable = pgTable("campaigns", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description").notNull(),
+  startDate: varchar("start_date", { length: 10 }).notNull(), // YYYY-MM-DD
+  endDate: varchar("end_date", { length: 10 }).notNull(), // YYYY-MM-DD
+  active: boolean("active").notNull().default(true),
+  productIds: jsonb("product_ids").$type<string[]>().notNull().default([]),
+  reminderDaysBefore: integer("reminder_days_before"), // Null: no deadline reminder
+  reminderAudience: varchar("reminder_audience", { length: 20 }).notNull().default("past-customers"),
+  reminderEmails: jsonb("reminder_emails").$type<string[]>().notNull().default([]), // Mailing list audience
+  reminderSentAt: timestamp("reminder_sent_at"),
+  closedAt: timestamp("closed_at"), // Set when the scheduler closes the campaign after its end date
+  visibility: varchar("visibility", { length: 20 }).notNull().default("public"),
+  accessCode: varchar("access_code", { length: 50 }), // Required for visibility "code"
+  team: varchar("team", { length: 50 }), // Team campaign: orders are assigned to this team
+  onlinePayment: boolean("online_payment").notNull().default(false), // Offer prepayment at checkout
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Orders table - one row per submitted order
+export const ordersTable = pgTable("orders", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id", { length: 36 }).notNull(),
+  campaignName: varchar("campaign_name", { length: 255 }).notNull(), // Snapshot, survives campaign deletion
+  email: varchar("email", { length: 255 }).notNull(),
+  firstName: varchar("first_name", { length: 255 }).notNull(),
+  lastName: varchar("last_name", { length: 255 }).notNull(),
+  totalAmount: numeric("total_amount", { precision: 10, scale: 2 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("received"), // received, ordered, delivered, picked-up, cancelled
+  statusChangedAt: timestamp("status_changed_at"),
+  paidAmount: numeric("paid_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  paymentMethod: varchar("payment_method", { length: 20 }), // cash, transfer, other
+  paidAt: timestamp("paid_at"),
+  paymentProvider: varchar("payment_provider", { length: 20 }), // Online payment: stripe, paypal, fake
+  paymentReference: varchar("payment_reference", { length: 255 }), // Provider's checkout id of the latest attempt, all in payment_attempts
+  paymentState: varchar("payment_state", { length: 20 }), // Online payment: pending, paid, failed, cancelled
+  // Secret for the customer's order link; existing rows get a random value on migration
+  accessToken: varchar("access_token", { length: 64 }).notNull().unique().default(sql`replace(gen_random_uuid()::text, '-', '')`),
+  team: varchar("team", { length: 50 }), // Optional team the order is distributed to
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_orders_campaign").on(table.campaignId),
+  index("idx_orders_status").on(table.status),
+]);
+
+// Order items table - line items of an order (product data is snapshotted)
+export const orderItemsTable = pgTable("order_items", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id", { length: 36 }).notNull().references(() => ordersTable.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0), // Keeps the original item order
+  productId: varchar("product_id", { length: 36 }).notNull(),
+  productName: varchar("product_name", { length: 255 }).notNull(),
+  category: varchar("category", { length: 100 }).notNull(),
+  size: varchar("size", { length: 20 }).notNull(),
+  variantId: varchar("variant_id", { length: 36 }),
+  variantName: varchar("variant_name", { length: 100 }), // Snapshot like productName
+  quantity: integer("quantity").notNull(),
+  withInitials: boolean("with_initials").notNull().default(false),
+  initialsText: varchar("initials_text", { length: 100 }),
+  personalization: jsonb("personalization").$type<PersonalizationValue[]>().notNull().default([]), // Filled fields with label snapshot
+  unitPrice: numeric("unit_price", { precision: 10, scale: 2 }).notNull(),
+  initialsPrice: numeric("initials_price", { precision: 10, scale: 2 }).notNull().default("0"),
+  personalizationPrice: numeric("personalization_price", { precision: 10, scale: 2 }).notNull().default("0"), // Per piece
+  totalPrice: numeric("total_price", { precision: 10, scale: 2 }).notNull(),
+  wearerName: varchar("wearer_name", { length: 100 }), // Family orders: who the item is for
+  team: varchar("team", { length: 50 }), // Team of the wearer, overrides the order's team
+}, (table) => [
+  index("idx_order_items_order").on(table.orderId),
+]);
+
+// Order notifications table - customer emails sent per order (prevents double notification)
+export const orderNotificationsTable = pgTable("order_notifications", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id", { length: 36 }).notNull().references(() => ordersTable.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 30 }).notNull(), // ready-for-pickup, cancelled
+  email: varchar("email", { length: 255 }).notNull(),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_order_notifications_order").on(table.orderId),
+]);
+
+// Payment attempts table - every checkout opened for an order, so a late result
+// of an earlier checkout is still booked after the customer started a new one
+export const paymentAttemptsTable = pgTable("payment_attempts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id", { length: 36 }).notNull().references(() => ordersTable.id),
+  provider: varchar("provider", { length: 20 }).notNull(), // stripe, paypal, fake
+  reference: varchar("reference", { length: 255 }).notNull().unique(), // Provider's checkout id
+  amount: numeric("amount", { precision: 10, scale: 2 }), // Requested amount; null for checkouts taken over from orders
+  state: varchar("state", { length: 20 }).notNull().default("pending"), // pending, paid, failed, cancelled
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_payment_attempts_order").on(table.orderId),
+]);
+
+// Invoices table - at most one invoice per order; numbers are assigned without gaps
+export const invoicesTable = pgTable("invoices", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  number: integer("number").notNull().unique(),
+  orderId: varchar("order_id", { length: 36 }).notNull().unique().references(() => ordersTable.id),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  snapshot: jsonb("snapshot").$type<InvoiceSnapshot>(), // Content as issued; null for invoices issued before snapshots
+});
+
+// Users table - admin area accounts
+export const usersTable = pgTable("users", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  username: varchar("username", { length: 100 }).notNull().unique(),
+  passwordHash: varchar("password_hash", { length: 255 }).notNull(),
+  displayName: varchar("display_name", { length: 255 }),
+  role: varchar("role", { length: 20 }).notNull().default("viewer"), // admin, shop-admin, planner, coach, viewer
+  teams: jsonb("teams").$type<string[]>().notNull().default([]), // Team grants for coaches
+  active: boolean("active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  passwordChangedAt: timestamp("password_changed_at"), // Sessions from before are no longer valid
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Audit log table - who changed what, with before/after snapshots
+export const auditLogTable = pgTable("audit_log", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id", { length: 36 }), // null for public actions (e.g. customer orders)
+  actorName: varchar("actor_name", { length: 255 }).notNull(),
+  action: varchar("action", { length: 50 }).notNull(), // create, update, delete, import, password-change, login-failed
+  entityType: varchar("entity_type", { length: 50 }).notNull(),
+  entityId: varchar("entity_id", { length: 255 }),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_audit_created").on(table.createdAt),
+  index("idx_audit_entity").on(table.entityType, table.entityId),
+]);
+
 // Drizzle insert schemas
 export const insertCalendarEventDbSchema = createInsertSchema(calendarEventsTable).omit({
   id: true,
@@ -112,6 +304,54 @@ export const insertBfvImportHistoryDbSchema = createInsertSchema(bfvImportHistor
   importedAt: true,
 });
 
+export const insertSizeSetDbSchema = createInsertSchema(sizeSetsTable).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProductDbSchema = createInsertSchema(productsTable).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCampaignDbSchema = createInsertSchema(campaignsTable).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertUserDbSchema = createInsertSchema(usersTable).omit({
+  id: true,
+  lastLoginAt: true,
+  createdAt: true,
+});
+
+export const insertAuditLogDbSchema = createInsertSchema(auditLogTable).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrderDbSchema = createInsertSchema(ordersTable).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrderItemDbSchema = createInsertSchema(orderItemsTable).omit({
+  id: true,
+});
+
+export const insertOrderNotificationDbSchema = createInsertSchema(orderNotificationsTable).omit({
+  id: true,
+  sentAt: true,
+});
+
+export const insertStockMovementDbSchema = createInsertSchema(stockMovementsTable).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Type exports from Drizzle tables
 export type CalendarEventDb = typeof calendarEventsTable.$inferSelect;
 export type InsertCalendarEventDb = z.infer<typeof insertCalendarEventDbSchema>;
@@ -121,6 +361,27 @@ export type BfvImportConfigDb = typeof bfvImportConfigsTable.$inferSelect;
 export type InsertBfvImportConfigDb = z.infer<typeof insertBfvImportConfigDbSchema>;
 export type BfvImportHistoryDb = typeof bfvImportHistoryTable.$inferSelect;
 export type InsertBfvImportHistoryDb = z.infer<typeof insertBfvImportHistoryDbSchema>;
+export type SizeSetDb = typeof sizeSetsTable.$inferSelect;
+export type InsertSizeSetDb = typeof sizeSetsTable.$inferInsert;
+export type ProductDb = typeof productsTable.$inferSelect;
+// Inferred from the table (not drizzle-zod) so jsonb columns keep their $type
+export type InsertProductDb = typeof productsTable.$inferInsert;
+export type CampaignDb = typeof campaignsTable.$inferSelect;
+export type InsertCampaignDb = typeof campaignsTable.$inferInsert;
+export type OrderDb = typeof ordersTable.$inferSelect;
+export type InsertOrderDb = z.infer<typeof insertOrderDbSchema>;
+export type OrderItemDb = typeof orderItemsTable.$inferSelect;
+export type InsertOrderItemDb = typeof orderItemsTable.$inferInsert;
+export type OrderNotificationDb = typeof orderNotificationsTable.$inferSelect;
+export type InsertOrderNotificationDb = z.infer<typeof insertOrderNotificationDbSchema>;
+export type StockMovementDb = typeof stockMovementsTable.$inferSelect;
+export type InsertStockMovementDb = z.infer<typeof insertStockMovementDbSchema>;
+export type PaymentAttemptDb = typeof paymentAttemptsTable.$inferSelect;
+export type InvoiceDb = typeof invoicesTable.$inferSelect;
+export type UserDb = typeof usersTable.$inferSelect;
+export type InsertUserDb = typeof usersTable.$inferInsert;
+export type AuditLogDb = typeof auditLogTable.$inferSelect;
+export type InsertAuditLogDb = z.infer<typeof insertAuditLogDbSchema>;
 
 // Import summary result
 export interface BfvImportSummary {
@@ -132,9 +393,166 @@ export interface BfvImportSummary {
   errors: string[];
 }
 
-// Available sizes for products
-export const AVAILABLE_SIZES = ["S", "M", "L", "XL", "XXL", "128", "140", "152", "164"] as const;
-export type Size = typeof AVAILABLE_SIZES[number];
+// "YYYY-MM-DD", optionally with an ISO time; rejects anything Date cannot parse
+export const isoDateSchema = z
+  .string()
+  .refine((value) => /^\d{4}-\d{2}-\d{2}(T|$)/.test(value) && !Number.isNaN(Date.parse(value)), "Ungültiges Datum");
+
+// Teams/Mannschaften (calendar events, coach grants and team orders)
+export const TEAMS = [
+  "herren",
+  "herren2",
+  "a-jugend",
+  "b-jugend",
+  "c-jugend",
+  "d-jugend",
+  "e-jugend",
+  "f-jugend",
+  "g-jugend",
+  "damen",
+  "alte-herren"
+] as const;
+export type Team = typeof TEAMS[number];
+
+export const TEAM_LABELS: Record<Team, string> = {
+  "herren": "Herren",
+  "herren2": "Herren II",
+  "a-jugend": "A-Jugend",
+  "b-jugend": "B-Jugend",
+  "c-jugend": "C-Jugend",
+  "d-jugend": "D-Jugend",
+  "e-jugend": "E-Jugend",
+  "f-jugend": "F-Jugend",
+  "g-jugend": "G-Jugend",
+  "damen": "Damen",
+  "alte-herren": "Alte Herren"
+};
+
+// Sizes are defined per size set; a size is any label of the product's set
+export type Size = string;
+
+// Created on startup; products without size set are migrated to it
+export const DEFAULT_SIZE_SET_ID = "standard";
+export const DEFAULT_SIZE_SET_NAME = "Standard";
+export const DEFAULT_SIZES = ["S", "M", "L", "XL", "XXL", "128", "140", "152", "164"];
+
+/** @deprecated Sizes of the standard set only; use the product's availableSizes, its size set or DEFAULT_SIZES */
+export const AVAILABLE_SIZES: readonly Size[] = DEFAULT_SIZES;
+
+export interface SizeSet {
+  id: string;
+  name: string;
+  sizes: Size[];
+}
+
+export const insertSizeSetSchema = z.object({
+  name: z.string().trim().min(1, "Name ist erforderlich").max(100),
+  sizes: z
+    .array(z.string().trim().min(1, "Größe darf nicht leer sein").max(20, "Größe darf höchstens 20 Zeichen lang sein"))
+    .min(1, "Mindestens eine Größe angeben")
+    .refine((sizes) => new Set(sizes).size === sizes.length, "Größen müssen eindeutig sein"),
+});
+
+export type InsertSizeSet = z.infer<typeof insertSizeSetSchema>;
+
+// Sizes that are not part of the size set
+export function getUnknownSizes(sizeSet: Pick<SizeSet, "sizes">, sizes: Size[]): Size[] {
+  return sizes.filter((size) => !sizeSet.sizes.includes(size));
+}
+
+// Sorts sizes in the order of the size set
+export function sortSizes(sizeSet: Pick<SizeSet, "sizes">, sizes: Size[]): Size[] {
+  return sizes.slice().sort((a, b) => sizeSet.sizes.indexOf(a) - sizeSet.sizes.indexOf(b));
+}
+
+// Product variant, e.g. a color; the surcharge is added to the size price
+export interface ProductVariant {
+  id: string;
+  name: string;
+  imageUrl?: string;
+  surcharge: number;
+}
+
+export const productVariantSchema = z.object({
+  id: z.string().optional(), // Assigned by the server for new variants
+  name: z.string().min(1, "Name der Variante ist erforderlich"),
+  imageUrl: z.string().optional(),
+  surcharge: z.number().min(0, "Aufpreis muss positiv sein").default(0),
+});
+
+// Personalization printed on a product beyond the initials, e.g. back name,
+// number or sponsor logo
+export const PERSONALIZATION_FIELD_TYPES = ["text", "number", "select"] as const;
+export type PersonalizationFieldType = typeof PERSONALIZATION_FIELD_TYPES[number];
+
+export const PERSONALIZATION_FIELD_TYPE_LABELS: Record<PersonalizationFieldType, string> = {
+  text: "Text",
+  number: "Zahl",
+  select: "Auswahl",
+};
+
+export interface PersonalizationField {
+  id: string;
+  label: string;
+  type: PersonalizationFieldType;
+  required: boolean;
+  surcharge: number; // Per piece, only charged when the field is filled
+  maxLength?: number; // text
+  min?: number; // number
+  max?: number; // number
+  uniquePerTeam?: boolean; // number, e.g. jersey numbers within a team and campaign
+  options?: string[]; // select
+}
+
+export const personalizationFieldSchema = z
+  .object({
+    id: z.string().optional(), // Assigned by the server for new fields
+    label: z.string().trim().min(1, "Bezeichnung ist erforderlich").max(100),
+    type: z.enum(PERSONALIZATION_FIELD_TYPES),
+    required: z.boolean().default(false),
+    surcharge: z.number().min(0, "Aufpreis muss positiv sein").default(0),
+    maxLength: z.number().int().min(1).max(100).optional(),
+    min: z.number().int().optional(),
+    max: z.number().int().optional(),
+    uniquePerTeam: z.boolean().optional(),
+    options: z.array(z.string().trim().min(1)).optional(),
+  })
+  .refine((field) => field.type !== "select" || (field.options?.length ?? 0) > 0, {
+    message: "Auswahlfelder brauchen mindestens eine Option",
+    path: ["options"],
+  })
+  .refine((field) => field.min === undefined || field.max === undefined || field.min <= field.max, {
+    message: "Minimum darf nicht größer als Maximum sein",
+    path: ["min"],
+  });
+
+// Value of a filled personalization field on an order item
+export interface PersonalizationValue {
+  fieldId: string;
+  label: string; // Snapshot of the field label
+  value: string;
+}
+
+export const personalizationValueSchema = z.object({
+  fieldId: z.string(),
+  label: z.string(),
+  value: z.string(),
+});
+
+// Surcharge per piece for the filled fields
+export function getPersonalizationPrice(
+  product: Pick<Product, "personalizationFields">,
+  values: Pick<PersonalizationValue, "fieldId" | "value">[],
+): number {
+  return product.personalizationFields
+    .filter((field) => values.some((v) => v.fieldId === field.id && v.value.trim() !== ""))
+    .reduce((sum, field) => sum + field.surcharge, 0);
+}
+
+// e.g. "Rückenname: MÜLLER, Nummer: 10"
+export function formatPersonalization(values: PersonalizationValue[] | undefined): string {
+  return (values ?? []).map((v) => `${v.label}: ${v.value}`).join(", ");
+}
 
 // Product schema
 export interface Product {
@@ -149,10 +567,16 @@ export interface Product {
   longDescription?: string;
   brand?: string;
   season?: string;
-  availableSizes: Size[];
+  sizeSetId: string;
+  availableSizes: Size[]; // Offered sizes of the size set, in its order
+  variants: ProductVariant[]; // Empty: the product has no variants
+  sizePrices: Record<Size, number>; // Replaces basePrice for these sizes
   initialsEnabled: boolean;
   initialsPrice: number;
   initialsLabel: string;
+  personalizationFields: PersonalizationField[];
+  stock: Record<string, number>; // Keyed by getStockKey(); keys without entry are not tracked (unlimited)
+  allowBackorder: boolean;
 }
 
 export const insertProductSchema = z.object({
@@ -166,15 +590,142 @@ export const insertProductSchema = z.object({
   longDescription: z.string().optional(),
   brand: z.string().optional(),
   season: z.string().optional(),
-  availableSizes: z.array(z.enum(AVAILABLE_SIZES)).min(1, "Mindestens eine Größe auswählen"),
+  sizeSetId: z.string().min(1).default(DEFAULT_SIZE_SET_ID),
+  availableSizes: z.array(z.string().min(1)).min(1, "Mindestens eine Größe auswählen"), // Checked against the size set by the server
+  variants: z.array(productVariantSchema).default([]).refine(
+    (variants) => new Set(variants.map((v) => v.name.trim().toLowerCase())).size === variants.length,
+    "Variantennamen müssen eindeutig sein",
+  ),
+  sizePrices: z.record(z.string(), z.number().min(0, "Preis muss positiv sein")).default({}),
   initialsEnabled: z.boolean().default(false),
   initialsPrice: z.number().min(0).default(0),
   initialsLabel: z.string().default("Initialien"),
+  personalizationFields: z.array(personalizationFieldSchema).default([]).refine(
+    (fields) => new Set(fields.map((f) => f.label.toLowerCase())).size === fields.length,
+    "Bezeichnungen der Personalisierungen müssen eindeutig sein",
+  ),
+  allowBackorder: z.boolean().default(false),
 });
 
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
+export function getProductVariant(product: Pick<Product, "variants">, variantId?: string): ProductVariant | undefined {
+  return variantId ? product.variants.find((v) => v.id === variantId) : undefined;
+}
+
+// Unit price without initials: size override (or base price) plus variant surcharge
+export function getUnitPrice(product: Pick<Product, "basePrice" | "sizePrices" | "variants">, size: Size, variantId?: string): number {
+  const sizePrice = product.sizePrices[size] ?? product.basePrice;
+  return Math.round((sizePrice + (getProductVariant(product, variantId)?.surcharge ?? 0)) * 100) / 100;
+}
+
+// Stock is kept per size, and per variant and size for products with variants
+export function getStockKey(size: string, variantId?: string | null): string {
+  return variantId ? `${variantId}/${size}` : size;
+}
+
+// Stock of a size (and variant); undefined when it is not tracked
+export function getSizeStock(product: Pick<Product, "stock">, size: Size, variantId?: string): number | undefined {
+  return product.stock[getStockKey(size, variantId)];
+}
+
+// Whether another `quantity` pieces can be ordered without backorder
+export function isInStock(product: Pick<Product, "stock">, size: Size, quantity = 1, variantId?: string): boolean {
+  const stock = getSizeStock(product, size, variantId);
+  return stock === undefined || stock >= quantity;
+}
+
+// Product catalog import from CSV/XLSX, previewed as a dry run before it is applied
+export const PRODUCT_IMPORT_ACTIONS = ["create", "update", "unchanged", "error"] as const;
+export type ProductImportAction = typeof PRODUCT_IMPORT_ACTIONS[number];
+
+export const PRODUCT_IMPORT_ACTION_LABELS: Record<ProductImportAction, string> = {
+  "create": "Neu",
+  "update": "Änderung",
+  "unchanged": "Unverändert",
+  "error": "Fehler",
+};
+
+export interface ProductImportRow {
+  row: number; // Line in the file, counting the header as line 1
+  name: string;
+  action: ProductImportAction;
+  productId?: string; // Updated product, or the created one once applied
+  changes: string[]; // Column names of changed values
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  rows: ProductImportRow[];
+  counts: Record<ProductImportAction, number>;
+}
+
+export const STOCK_MOVEMENT_REASONS = ["order", "order-change", "order-cancel", "order-restore", "adjustment"] as const;
+export type StockMovementReason = typeof STOCK_MOVEMENT_REASONS[number];
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  "order": "Bestellung",
+  "order-change": "Bestelländerung",
+  "order-cancel": "Stornierung",
+  "order-restore": "Stornierung aufgehoben",
+  "adjustment": "Korrektur",
+};
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  size: string;
+  variantId?: string;
+  change: number;
+  stockAfter: number;
+  reason: StockMovementReason;
+  orderId?: string;
+  note?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Manual stock change: "add" books incoming/outgoing pieces, "set" records a
+// stock count, "untrack" stops tracking the size
+export const stockAdjustmentSchema = z.object({
+  size: z.string().min(1),
+  variantId: z.string().optional(), // Required for products with variants
+  mode: z.enum(["add", "set", "untrack"]),
+  quantity: z.number().int("Nur ganze Stückzahlen").default(0),
+  note: z.string().max(500).optional(),
+}).refine(
+  (data) => data.mode !== "add" || data.quantity !== 0,
+  { message: "Menge darf nicht 0 sein", path: ["quantity"] },
+).refine(
+  (data) => data.mode !== "set" || data.quantity >= 0,
+  { message: "Bestand darf nicht negativ sein", path: ["quantity"] },
+);
+
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
+
 // Campaign schema
+// Who gets the reminder before the order deadline; customers who already
+// ordered in the campaign are skipped
+export const REMINDER_AUDIENCES = ["mailing-list", "past-customers"] as const;
+export type ReminderAudience = typeof REMINDER_AUDIENCES[number];
+
+export const REMINDER_AUDIENCE_LABELS: Record<ReminderAudience, string> = {
+  "mailing-list": "Verteiler",
+  "past-customers": "Besteller früherer Kampagnen",
+};
+
+// public: listed on the home page, hidden: reachable only via its link,
+// code: reachable via its link or the home page after entering the access code
+export const CAMPAIGN_VISIBILITIES = ["public", "hidden", "code"] as const;
+export type CampaignVisibility = typeof CAMPAIGN_VISIBILITIES[number];
+
+export const CAMPAIGN_VISIBILITY_LABELS: Record<CampaignVisibility, string> = {
+  public: "Öffentlich",
+  hidden: "Nur per Link",
+  code: "Mit Zugangscode",
+};
+
 export interface Campaign {
   id: string;
   name: string;
@@ -183,6 +734,23 @@ export interface Campaign {
   endDate: string;
   active: boolean;
   productIds: string[];
+  reminderDaysBefore?: number;
+  reminderAudience: ReminderAudience;
+  reminderEmails: string[];
+  reminderSentAt?: string;
+  closedAt?: string;
+  visibility: CampaignVisibility;
+  accessCode?: string;
+  team?: Team;
+  onlinePayment: boolean;
+}
+
+// Campaign as served to customers, without the admin-only settings
+export type PublicCampaign = Omit<Campaign, "reminderEmails" | "accessCode">;
+
+// Access codes are compared case-insensitively
+export function normalizeAccessCode(code: string): string {
+  return code.trim().toUpperCase();
 }
 
 export const insertCampaignSchema = z.object({
@@ -192,6 +760,22 @@ export const insertCampaignSchema = z.object({
   endDate: z.string().min(1, "Enddatum ist erforderlich"),
   active: z.boolean().default(true),
   productIds: z.array(z.string()).default([]),
+  reminderDaysBefore: z.number().int().min(1, "Mindestens 1 Tag").max(60, "Höchstens 60 Tage").nullable().optional(),
+  reminderAudience: z.enum(REMINDER_AUDIENCES).default("past-customers"),
+  reminderEmails: z.array(z.string().trim().email("Ungültige E-Mail-Adresse im Verteiler")).default([]),
+  visibility: z.enum(CAMPAIGN_VISIBILITIES).default("public"),
+  accessCode: z
+    .string()
+    .transform(normalizeAccessCode)
+    .pipe(z.string().min(8, "Zugangscode muss mindestens 8 Zeichen haben").max(50, "Zugangscode ist zu lang"))
+    .nullable()
+    .optional(),
+  team: z.enum(TEAMS).nullable().optional(),
+  onlinePayment: z.boolean().default(false),
+});
+
+export const campaignAccessSchema = z.object({
+  code: z.string().min(1, "Zugangscode ist erforderlich"),
 });
 
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
@@ -202,27 +786,198 @@ export interface OrderItem {
   productName: string;
   category: string;
   size: Size;
+  variantId?: string;
+  variantName?: string;
   quantity: number;
   withInitials: boolean;
   initialsText?: string;
+  personalization?: PersonalizationValue[];
   unitPrice: number;
   initialsPrice: number;
+  personalizationPrice?: number; // Per piece
   totalPrice: number;
+  wearerName?: string; // Family orders: who the item is for; empty means the orderer
+  team?: Team; // Team of the wearer; empty means the order's team
+}
+
+// Product name with the chosen variant, e.g. "T-Shirt (grün)"
+export function formatOrderItemName(item: Pick<OrderItem, "productName" | "variantName">): string {
+  return item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
 }
 
 export const orderItemSchema = z.object({
   productId: z.string(),
   productName: z.string(),
   category: z.string(),
-  size: z.enum(AVAILABLE_SIZES),
+  size: z.string().min(1), // Must be one of the product's sizes, see priceOrderItems
+  variantId: z.string().optional(),
+  variantName: z.string().optional(),
   quantity: z.number().min(1),
   withInitials: z.boolean(),
-  initialsText: z.string().optional(),
+  initialsText: z.string().max(100, "Höchstens 100 Zeichen").optional(),
+  personalization: z.array(personalizationValueSchema).optional(),
   unitPrice: z.number(),
   initialsPrice: z.number(),
+  personalizationPrice: z.number().optional(),
   totalPrice: z.number(),
+  wearerName: z.string().trim().max(100, "Höchstens 100 Zeichen").optional(),
+  team: z.enum(TEAMS).optional(),
+});
+
+// Order status lifecycle
+export const ORDER_STATUSES = ["received", "ordered", "delivered", "picked-up", "cancelled"] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  "received": "Eingegangen",
+  "ordered": "Beim Lieferanten bestellt",
+  "delivered": "Geliefert / abholbereit",
+  "picked-up": "Abgeholt",
+  "cancelled": "Storniert",
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  "received": "bg-gray-500",
+  "ordered": "bg-blue-500",
+  "delivered": "bg-amber-500",
+  "picked-up": "bg-green-500",
+  "cancelled": "bg-red-500",
+};
+
+// Allowed transitions; the step back is kept to correct mistakes
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  "received": ["ordered", "cancelled"],
+  "ordered": ["delivered", "received", "cancelled"],
+  "delivered": ["picked-up", "ordered", "cancelled"],
+  "picked-up": ["delivered"],
+  "cancelled": ["received"],
+};
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export const PAYMENT_METHODS = ["cash", "transfer", "online", "other"] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  "cash": "Bar",
+  "transfer": "Überweisung",
+  "online": "Online-Zahlung",
+  "other": "Sonstige",
+};
+
+// Online prepayment at checkout, see server/paymentProvider.ts
+export const PAYMENT_PROVIDERS = ["stripe", "paypal", "fake"] as const;
+export type PaymentProviderName = typeof PAYMENT_PROVIDERS[number];
+
+export const ONLINE_PAYMENT_STATES = ["pending", "paid", "failed", "cancelled"] as const;
+export type OnlinePaymentState = typeof ONLINE_PAYMENT_STATES[number];
+
+export const ONLINE_PAYMENT_STATE_LABELS: Record<OnlinePaymentState, string> = {
+  "pending": "Online-Zahlung ausstehend",
+  "paid": "Online bezahlt",
+  "failed": "Online-Zahlung fehlgeschlagen",
+  "cancelled": "Online-Zahlung abgebrochen",
+};
+
+// SEPA bank transfer: the club's account for transfers and the GiroCode (EPC QR code)
+// ISO 7064 MOD 97-10 over letters (A=10 ... Z=35) and digits, as used by IBAN and RF references
+function mod97(value: string): number {
+  const digits = value.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+}
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s/g, "").toUpperCase();
+}
+
+export function isValidIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+  return /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized) && mod97(normalized.slice(4) + normalized.slice(0, 4)) === 1;
+}
+
+// Groups of four for display, e.g. "DE89 3704 0044 0532 0130 00"
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+export interface BankAccount {
+  accountHolder: string;
+  iban: string; // Normalized, without spaces
+  bic?: string;
+}
+
+export const bankAccountSchema = z.object({
+  accountHolder: z.string().trim().min(1, "Kontoinhaber ist erforderlich").max(70, "Höchstens 70 Zeichen"),
+  iban: z.string().transform(normalizeIban).refine(isValidIban, "Ungültige IBAN"),
+  bic: z
+    .string()
+    .transform((bic) => bic.replace(/\s/g, "").toUpperCase())
+    .refine((bic) => !bic || /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic), "Ungültige BIC")
+    .optional(),
 });
 
+/**
+ * Structured creditor reference (ISO 11649) of an order, e.g. "RF71TSVA1B2C3D4".
+ * Derived from the order number, so it never changes and needs no storage.
+ */
+export function getPaymentReference(order: Pick<Order, "id">): string {
+  const body = `TSV${getOrderNumber(order)}`;
+  const check = 98 - mod97(`${body}RF00`);
+  return `RF${String(check).padStart(2, "0")}${body}`;
+}
+
+export function formatPaymentReference(reference: string): string {
+  return reference.replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+// Transfer details shown to the customer while an amount is open
+export interface TransferDetails extends BankAccount {
+  reference: string;
+  amount: number;
+}
+
+// One credit from an uploaded bank statement (CAMT.053 or CSV)
+export interface BankTransaction {
+  date?: string; // YYYY-MM-DD booking date
+  amount: number;
+  name?: string; // Payer
+  remittance: string; // Verwendungszweck and structured reference
+}
+
+export interface ReconciliationMatch extends BankTransaction {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  campaignName: string;
+}
+
+export interface ReconciliationMismatch extends BankTransaction {
+  reason: string;
+  orderId?: string;
+  orderNumber?: string;
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationMatch[]; // Orders marked as paid
+  unmatched: ReconciliationMismatch[]; // Credits to check by hand
+  ignoredCount: number; // Debits and pending entries
+}
+
+// Derived payment state of an order
+export type PaymentStatus = "open" | "partial" | "paid";
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  "open": "Offen",
+  "partial": "Teilweise bezahlt",
+  "paid": "Bezahlt",
+};
+
 // Order schema
 export interface Order {
   id: string;
@@ -233,32 +988,284 @@ export interface Order {
   lastName: string;
   items: OrderItem[];
   totalAmount: number;
+  status: OrderStatus;
+  statusChangedAt?: string;
+  paidAmount: number;
+  paymentMethod?: PaymentMethod;
+  paidAt?: string;
+  paymentProvider?: PaymentProviderName;
+  paymentReference?: string;
+  paymentState?: OnlinePaymentState; // Only set for orders paid or to be paid online
+  accessToken: string; // Secret for the customer's self-service link
+  team?: Team;
   createdAt: string;
 }
 
+// Family orders: items can name their wearer and team, otherwise the orderer's apply
+export function getItemWearer(item: Pick<OrderItem, "wearerName">, order: Pick<Order, "firstName" | "lastName">): string {
+  return item.wearerName?.trim() || `${order.firstName} ${order.lastName}`;
+}
+
+export function getItemTeam(item: Pick<OrderItem, "team">, order: Pick<Order, "team">): Team | undefined {
+  return item.team ?? order.team;
+}
+
+export interface WearerItems {
+  wearerName: string;
+  team?: Team;
+  items: OrderItem[];
+}
+
+// Items per wearer, in the order the wearers first appear in the order
+export function groupItemsByWearer(order: Pick<Order, "firstName" | "lastName" | "team" | "items">): WearerItems[] {
+  const groups = new Map<string, WearerItems>();
+  for (const item of order.items) {
+    const wearerName = getItemWearer(item, order);
+    const key = wearerName.toLowerCase();
+    const group = groups.get(key) ?? { wearerName, team: getItemTeam(item, order), items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+// Short order number shown to customers, on e-mails, exports and print-outs
+export function getOrderNumber(order: Pick<Order, "id">): string {
+  return order.id.slice(0, 8).toUpperCase();
+}
+
+// German price display, e.g. "24,50 €"
+export function formatPrice(value: number): string {
+  return `${value.toFixed(2).replace(".", ",")} €`;
+}
+
+export function getPaymentStatus(order: Pick<Order, "totalAmount" | "paidAmount">): PaymentStatus {
+  if (order.paidAmount <= 0) return "open";
+  // Compare in cents to avoid floating point noise
+  return Math.round(order.paidAmount * 100) >= Math.round(order.totalAmount * 100) ? "paid" : "partial";
+}
+
+export function getOpenAmount(order: Pick<Order, "totalAmount" | "paidAmount">): number {
+  return Math.max(0, Math.round((order.totalAmount - order.paidAmount) * 100) / 100);
+}
+
 export const insertOrderSchema = z.object({
   campaignId: z.string().min(1),
   email: z.string().email("Gültige E-Mail-Adresse erforderlich"),
   firstName: z.string().min(1, "Vorname ist erforderlich"),
   lastName: z.string().min(1, "Nachname ist erforderlich"),
+  team: z.enum(TEAMS).optional(),
   items: z.array(orderItemSchema).min(1, "Mindestens ein Artikel erforderlich"),
+  accessCode: z.string().optional(), // Checked for campaigns with visibility "code", not stored
+  payOnline: z.boolean().optional(), // Start an online payment right after ordering
 });
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
-// Admin user - simple password protection for admin
-export interface User {
+// Customer self-service: replaces all items of the order
+export const updateOwnOrderSchema = z.object({
+  items: insertOrderSchema.shape.items,
+});
+
+export type UpdateOwnOrder = z.infer<typeof updateOwnOrderSchema>;
+
+// Last moment the customer may change an order: end of the campaign's last day
+export function getCampaignDeadline(campaign: Pick<Campaign, "endDate">): Date {
+  return new Date(`${campaign.endDate.slice(0, 10)}T23:59:59`);
+}
+
+// Money is on its way or already booked; changing the order would leave it
+// overpaid, so only the shop may change it then
+export function isOrderPaymentStarted(order: Pick<Order, "paymentState" | "paidAmount">): boolean {
+  return order.paymentState === "pending" || order.paidAmount > 0;
+}
+
+// Customers may only change orders that have not been passed to the supplier
+// yet and that are not (being) paid
+export function isOrderEditableByCustomer(
+  order: Pick<Order, "status" | "paymentState" | "paidAmount">,
+  campaign: Pick<Campaign, "endDate"> | undefined,
+  now: Date = new Date(),
+): boolean {
+  if (!campaign || order.status !== "received" || isOrderPaymentStarted(order)) return false;
+  return now <= getCampaignDeadline(campaign);
+}
+
+// Public view of an order via its access token
+export interface OwnOrderView {
+  order: Order;
+  campaign?: PublicCampaign;
+  products: Product[];
+  editable: boolean;
+  deadline?: string;
+  onlinePaymentAvailable: boolean; // An online payment can be started for the open amount
+  transfer?: TransferDetails; // Set while an amount is open and a bank account is configured
+}
+
+// Response of starting an online payment; the customer is sent to checkoutUrl
+export interface PaymentCheckout {
+  checkoutUrl: string;
+}
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+});
+
+export const bulkUpdateOrderStatusSchema = z.object({
+  orderIds: z.array(z.string()).min(1, "Mindestens eine Bestellung auswählen"),
+  status: z.enum(ORDER_STATUSES),
+});
+
+export const updateOrderPaymentSchema = z.object({
+  paidAmount: z.number().min(0, "Betrag darf nicht negativ sein"),
+  paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+  paidAt: isoDateSchema.optional(), // Defaults to now when an amount is paid
+});
+
+export type UpdateOrderPayment = z.infer<typeof updateOrderPaymentSchema>;
+
+// Customer notifications on status changes
+export const ORDER_NOTIFICATION_TYPES = ["ready-for-pickup", "cancelled"] as const;
+export type OrderNotificationType = typeof ORDER_NOTIFICATION_TYPES[number];
+
+export const ORDER_NOTIFICATION_LABELS: Record<OrderNotificationType, string> = {
+  "ready-for-pickup": "Abholbereit",
+  "cancelled": "Storniert",
+};
+
+// Order status an order must have to receive the notification
+export const ORDER_NOTIFICATION_STATUS: Record<OrderNotificationType, OrderStatus> = {
+  "ready-for-pickup": "delivered",
+  "cancelled": "cancelled",
+};
+
+export interface OrderNotification {
   id: string;
-  username: string;
-  password: string;
+  orderId: string;
+  type: OrderNotificationType;
+  email: string;
+  success: boolean;
+  error?: string;
+  sentAt: string;
 }
 
-export const insertUserSchema = z.object({
-  username: z.string().min(1),
-  password: z.string().min(1),
+// Club data printed as the invoice's issuer
+export interface InvoiceIssuer {
+  name: string;
+  addressLines: string[];
+  taxNumber?: string;
+  taxNote: string;
+}
+
+// Order data printed on the invoice
+export type InvoiceOrder = Pick<
+  Order,
+  | "id"
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "campaignName"
+  | "items"
+  | "totalAmount"
+  | "paidAmount"
+  | "paymentMethod"
+  | "paidAt"
+  | "createdAt"
+>;
+
+// An issued invoice is rendered from this copy, later changes to the order or
+// the issuer settings do not alter it
+export interface InvoiceSnapshot {
+  issuer: InvoiceIssuer;
+  order: InvoiceOrder;
+}
+
+export interface Invoice {
+  id: string;
+  number: number;
+  orderId: string;
+  issuedAt: string;
+  snapshot: InvoiceSnapshot | null; // Null until an invoice issued before snapshots is used again
+}
+
+// e.g. "RE-00042"
+export function formatInvoiceNumber(number: number): string {
+  return `RE-${String(number).padStart(5, "0")}`;
+}
+
+export const pickupInfoSchema = z.object({
+  pickupLocation: z.string().min(1, "Abholort ist erforderlich"),
+  pickupTime: z.string().min(1, "Abholzeit ist erforderlich"), // Free text, e.g. "Sa, 12.04. 10-12 Uhr"
 });
 
-export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PickupInfo = z.infer<typeof pickupInfoSchema>;
+
+export const sendOrderNotificationsSchema = z.object({
+  campaignId: z.string().min(1, "Kampagne ist erforderlich"),
+  type: z.enum(ORDER_NOTIFICATION_TYPES),
+  pickupLocation: z.string().optional(),
+  pickupTime: z.string().optional(),
+  force: z.boolean().default(false), // Also notify orders that were already notified
+  attachInvoice: z.boolean().default(false), // Issue the invoice PDF and attach it (not for cancellations)
+}).refine(
+  (data) => data.type !== "ready-for-pickup" || (!!data.pickupLocation && !!data.pickupTime),
+  { message: "Abholort und Abholzeit sind erforderlich", path: ["pickupLocation"] },
+);
+
+// Supplier purchase order: campaign items summed up per product, size and
+// initials text, one order per brand
+export const NO_BRAND_SUPPLIER = "Ohne Marke";
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  variantName?: string;
+  category: string;
+  size: string;
+  initialsText?: string;
+  personalization?: string; // Formatted field values, see formatPersonalization
+  quantity: number;
+}
+
+export interface SupplierPurchaseOrder {
+  supplier: string;
+  lines: PurchaseOrderLine[];
+  totalQuantity: number;
+  initialsQuantity: number; // Pieces that need initials printed
+  personalizationQuantity: number; // Pieces with further personalization printed
+}
+
+// Distribution day print-outs (packing list and pickup sheets)
+export const PICK_LIST_SORTS = ["name", "team"] as const;
+export type PickListSort = typeof PICK_LIST_SORTS[number];
+
+export const PICK_LIST_SORT_LABELS: Record<PickListSort, string> = {
+  name: "Nach Name",
+  team: "Nach Mannschaft",
+};
+
+// Campaign reporting dashboard; cancelled orders are not counted
+export interface CampaignReportTotals {
+  campaignId: string;
+  campaignName: string;
+  startDate: string;
+  orderCount: number;
+  itemCount: number;
+  revenue: number;
+  initialsRevenue: number; // Initials surcharges
+  personalizationRevenue: number; // Surcharges of the configurable personalization fields
+  averageOrderValue: number;
+}
+
+export interface CampaignReport extends CampaignReportTotals {
+  cancelledCount: number;
+  paidAmount: number;
+  openAmount: number;
+  topProducts: { productId: string; productName: string; quantity: number; revenue: number }[];
+  sizeDistribution: { productId: string; productName: string; sizes: { size: string; quantity: number }[] }[];
+  ordersPerDay: { date: string; orders: number; revenue: number }[]; // Every day from start to the last order day
+  previousCampaigns: CampaignReportTotals[]; // Most recent first
+}
 
 // ============================================
 // PLANNING MODULE - Football Calendar & Fields
@@ -275,36 +1282,6 @@ export const EVENT_TYPES = [
 ] as const;
 export type EventType = typeof EVENT_TYPES[number];
 
-// Teams/Mannschaften
-export const TEAMS = [
-  "herren",
-  "herren2",
-  "a-jugend",
-  "b-jugend",
-  "c-jugend",
-  "d-jugend",
-  "e-jugend",
-  "f-jugend",
-  "g-jugend",
-  "damen",
-  "alte-herren"
-] as const;
-export type Team = typeof TEAMS[number];
-
-export const TEAM_LABELS: Record<Team, string> = {
-  "herren": "Herren",
-  "herren2": "Herren II",
-  "a-jugend": "A-Jugend",
-  "b-jugend": "B-Jugend",
-  "c-jugend": "C-Jugend",
-  "d-jugend": "D-Jugend",
-  "e-jugend": "E-Jugend",
-  "f-jugend": "F-Jugend",
-  "g-jugend": "G-Jugend",
-  "damen": "Damen",
-  "alte-herren": "Alte Herren"
-};
-
 // Fields/Plätze
 export const FIELDS = ["a-platz", "b-platz"] as const;
 export type Field = typeof FIELDS[number];
@@ -438,3 +1415,208 @@ export const TEAM_BORDER_COLORS: Record<Team, string> = {
   "g-jugend": "border-yellow-500",
   "alte-herren": "border-slate-500",
 };
+
+// ============================================
+// ADMIN USERS & ROLES
+// ============================================
+
+// Admin user roles
+// admin: full access incl. user management, shop-admin: products/campaigns/orders,
+// planner: calendar/fields/BFV import (board level), coach: training events of
+// the granted teams only, viewer: read-only access to the admin area
+export const USER_ROLES = ["admin", "shop-admin", "planner", "coach", "viewer"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  "admin": "Administrator",
+  "shop-admin": "Shop-Verwaltung",
+  "planner": "Planung",
+  "coach": "Trainer",
+  "viewer": "Nur Lesen",
+};
+
+// Role check shared by server middleware and client UI; admins may do everything
+export function hasRole(role: UserRole, allowed: readonly UserRole[]): boolean {
+  return role === "admin" || allowed.includes(role);
+}
+
+// Admin user - individual login for the admin area
+export interface User {
+  id: string;
+  username: string;
+  password: string; // scrypt hash, never the plaintext password
+  displayName?: string;
+  role: UserRole;
+  teams: Team[];          // Team grants for the coach role
+  active: boolean;
+  lastLoginAt?: string;
+  passwordChangedAt?: string;
+  createdAt: string;
+}
+
+// User as exposed to the client (without password hash)
+export type PublicUser = Omit<User, "password">;
+
+export const insertUserSchema = z.object({
+  username: z
+    .string()
+    .min(3, "Benutzername muss mindestens 3 Zeichen lang sein")
+    .regex(/^[a-z0-9._-]+$/, "Benutzername darf nur Kleinbuchstaben, Ziffern, Punkt, Binde- und Unterstrich enthalten"),
+  password: z.string().min(8, "Passwort muss mindestens 8 Zeichen lang sein"),
+  displayName: z.string().optional(),
+  role: z.enum(USER_ROLES).default("viewer"),
+  teams: z.array(z.enum(TEAMS)).default([]),
+  active: z.boolean().default(true),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export const updateUserSchema = insertUserSchema.omit({ username: true }).partial();
+
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Event types coaches may manage for their own teams
+export const COACH_EVENT_TYPES: readonly EventType[] = ["training"];
+
+// Calendar permission check shared by server routes and client UI:
+// planners (and admins) manage everything, coaches only training events of
+// their granted teams; field closures stay with the board
+export function canManageCalendarEvent(
+  user: Pick<PublicUser, "role" | "teams">,
+  event: { type: EventType; team?: Team }
+): boolean {
+  if (hasRole(user.role, ["planner"])) return true;
+  if (user.role !== "coach") return false;
+  return COACH_EVENT_TYPES.includes(event.type) && !!event.team && user.teams.includes(event.team);
+}
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "import", "password-change", "login-failed"] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "create": "Erstellt",
+  "update": "Geändert",
+  "delete": "Gelöscht",
+  "import": "Importiert",
+  "password-change": "Passwort geändert",
+  "login-failed": "Anmeldung fehlgeschlagen",
+};
+
+export const AUDIT_ENTITY_TYPES = [
+  "product",
+  "size-set",
+  "campaign",
+  "order",
+  "calendar-event",
+  "recurring-group",
+  "field-mapping",
+  "bfv-config",
+  "bfv-import",
+  "user",
+  "email-template",
+  "bank-account",
+  "invoice",
+] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  "product": "Produkt",
+  "size-set": "Größensystem",
+  "campaign": "Kampagne",
+  "order": "Bestellung",
+  "calendar-event": "Termin",
+  "recurring-group": "Terminserie",
+  "field-mapping": "Platzzuordnung",
+  "bfv-config": "BFV-Konfiguration",
+  "bfv-import": "BFV-Import",
+  "user": "Benutzer",
+  "email-template": "E-Mail-Vorlage",
+  "bank-account": "Bankverbindung",
+  "invoice": "Rechnung",
+};
+
+export interface AuditLogEntry {
+  id: string;
+  actorId?: string;
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+  createdAt: string;
+}
+
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  actorId?: string;
+  from?: string;  // YYYY-MM-DD
+  to?: string;    // YYYY-MM-DD
+  limit?: number;
+}
+
+// ============================================
+// EMAIL TEMPLATES
+// ============================================
+
+export const EMAIL_TEMPLATE_KEYS = ["order-confirmation", "payment-received", "ready-for-pickup", "cancelled"] as const;
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateKey, string> = {
+  "order-confirmation": "Bestellbestätigung",
+  "payment-received": "Zahlungseingang",
+  "ready-for-pickup": "Abholbereit",
+  "cancelled": "Stornierung",
+};
+
+// Placeholders usable as {{name}} in subject and body; {{#if name}}...{{/if}}
+// shows a block only when the value is not empty
+export const EMAIL_TEMPLATE_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: "orderNumber", description: "Bestellnummer (8 Zeichen)" },
+  { key: "campaignName", description: "Name der Kampagne" },
+  { key: "firstName", description: "Vorname" },
+  { key: "lastName", description: "Nachname" },
+  { key: "email", description: "E-Mail-Adresse" },
+  { key: "orderDate", description: "Bestelldatum und Uhrzeit" },
+  { key: "itemsTable", description: "Tabelle mit allen Artikeln (nur im Text)" },
+  { key: "totalAmount", description: "Gesamtbetrag" },
+  { key: "paidAmount", description: "Bereits bezahlt (leer, wenn nichts bezahlt)" },
+  { key: "openAmount", description: "Offener Betrag (leer, wenn alles bezahlt)" },
+  { key: "paymentNote", description: "Hinweis zur Bezahlung: bei Abholung, online ausstehend oder bezahlt" },
+  { key: "paymentLink", description: "Link zum Nachholen der Online-Zahlung (leer, wenn keine aussteht)" },
+  { key: "paymentReference", description: "Verwendungszweck für Überweisungen (RF-Referenz)" },
+  { key: "accountHolder", description: "Kontoinhaber des Vereinskontos (leer, wenn nichts offen oder kein Konto hinterlegt)" },
+  { key: "iban", description: "IBAN des Vereinskontos (leer, wenn nichts offen oder kein Konto hinterlegt)" },
+  { key: "girocodeUrl", description: "Bild-Link zum GiroCode für die Überweisung (leer, wenn keine Überweisung möglich)" },
+  { key: "pickupLocation", description: "Abholort (nur Abholbereit)" },
+  { key: "pickupTime", description: "Abholzeit (nur Abholbereit)" },
+  { key: "orderLink", description: "Link, unter dem der Besteller seine Bestellung ansehen und ändern kann" },
+];
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  subject: string;
+  body: string; // HTML inside the common mail layout
+  isDefault: boolean;
+}
+
+export const updateEmailTemplateSchema = z.object({
+  subject: z.string().min(1, "Betreff ist erforderlich").max(255),
+  body: z.string().min(1, "Text ist erforderlich"),
+});
+
+export type UpdateEmailTemplate = z.infer<typeof updateEmailTemplateSchema>;
+
+export const previewEmailTemplateSchema = updateEmailTemplateSchema.extend({
+  key: z.enum(EMAIL_TEMPLATE_KEYS),
+});
+
+export const sendTestEmailSchema = previewEmailTemplateSchema.extend({
+  to: z.string().email("Ungültige E-Mail-Adresse"),
+});